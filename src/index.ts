@@ -14,20 +14,157 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import express from 'express';
+import { requireBearerAuth } from '@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js';
+import { mcpAuthMetadataRouter, getOAuthProtectedResourceMetadataUrl } from '@modelcontextprotocol/sdk/server/auth/router.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import express, { type RequestHandler } from 'express';
+import { randomUUID } from 'crypto';
 import { registerTools } from './tools/index.js';
+import { registerResources, registerSubscriptions } from './resources/index.js';
+import { registerPrompts } from './prompts/index.js';
+import { appleScriptBackend } from './services/mail.js';
+import { loadMemoryBackend } from './services/memory.js';
+import { createSearchIndex, defaultSearchIndexPath, type SearchIndex } from './services/search-index.js';
+import { createEventStore } from './services/event-store.js';
+import { createSessionRegistry } from './services/sessions.js';
+import { createMailWatcher, type MailWatcher } from './services/watcher.js';
+import { createWebhookNotifier } from './services/webhook.js';
+import { sweepStagedAttachments } from './services/attachments.js';
+import { normalizeMailboxPath, mailboxUri } from './services/mailboxes.js';
+import {
+  loadAuthConfig,
+  isAuthEnabled,
+  discoverOAuthMetadata,
+  createTokenVerifier,
+  grantedScopes,
+  isLoopbackHost,
+  SCOPES,
+  type Scope
+} from './services/auth.js';
+import type { MailBackend } from './types.js';
 
 /**
- * Create and configure the MCP server
+ * Select the mail backend from the environment
  */
-function createServer(): McpServer {
+async function createBackend(): Promise<MailBackend> {
+  const backend = process.env.MAIL_BACKEND || 'applescript';
+  
+  if (backend === 'applescript') {
+    return appleScriptBackend;
+  }
+  
+  if (backend === 'memory') {
+    const fixturePath = process.env.MAIL_FIXTURE;
+    if (!fixturePath) {
+      throw new Error('MAIL_FIXTURE must be set when MAIL_BACKEND=memory');
+    }
+    return loadMemoryBackend(fixturePath);
+  }
+  
+  throw new Error(`Unknown MAIL_BACKEND: ${backend}`);
+}
+
+/**
+ * Open the local search index from the environment
+ *
+ * Fixture data only lives as long as the process, so the memory backend
+ * indexes into memory unless told otherwise.
+ */
+function createIndex(): SearchIndex {
+  const memory = process.env.MAIL_BACKEND === 'memory';
+  return createSearchIndex(process.env.MAIL_INDEX_PATH || (memory ? ':memory:' : defaultSearchIndexPath()));
+}
+
+/**
+ * Refresh the search index in the background every MAIL_INDEX_REFRESH_MINUTES
+ */
+function scheduleIndexRefresh(index: SearchIndex, backend: MailBackend): void {
+  const minutes = parseFloat(process.env.MAIL_INDEX_REFRESH_MINUTES || '0');
+  if (!(minutes > 0)) {
+    return;
+  }
+  
+  const refresh = () => {
+    index.refresh(backend, { maxAge: minutes * 60 }).catch(error => {
+      console.error('Search index refresh failed:', error);
+    });
+  };
+  
+  refresh();
+  setInterval(refresh, minutes * 60 * 1000).unref();
+}
+
+/**
+ * Create the mail watcher, polling every MAIL_WATCH_SECONDS
+ *
+ * With MAIL_WEBHOOK_URL set, the mailboxes in MAIL_WEBHOOK_MAILBOXES (every
+ * inbox by default) are watched from the start and their changes POSTed to
+ * it. Entries are "Account:Path", or a path to watch in every account having it.
+ */
+async function createWatcher(backend: MailBackend): Promise<MailWatcher> {
+  const seconds = parseFloat(process.env.MAIL_WATCH_SECONDS || '30');
+  if (!(seconds > 0)) {
+    throw new Error('MAIL_WATCH_SECONDS must be a positive number');
+  }
+  const watcher = createMailWatcher(backend, seconds * 1000);
+  
+  if (!process.env.MAIL_WEBHOOK_URL) {
+    return watcher;
+  }
+  
+  // Mailboxes clients subscribe to are watched too, but aren't reported here
+  const reported = new Set<string>();
+  const notify = createWebhookNotifier(backend, new URL(process.env.MAIL_WEBHOOK_URL), process.env.MAIL_WEBHOOK_SECRET);
+  watcher.onChanges(batch => {
+    if (reported.has(batch.uri)) {
+      notify(batch);
+    }
+  });
+  
+  const mailboxes = await backend.listMailboxes();
+  const entries = (process.env.MAIL_WEBHOOK_MAILBOXES || 'INBOX').split(',').map(entry => entry.trim()).filter(Boolean);
+  for (const entry of entries) {
+    const separator = entry.indexOf(':');
+    const account = separator === -1 ? undefined : entry.substring(0, separator);
+    const path = normalizeMailboxPath(separator === -1 ? entry : entry.substring(separator + 1)).toLowerCase();
+    
+    const matches = mailboxes.filter(mailbox =>
+      (account === undefined || mailbox.account === account) && mailbox.path.toLowerCase() === path);
+    if (matches.length === 0) {
+      throw new Error(`MAIL_WEBHOOK_MAILBOXES: mailbox "${entry}" not found`);
+    }
+    for (const mailbox of matches) {
+      reported.add(mailboxUri(mailbox.account, mailbox.path));
+      watcher.watch(mailbox.account, mailbox.path);
+    }
+  }
+  
+  return watcher;
+}
+
+/**
+ * Create and configure the MCP server, offering the tools and prompts within `scopes`
+ */
+function createServer(
+  backend: MailBackend,
+  index: SearchIndex,
+  watcher: MailWatcher,
+  scopes: ReadonlySet<Scope> = new Set(SCOPES)
+): McpServer {
   const server = new McpServer({
     name: 'apple-mail-mcp-server',
     version: '1.0.0'
   });
   
-  // Register all tools
-  registerTools(server);
+  // Register all tools and prompts
+  registerTools(server, backend, index, scopes);
+  registerPrompts(server, backend, scopes);
+  
+  // Resources expose mail content, so they need read access
+  if (scopes.has('read')) {
+    registerResources(server, backend);
+    registerSubscriptions(server, backend, watcher);
+  }
   
   return server;
 }
@@ -35,8 +172,8 @@ function createServer(): McpServer {
 /**
  * Run server with stdio transport (for local CLI usage)
  */
-async function runStdio(): Promise<void> {
-  const server = createServer();
+async function runStdio(backend: MailBackend, index: SearchIndex, watcher: MailWatcher): Promise<void> {
+  const server = createServer(backend, index, watcher);
   const transport = new StdioServerTransport();
   
   await server.connect(transport);
@@ -45,55 +182,204 @@ async function runStdio(): Promise<void> {
   console.error('Connected and ready to receive requests');
 }
 
+/**
+ * Set up bearer-token authentication for the MCP endpoint, if configured
+ *
+ * With OAuth, the protected resource metadata pointing clients at the
+ * authorization server is served as well. Without any authentication the
+ * server refuses to listen beyond this machine.
+ */
+async function createAuthentication(app: express.Express, host: string, resource: URL): Promise<RequestHandler | undefined> {
+  const config = await loadAuthConfig();
+  
+  if (!isAuthEnabled(config)) {
+    if (!isLoopbackHost(host)) {
+      throw new Error(`Refusing to listen on ${host} without authentication; set MAIL_AUTH_TOKEN, MAIL_AUTH_TOKENS_FILE or MAIL_OAUTH_ISSUER`);
+    }
+    return undefined;
+  }
+  
+  const oauthMetadata = config.oauth ? await discoverOAuthMetadata(config.oauth.issuer) : undefined;
+  if (oauthMetadata) {
+    app.use(mcpAuthMetadataRouter({
+      oauthMetadata,
+      resourceServerUrl: resource,
+      scopesSupported: [...SCOPES],
+      resourceName: 'Apple Mail'
+    }));
+  }
+  
+  return requireBearerAuth({
+    verifier: createTokenVerifier(config, resource, oauthMetadata),
+    resourceMetadataUrl: oauthMetadata ? getOAuthProtectedResourceMetadataUrl(resource) : undefined
+  });
+}
+
+/**
+ * Answer an HTTP request with a JSON-RPC error
+ */
+function sendError(res: express.Response, status: number, message: string, code = -32000): void {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null
+  });
+}
+
+/**
+ * Whether `granted` covers every scope in `required`
+ */
+function hasScopes(granted: ReadonlySet<Scope>, required: ReadonlySet<Scope> | undefined): boolean {
+  return [...(required ?? [])].every(scope => granted.has(scope));
+}
+
+/**
+ * Answer a request whose handler threw, unless a response is already under way
+ *
+ * Express 4 doesn't catch rejected promises from async handlers, so each one
+ * catches its own errors and ends here.
+ */
+function sendInternalError(res: express.Response, error: unknown): void {
+  console.error('Error handling MCP request:', error);
+  if (!res.headersSent) {
+    sendError(res, 500, 'Internal server error', -32603);
+  }
+}
+
 /**
  * Run server with HTTP transport (for remote access)
+ *
+ * Each client gets a session with its own server, so notifications and
+ * progress can be streamed to it over SSE; dropped streams can be resumed.
  */
-async function runHTTP(): Promise<void> {
+async function runHTTP(backend: MailBackend, index: SearchIndex, watcher: MailWatcher): Promise<void> {
   const app = express();
   app.use(express.json());
   
-  const server = createServer();
+  const port = parseInt(process.env.PORT || '3000');
+  const host = process.env.HOST || '127.0.0.1';
+  const resource = new URL(process.env.MAIL_PUBLIC_URL || `http://${host.includes(':') ? `[${host}]` : host}:${port}/mcp`);
+  const authenticate = await createAuthentication(app, host, resource);
+  
+  const idleMinutes = parseFloat(process.env.MAIL_SESSION_IDLE_MINUTES || '30');
+  const sessions = createSessionRegistry(idleMinutes * 60 * 1000);
+  const requireAuth = authenticate ? [authenticate] : [];
   
   // Health check endpoint
   app.get('/health', (_req, res) => {
     res.json({ 
       status: 'healthy',
       server: 'apple-mail-mcp-server',
-      version: '1.0.0'
+      version: '1.0.0',
+      sessions: sessions.list().length
     });
   });
   
-  // Main MCP endpoint
-  app.post('/mcp', async (req, res) => {
-    // Create new transport for each request to prevent request ID collisions
-    const transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined,
-      enableJsonResponse: true
+  /**
+   * Start a session for an initialize request, with a server offering just
+   * the tools the caller's token allows
+   */
+  async function startSession(req: express.Request, res: express.Response): Promise<void> {
+    const scopes = req.auth ? grantedScopes(req.auth) : undefined;
+    const server = createServer(backend, index, watcher, scopes);
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      eventStore: createEventStore(),
+      onsessioninitialized: id => {
+        sessions.track(sessions.add(id, { server, transport, clientId: req.auth?.clientId, scopes }), res);
+      },
+      onsessionclosed: id => {
+        sessions.remove(id);
+      }
     });
     
-    res.on('close', () => {
-      transport.close();
+    // A failed initialization leaves no session behind
+    res.once('close', () => {
+      if (!transport.sessionId) {
+        server.close();
+      }
     });
     
     await server.connect(transport);
     await transport.handleRequest(req, res, req.body);
+  }
+  
+  /**
+   * Hand a request to the session named in its Mcp-Session-Id header
+   */
+  async function handleSessionRequest(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const id = req.header('mcp-session-id');
+      const session = id ? sessions.get(id) : undefined;
+      
+      if (!session) {
+        sendError(res, id ? 404 : 400, id ? 'Session not found' : 'Missing Mcp-Session-Id header; initialize a session first');
+        return;
+      }
+      if (session.clientId !== req.auth?.clientId) {
+        sendError(res, 403, 'Session belongs to another client');
+        return;
+      }
+      if (req.auth && !hasScopes(grantedScopes(req.auth), session.scopes)) {
+        sendError(res, 403, 'Token no longer grants every scope this session was started with; start a new session');
+        return;
+      }
+      
+      sessions.track(session, res);
+      await session.transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      sendInternalError(res, error);
+    }
+  }
+  
+  // Main MCP endpoint: POST for requests, GET for the notification stream, DELETE to end the session
+  app.post('/mcp', requireAuth, async (req: express.Request, res: express.Response) => {
+    try {
+      if (!req.header('mcp-session-id') && isInitializeRequest(req.body)) {
+        await startSession(req, res);
+      } else {
+        await handleSessionRequest(req, res);
+      }
+    } catch (error) {
+      sendInternalError(res, error);
+    }
   });
+  app.get('/mcp', requireAuth, handleSessionRequest);
+  app.delete('/mcp', requireAuth, handleSessionRequest);
   
-  const port = parseInt(process.env.PORT || '3000');
+  const shutdown = () => {
+    sessions.closeAll().finally(() => process.exit(0));
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
   
-  app.listen(port, () => {
+  app.listen(port, host, () => {
     console.error(`\n🚀 Apple Mail MCP Server v1.0.0`);
-    console.error(`📧 Running on http://localhost:${port}/mcp`);
-    console.error(`💚 Health check: http://localhost:${port}/health`);
+    console.error(`📧 Running on ${resource.href}`);
+    console.error(`💚 Health check: ${new URL('/health', resource).href}`);
+    console.error(authenticate ? `🔒 Bearer token required` : `🔓 No authentication (local connections only)`);
     console.error(`\n📝 Available Tools:`);
     console.error(`   • apple_mail_search - Search for emails`);
     console.error(`   • apple_mail_get_email - Get full email details`);
-    console.error(`   • apple_mail_list_mailboxes - List all mailboxes`);
+    console.error(`   • apple_mail_get_thread - Get a conversation thread`);
+    console.error(`   • apple_mail_get_headers - Get parsed headers and raw source`);
+    console.error(`   • apple_mail_list_mailboxes - List the mailbox tree`);
     console.error(`   • apple_mail_get_attachments - List email attachments`);
-    console.error(`   • apple_mail_move_email - Move email to folder`);
+    console.error(`   • apple_mail_save_attachment - Save attachments and read their content`);
+    console.error(`   • apple_mail_refresh_index - Update the local search index`);
+    console.error(`   • apple_mail_index_status - Show search index freshness`);
+    console.error(`   • apple_mail_move_email - Move emails to folder`);
     console.error(`   • apple_mail_mark_read - Mark as read/unread`);
+    console.error(`   • apple_mail_set_flags - Set flags, flag colors and junk status`);
+    console.error(`   • apple_mail_delete - Delete emails (to Trash)`);
+    console.error(`   • apple_mail_restore - Restore deleted emails`);
+    console.error(`   • apple_mail_create_mailbox - Create a (nested) mailbox`);
+    console.error(`   • apple_mail_rename_mailbox - Rename a mailbox`);
+    console.error(`   • apple_mail_delete_mailbox - Delete an empty mailbox`);
     console.error(`   • apple_mail_create_draft - Create draft email`);
     console.error(`   • apple_mail_send_email - Send email immediately`);
+    console.error(`   • apple_mail_reply - Reply or reply all to an email`);
+    console.error(`   • apple_mail_forward - Forward an email`);
     console.error(`   • apple_mail_list_accounts - List all accounts`);
     console.error(`\n✨ Ready to connect in Claude.ai!\n`);
   }).on('error', (error) => {
@@ -121,27 +407,75 @@ USAGE:
   TRANSPORT=stdio npm start    # Run with stdio transport
   
 ENVIRONMENT VARIABLES:
-  TRANSPORT   Transport type: 'stdio' or 'http' (default: http)
-  PORT        HTTP server port (default: 3000, only for HTTP transport)
+  TRANSPORT                   Transport type: 'stdio' or 'http' (default: http)
+  PORT                        HTTP server port (default: 3000, only for HTTP transport)
+  MAIL_SESSION_IDLE_MINUTES   Close HTTP sessions idle for this long (default: 30)
+  HOST                        Address the HTTP server binds to (default: 127.0.0.1)
+  MAIL_PUBLIC_URL             URL clients reach /mcp at, for OAuth (default: http://HOST:PORT/mcp)
+  MAIL_AUTH_TOKEN             Bearer token with every scope required on /mcp
+  MAIL_AUTH_TOKENS_FILE       JSON file of bearer tokens with their scopes (read, organize, compose, send)
+  MAIL_OAUTH_ISSUER           OAuth 2.1 authorization server whose access tokens are accepted
+  MAIL_OAUTH_CLIENT_ID        Client ID for the authorization server's token introspection
+  MAIL_OAUTH_CLIENT_SECRET    Client secret for the authorization server's token introspection
+  MAIL_OAUTH_ALLOW_NO_AUD     Set to true to accept OAuth tokens whose introspection names no audience
+  MAIL_BACKEND                Mail backend: 'applescript' or 'memory' (default: applescript)
+  MAIL_FIXTURE                JSON fixture file to load (required for the memory backend)
+  MAIL_ATTACHMENT_DIR         Directory attachments are saved to (default: ~/Downloads/apple-mail-mcp)
+  MAIL_ATTACHMENT_SOURCE_DIR  Directory outgoing attachments may be read from (default: MAIL_ATTACHMENT_DIR)
+  MAIL_INDEX_PATH             Search index database (default: ~/.apple-mail-mcp/search-index.db)
+  MAIL_DELETIONS_PATH         Record of deleted messages for restores (default: ~/.apple-mail-mcp/deletions.json)
+  MAIL_INDEX_REFRESH_MINUTES  Refresh the search index in the background this often (default: off)
+  MAIL_WATCH_SECONDS          How often watched mailboxes are checked for changes (default: 30)
+  MAIL_WEBHOOK_URL            POST new, changed and deleted messages to this URL as JSON
+  MAIL_WEBHOOK_SECRET         Sign webhook bodies with HMAC-SHA256 in X-Mail-Signature
+  MAIL_WEBHOOK_MAILBOXES      Mailboxes reported to the webhook, as "Account:Path" or "Path" (default: INBOX)
 
 AVAILABLE TOOLS:
   Search & Read:
     • apple_mail_search          Search emails by query, sender, subject
     • apple_mail_get_email       Get full details of specific email
-    • apple_mail_list_mailboxes  List all mailboxes/folders
+    • apple_mail_get_thread      Get all messages in a conversation
+    • apple_mail_get_headers     Get parsed headers and raw source
+    • apple_mail_list_mailboxes  List the mailbox/folder tree
     • apple_mail_get_attachments List email attachments
+    • apple_mail_save_attachment Save attachments and read their content
+    
+  Search Index:
+    • apple_mail_refresh_index   Update the local full-text index
+    • apple_mail_index_status    Show when each mailbox was last indexed
     
   Organization:
-    • apple_mail_move_email      Move email to different folder
-    • apple_mail_mark_read       Mark email as read/unread
+    • apple_mail_move_email      Move emails to a different folder
+    • apple_mail_mark_read       Mark emails as read/unread
+    • apple_mail_set_flags       Set flags, flag colors and junk status
+    • apple_mail_delete          Move emails to Trash or delete permanently
+    • apple_mail_restore         Restore deleted emails from Trash
+    • apple_mail_create_mailbox  Create a mailbox, nested via paths
+    • apple_mail_rename_mailbox  Rename a mailbox
+    • apple_mail_delete_mailbox  Delete an empty mailbox
     
   Composition:
     • apple_mail_create_draft    Create new draft email
     • apple_mail_send_email      Send email immediately
+    • apple_mail_reply           Reply or reply all (threaded)
+    • apple_mail_forward         Forward an email
     
   Account Management:
     • apple_mail_list_accounts   List all email accounts
 
+AVAILABLE RESOURCES:
+    • mail://account/{account}/mailbox/{+path}  Mailbox with its newest messages
+    • mail://message/{id}                       Email headers and plain-text body
+    • mail://message/{id}/source                Raw RFC 822 source
+    • mail://message/{id}/attachment/{name}     Attachment content
+
+AVAILABLE PROMPTS:
+    • triage_inbox               Sort unread inbox mail by urgency
+    • summarize_thread           Summarize a conversation
+    • draft_reply                Draft a reply in a chosen tone
+    • unanswered_emails          Find emails from a sender you haven't answered
+    • weekly_digest              Digest of a mailbox's past week
+
 CONNECTION:
   To connect in Claude.ai:
   1. Start the server: npm start
@@ -155,10 +489,16 @@ For more information:
   }
   
   try {
+    const backend = await createBackend();
+    await sweepStagedAttachments();
+    const index = createIndex();
+    scheduleIndexRefresh(index, backend);
+    const watcher = await createWatcher(backend);
+    
     if (transport === 'http') {
-      await runHTTP();
+      await runHTTP(backend, index, watcher);
     } else {
-      await runStdio();
+      await runStdio(backend, index, watcher);
     }
   } catch (error) {
     console.error('Fatal error:', error);
@@ -0,0 +1,232 @@
+/**
+ * Prompt implementations for Apple Mail MCP Server
+ *
+ * Each prompt is a ready-made request walking the model through a common
+ * workflow with the existing tools, so it can be picked from a client's
+ * prompt menu instead of being typed out.
+ */
+
+import { z } from 'zod';
+import type { McpServer, RegisteredPrompt } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { ErrorCode, McpError, type GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { completeAccounts, completeMailboxPaths, completeChoices, completeMessageIds, completeSenders } from '../services/completion.js';
+import { findMailboxes } from '../services/mailboxes.js';
+import { SCOPES, PROMPT_SCOPES, type Scope } from '../services/auth.js';
+import type { MailBackend } from '../types.js';
+
+/**
+ * Tones offered for replies; any other tone can be typed in
+ */
+const TONES = ['friendly', 'formal', 'concise', 'apologetic', 'firm', 'enthusiastic'] as const;
+
+type PromptArgs = Record<string, string | undefined>;
+
+interface PromptConfig {
+  title: string;
+  description: string;
+  argsSchema: z.ZodRawShape;
+}
+
+type CompleteArgument = (value: string, context?: { arguments?: Record<string, string> }) => string[] | Promise<string[]>;
+
+/**
+ * Register the mail workflow prompts with the MCP server
+ *
+ * Prompts that need a scope the caller lacks are disabled, like tools.
+ */
+export function registerPrompts(
+  server: McpServer,
+  backend: MailBackend,
+  scopes: ReadonlySet<Scope> = new Set(SCOPES)
+): void {
+  const account = () => withCompletion(
+    z.string().optional().describe('Account name (default: every account)'),
+    value => completeAccounts(backend, value)
+  );
+  const messageId = (description: string) => withCompletion(
+    z.string().describe(description),
+    (value, context) => completeMessageIds(backend, value, context?.arguments?.account)
+  );
+
+  const prompts = scopedPrompts(server, scopes);
+
+  prompts.registerPrompt(
+    'triage_inbox',
+    {
+      title: 'Triage my inbox',
+      description: 'Sort unread inbox mail into what needs action now, soon or not at all, and suggest what to do with each',
+      argsSchema: {
+        account: account(),
+        since: z.string().optional()
+          .describe("Only mail received since: a date, 'today', 'yesterday' or 'last_N_days' (default: all unread)")
+      }
+    },
+    async ({ account, since }) => userPrompt(`Triage my inbox${inAccount(account)}.
+
+1. Find unread inbox mail with apple_mail_search using ${eachOf((await mailboxArgs(backend, 'INBOX', account)).map(args => toolArgs({ ...args, unread_only: true, date_from: since })))}. Follow next_cursor until every page is fetched.
+2. Where a subject and sender aren't enough to judge an email, read it with apple_mail_get_email.
+3. Sort every email into one of:
+   - Urgent: needs a reply or action today
+   - Reply soon: needs a reply or action this week
+   - FYI: worth knowing, nothing to do
+   - Low priority: newsletters, notifications, receipts and marketing
+4. Present the groups in that order, listing sender, subject and a one-line reason for each email.
+5. Suggest actions, such as flagging urgent mail or archiving low-priority mail, but don't move, flag, mark, delete or send anything until I confirm.`)
+  );
+
+  prompts.registerPrompt(
+    'summarize_thread',
+    {
+      title: 'Summarize a thread',
+      description: 'Summarize the conversation an email belongs to: decisions, open questions and action items',
+      argsSchema: {
+        message_id: messageId('ID of any email in the thread')
+      }
+    },
+    ({ message_id }) => userPrompt(`Summarize the email conversation containing message ${message_id}.
+
+1. Fetch the whole thread with apple_mail_get_thread using ${toolArgs({ message_id })}.
+2. Reply with:
+   - A summary of two or three sentences
+   - Who took part
+   - Decisions made
+   - Open questions
+   - Action items, with who owns them and any deadlines mentioned
+Quote the emails only where the exact wording matters.`)
+  );
+
+  prompts.registerPrompt(
+    'draft_reply',
+    {
+      title: 'Draft a reply',
+      description: 'Draft a reply to an email in a chosen tone, saved to Drafts for review',
+      argsSchema: {
+        message_id: messageId('ID of the email to reply to'),
+        tone: withCompletion(
+          z.string().describe(`Tone of the reply, e.g. ${TONES.join(', ')}`),
+          value => completeChoices(TONES, value)
+        )
+      }
+    },
+    ({ message_id, tone }) => userPrompt(`Draft a reply to message ${message_id} in a ${tone} tone.
+
+1. Read the conversation with apple_mail_get_thread using ${toolArgs({ message_id })}, so the reply fits everything said so far.
+2. Write a reply that answers every question and request addressed to me. Where you'd need facts only I know, leave a clearly marked placeholder like [confirm date] rather than guessing.
+3. Save it with apple_mail_reply using ${toolArgs({ message_id, reply_all: false, send: false })} and the reply as content, so it stays in Drafts. Use reply_all only if others on the thread need the answer too.
+4. Show me the draft. Don't send it.`)
+  );
+
+  prompts.registerPrompt(
+    'unanswered_emails',
+    {
+      title: 'Find unanswered emails',
+      description: 'Find emails from a sender that haven\'t had a reply from me',
+      argsSchema: {
+        sender: withCompletion(
+          z.string().describe('Sender name or email address'),
+          (value, context) => completeSenders(backend, value, context?.arguments?.account)
+        ),
+        account: account(),
+        since: z.string().optional()
+          .describe("Only mail received since: a date, 'today', 'yesterday' or 'last_N_days' (default: last_30_days)")
+      }
+    },
+    ({ sender, account, since }) => userPrompt(`Find emails from ${sender}${inAccount(account)} that I haven't answered.
+
+1. Look up my addresses with apple_mail_list_accounts.
+2. Find their emails with apple_mail_search using ${toolArgs({ sender, account, date_from: since || 'last_30_days' })}. Follow next_cursor until every page is fetched.
+3. For each email, check its thread with apple_mail_get_thread: it is answered if a later message in the thread was sent from one of my addresses.
+4. List the unanswered emails oldest first, with date, subject and what the sender is asking for, and point out any that look overdue.`)
+  );
+
+  prompts.registerPrompt(
+    'weekly_digest',
+    {
+      title: 'Weekly digest',
+      description: 'Digest of the past week\'s mail in a mailbox, grouped by topic, with action items',
+      argsSchema: {
+        mailbox: withCompletion(
+          z.string().describe("Mailbox path, e.g. 'INBOX' or 'Projects/2026'"),
+          (value, context) => completeMailboxPaths(backend, value, context?.arguments?.account)
+        ),
+        account: account()
+      }
+    },
+    async ({ mailbox, account }) => userPrompt(`Write a digest of the past week's mail in ${mailbox}${inAccount(account)}.
+
+1. Fetch the week's mail with apple_mail_search using ${eachOf((await mailboxArgs(backend, mailbox ?? '', account)).map(args => toolArgs({ ...args, date_from: 'last_7_days' })))}. Follow next_cursor until every page is fetched.
+2. Read emails with apple_mail_get_email or apple_mail_get_thread where the subject isn't enough to tell what they're about.
+3. Group the mail by topic or conversation. For each group, say in a few sentences what happened and who was involved.
+4. End with the action items and unanswered questions waiting on me.`)
+  );
+}
+
+// Helper functions
+
+/**
+ * Registers prompts on `server`, disabling those that need any scope not granted
+ */
+function scopedPrompts(server: McpServer, scopes: ReadonlySet<Scope>) {
+  return {
+    registerPrompt(name: string, config: PromptConfig, callback: (args: PromptArgs) => GetPromptResult | Promise<GetPromptResult>): RegisteredPrompt {
+      const prompt = server.registerPrompt(name, config, callback);
+      if (!PROMPT_SCOPES[name].every(scope => scopes.has(scope))) {
+        prompt.disable();
+      }
+      return prompt;
+    }
+  };
+}
+
+/**
+ * Offer completions for a prompt argument
+ */
+function withCompletion<T extends z.ZodTypeAny>(schema: T, complete: CompleteArgument): T {
+  // @ts-expect-error - Complex Zod schema types cause TypeScript to hit type instantiation depth limit
+  return completable(schema, complete);
+}
+
+function userPrompt(text: string): GetPromptResult {
+  return {
+    messages: [{
+      role: 'user' as const,
+      content: { type: 'text' as const, text }
+    }]
+  };
+}
+
+/**
+ * Tool arguments as JSON, leaving out those not given
+ */
+function toolArgs(args: Record<string, unknown>): string {
+  return JSON.stringify(Object.fromEntries(Object.entries(args).filter(([, value]) => value !== undefined && value !== '')));
+}
+
+/**
+ * The mailboxes a prompt's mailbox and account arguments name, as
+ * apple_mail_search arguments
+ *
+ * A name found in several accounts, like INBOX or Archive, gives one entry
+ * per account, so every search the prompt asks for names its account.
+ */
+async function mailboxArgs(backend: MailBackend, mailbox: string, account: string | undefined): Promise<Array<{ mailbox: string; account: string }>> {
+  const matches = findMailboxes(await backend.listMailboxes(), mailbox, account);
+  if (matches.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, account === undefined
+      ? `Mailbox "${mailbox}" not found`
+      : `Mailbox "${mailbox}" not found in account "${account}"`);
+  }
+  return matches.map(box => ({ mailbox: box.path, account: box.account }));
+}
+
+/**
+ * One set of tool arguments, or several to be used in turn
+ */
+function eachOf(args: string[]): string {
+  return args.length === 1 ? args[0] : `each of ${args.join(', ')} in turn`;
+}
+
+function inAccount(account: string | undefined): string {
+  return account ? ` in the "${account}" account` : '';
+}
@@ -0,0 +1,277 @@
+/**
+ * Resource implementations for Apple Mail MCP Server
+ */
+
+import { readFile } from 'fs/promises';
+import { ResourceTemplate, type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  McpError,
+  ErrorCode,
+  type ReadResourceResult
+} from '@modelcontextprotocol/sdk/types.js';
+import { mailboxUri, parseMailboxUri, resolveMailbox } from '../services/mailboxes.js';
+import { attachmentDirectory, attachmentMimeType } from '../services/attachments.js';
+import { completeAccounts, completeMailboxPaths } from '../services/completion.js';
+import type { MailWatcher } from '../services/watcher.js';
+import type { MailBackend, Mailbox, EmailMessage, EmailAttachment } from '../types.js';
+
+/**
+ * Messages included when reading a mailbox, newest first
+ */
+const MAILBOX_MESSAGE_LIMIT = 50;
+
+/**
+ * Inbox messages offered when listing message resources
+ */
+const LISTED_MESSAGE_LIMIT = 25;
+
+/**
+ * Largest attachment returned as a blob; bigger ones need apple_mail_save_attachment
+ */
+const MAX_BLOB_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Register mailboxes, messages, message source and attachments as resources
+ *
+ *   - mail://account/{account}/mailbox/{+path}: the mailbox and its newest messages (JSON)
+ *   - mail://message/{id}: the message's headers and body (text/plain)
+ *   - mail://message/{id}/source: the raw message (message/rfc822)
+ *   - mail://message/{id}/attachment/{name}: an attachment's content (blob)
+ *
+ * Account names and mailbox paths complete from the backend.
+ */
+export function registerResources(server: McpServer, backend: MailBackend): void {
+  server.registerResource(
+    'mailbox',
+    new ResourceTemplate('mail://account/{account}/mailbox/{+path}', {
+      list: async () => ({
+        resources: (await backend.listMailboxes()).map(mailbox => ({
+          uri: mailboxUri(mailbox.account, mailbox.path),
+          name: `${mailbox.account}/${mailbox.path}`,
+          title: `${mailbox.path} (${mailbox.account})`,
+          mimeType: 'application/json',
+          ...(mailbox.totalCount !== undefined
+            ? { description: `${mailbox.unreadCount ?? 0} unread, ${mailbox.totalCount} in total` }
+            : {})
+        }))
+      }),
+      complete: {
+        account: value => completeAccounts(backend, value),
+        path: (value, context) => completeMailboxPaths(backend, value, context?.arguments?.account)
+      }
+    }),
+    {
+      title: 'Mailbox',
+      description: 'A mailbox with its unread and total counts and its newest messages. Subscribe to be notified when mail arrives, changes or is deleted.',
+      mimeType: 'application/json'
+    },
+    async uri => {
+      const mailbox = await resolveMailboxUri(backend, uri.href);
+      const result = await backend.searchEmails({ mailbox: mailbox.path, account: mailbox.account, limit: MAILBOX_MESSAGE_LIMIT });
+
+      const output = {
+        ...mailbox,
+        totalMatched: result.totalMatched,
+        messages: result.emails.map(email => ({
+          uri: messageUri(email.id),
+          id: email.id,
+          subject: email.subject,
+          sender: email.sender,
+          date: email.date,
+          read: email.read,
+          flagged: email.flagged
+        }))
+      };
+      return { contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(output, null, 2) }] };
+    }
+  );
+
+  server.registerResource(
+    'message',
+    new ResourceTemplate('mail://message/{id}', {
+      list: async () => {
+        const { emails } = await backend.searchEmails({ mailbox: 'INBOX', limit: LISTED_MESSAGE_LIMIT });
+        return {
+          resources: emails.map(email => ({
+            uri: messageUri(email.id),
+            name: email.subject || '(no subject)',
+            title: email.subject || '(no subject)',
+            description: `From ${email.sender}, ${email.date}`,
+            mimeType: 'text/plain'
+          }))
+        };
+      }
+    }),
+    {
+      title: 'Email message',
+      description: 'An email\'s headers and plain-text body, with links to its attachments. Listing offers the newest inbox messages.',
+      mimeType: 'text/plain'
+    },
+    async (uri, { id }) => {
+      const email = await requireEmail(backend, decodeURIComponent(String(id)));
+      const attachments = await backend.getAttachments(email.id);
+      return { contents: [{ uri: uri.href, mimeType: 'text/plain', text: formatMessage(email, attachments) }] };
+    }
+  );
+
+  server.registerResource(
+    'message-source',
+    new ResourceTemplate('mail://message/{id}/source', { list: undefined }),
+    {
+      title: 'Email source',
+      description: 'The raw RFC 822 source of an email',
+      mimeType: 'message/rfc822'
+    },
+    async (uri, variables) => {
+      const id = decodeURIComponent(String(variables.id));
+      const source = await backend.getMessageSource(id);
+      if (source === null) {
+        throw new McpError(ErrorCode.InvalidParams, `Email with ID ${id} not found`);
+      }
+      return { contents: [{ uri: uri.href, mimeType: 'message/rfc822', text: source }] };
+    }
+  );
+
+  server.registerResource(
+    'attachment',
+    new ResourceTemplate('mail://message/{id}/attachment/{name}', { list: undefined }),
+    {
+      title: 'Email attachment',
+      description: `An attachment's content, up to ${MAX_BLOB_BYTES / (1024 * 1024)} MB`
+    },
+    async (uri, variables) => readAttachment(
+      backend,
+      uri,
+      decodeURIComponent(String(variables.id)),
+      decodeURIComponent(String(variables.name))
+    )
+  );
+}
+
+/**
+ * Let clients subscribe to mailbox resources
+ *
+ * A subscribed mailbox is watched for as long as the subscription lasts, and
+ * each poll that finds new, changed or deleted messages in it sends a
+ * resource-updated notification for the URI the client subscribed with.
+ */
+export function registerSubscriptions(server: McpServer, backend: MailBackend, watcher: MailWatcher): void {
+  const subscriptions = new Map<string, { account: string; path: string; unwatch: () => void }>();
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+    const { uri } = request.params;
+    if (subscriptions.has(uri)) {
+      return {};
+    }
+
+    const mailbox = await resolveMailboxUri(backend, uri);
+    subscriptions.set(uri, {
+      account: mailbox.account,
+      path: mailbox.path,
+      unwatch: watcher.watch(mailbox.account, mailbox.path)
+    });
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    subscriptions.get(request.params.uri)?.unwatch();
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const stopListening = watcher.onChanges(batch => {
+    for (const [uri, subscription] of subscriptions) {
+      if (subscription.account === batch.account && subscription.path === batch.mailbox) {
+        server.server.sendResourceUpdated({ uri }).catch(error => {
+          console.error(`Sending update for ${uri} failed:`, error);
+        });
+      }
+    }
+  });
+
+  // Subscriptions end with the connection
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    stopListening();
+    for (const subscription of subscriptions.values()) {
+      subscription.unwatch();
+    }
+    subscriptions.clear();
+    onclose?.();
+  };
+}
+
+// Helper functions
+
+/**
+ * Resource URI of a message
+ */
+function messageUri(id: string): string {
+  return `mail://message/${encodeURIComponent(id)}`;
+}
+
+function attachmentUri(id: string, name: string): string {
+  return `${messageUri(id)}/attachment/${encodeURIComponent(name).replace(/,/g, '%2C')}`;
+}
+
+/**
+ * The mailbox a mailbox URI names
+ */
+async function resolveMailboxUri(backend: MailBackend, uri: string): Promise<Mailbox> {
+  try {
+    const { account, path } = parseMailboxUri(uri);
+    return resolveMailbox(await backend.listMailboxes(), path, account);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
+
+async function requireEmail(backend: MailBackend, id: string): Promise<EmailMessage> {
+  const email = await backend.getEmailById(id);
+  if (!email) {
+    throw new McpError(ErrorCode.InvalidParams, `Email with ID ${id} not found`);
+  }
+  return email;
+}
+
+/**
+ * Headers, body and attachment links of a message as plain text
+ */
+function formatMessage(email: EmailMessage, attachments: EmailAttachment[]): string {
+  const lines = [`From: ${email.sender}`];
+  if (email.recipients?.length) {
+    lines.push(`To: ${email.recipients.join(', ')}`);
+  }
+  lines.push(`Subject: ${email.subject}`, `Date: ${email.date}`, '', email.content);
+
+  if (attachments.length > 0) {
+    lines.push('', 'Attachments:');
+    for (const attachment of attachments) {
+      const size = attachment.size !== undefined ? `, ${attachment.size} bytes` : '';
+      lines.push(`- ${attachment.name} (${attachment.mimeType}${size}): ${attachmentUri(email.id, attachment.name)}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Save an attachment and return its content as a base64 blob
+ */
+async function readAttachment(backend: MailBackend, uri: URL, id: string, name: string): Promise<ReadResourceResult> {
+  const directory = attachmentDirectory(id);
+  const attachment = (await backend.getAttachments(id)).find(candidate => candidate.name === name);
+  if (!attachment) {
+    throw new McpError(ErrorCode.InvalidParams, `Attachment "${name}" not found in email ${id}`);
+  }
+  if ((attachment.size ?? 0) > MAX_BLOB_BYTES) {
+    throw new McpError(ErrorCode.InvalidParams, `Attachment "${name}" is ${attachment.size} bytes; use apple_mail_save_attachment for attachments over ${MAX_BLOB_BYTES} bytes`);
+  }
+
+  const [saved] = await backend.saveAttachments(id, directory, [name]);
+  const data = await readFile(saved.path);
+  return { contents: [{ uri: uri.href, mimeType: attachmentMimeType(saved), blob: data.toString('base64') }] };
+}
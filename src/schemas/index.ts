@@ -3,11 +3,23 @@
  */
 
 import { z } from 'zod';
+import { isDateExpression } from '../services/dates.js';
+
+/**
+ * Mail's flag colors
+ */
+export const FlagColorSchema = z.enum(['red', 'orange', 'yellow', 'green', 'blue', 'purple', 'gray']);
 
 /**
  * Schema for searching emails
  */
 export const SearchEmailsSchema = z.object({
+  q: z.string()
+    .min(1, "q must be at least 1 character")
+    .max(1000, "q must not exceed 1000 characters")
+    .optional()
+    .describe("Gmail-style query, e.g. 'from:alice subject:\"Q3 report\" has:attachment is:unread after:2026-01-01 -label:Newsletters (invoice OR receipt)'"),
+  
   query: z.string()
     .min(1, "Query must be at least 1 character")
     .max(500, "Query must not exceed 500 characters")
@@ -22,9 +34,19 @@ export const SearchEmailsSchema = z.object({
     .optional()
     .describe("Filter by subject line (partial match)"),
   
+  date_from: z.string()
+    .refine(isDateExpression, "Invalid date: use YYYY-MM-DD, an ISO date-time, 'today', 'yesterday' or 'last_N_hours|days|weeks'")
+    .optional()
+    .describe("Only emails received on or after this date (e.g., '2026-01-05', 'yesterday', 'last_7_days')"),
+  
+  date_to: z.string()
+    .refine(isDateExpression, "Invalid date: use YYYY-MM-DD, an ISO date-time, 'today', 'yesterday' or 'last_N_hours|days|weeks'")
+    .optional()
+    .describe("Only emails received before the end of this date (e.g., '2026-01-31', 'today')"),
+  
   mailbox: z.string()
     .optional()
-    .describe("Mailbox/folder name to search in (e.g., 'INBOX', 'Sent', 'Archive')"),
+    .describe("Mailbox/folder path to search in (e.g., 'INBOX', 'Archive', 'Projects/2026/Acme')"),
   
   account: z.string()
     .optional()
@@ -34,16 +56,63 @@ export const SearchEmailsSchema = z.object({
     .default(false)
     .describe("Only return unread emails"),
   
+  flagged_only: z.boolean()
+    .default(false)
+    .describe("Only return flagged emails"),
+  
+  flag_color: FlagColorSchema
+    .optional()
+    .describe("Only return emails flagged with this color"),
+  
   limit: z.number()
     .int()
     .min(1)
     .max(100)
     .default(50)
-    .describe("Maximum number of emails to return")
+    .describe("Maximum number of emails to return per page"),
+  
+  cursor: z.string()
+    .optional()
+    .describe("Cursor from a previous search's next_cursor to fetch the following page"),
+  
+  use_index: z.boolean()
+    .default(false)
+    .describe("Search the local index instead of Mail: ranked, with \"phrases\" and prefix* matching, across all accounts")
 }).strict();
 
 export type SearchEmailsInput = z.infer<typeof SearchEmailsSchema>;
 
+/**
+ * Schema for refreshing the local search index
+ */
+export const RefreshIndexSchema = z.object({
+  mailbox: z.string()
+    .optional()
+    .describe("Only refresh this mailbox path (default: every mailbox)"),
+  
+  account: z.string()
+    .optional()
+    .describe("Only refresh mailboxes of this account"),
+  
+  max_age_minutes: z.number()
+    .min(0)
+    .optional()
+    .describe("Skip mailboxes refreshed within this many minutes")
+}).strict();
+
+export type RefreshIndexInput = z.infer<typeof RefreshIndexSchema>;
+
+/**
+ * Schema for reporting the freshness of the local search index
+ */
+export const IndexStatusSchema = z.object({
+  account: z.string()
+    .optional()
+    .describe("Only report mailboxes of this account")
+}).strict();
+
+export type IndexStatusInput = z.infer<typeof IndexStatusSchema>;
+
 /**
  * Schema for getting email by ID
  */
@@ -53,15 +122,73 @@ export const GetEmailSchema = z.object({
   
   mailbox: z.string()
     .optional()
-    .describe("Mailbox name where the message is located"),
+    .describe("Mailbox path where the message is located"),
   
   account: z.string()
     .optional()
-    .describe("Account name where the message is located")
+    .describe("Account name where the message is located"),
+  
+  content_format: z.enum(['plain', 'html', 'markdown'])
+    .default('plain')
+    .describe("Body format: Mail's plain-text rendering, the raw HTML part, or the HTML converted to sanitized markdown")
 }).strict();
 
 export type GetEmailInput = z.infer<typeof GetEmailSchema>;
 
+/**
+ * Schema for getting message headers and source
+ */
+export const GetHeadersSchema = z.object({
+  message_id: z.string()
+    .describe("Message ID from search results"),
+  
+  include_source: z.boolean()
+    .default(false)
+    .describe("Also return the raw RFC 822 source of the message")
+}).strict();
+
+export type GetHeadersInput = z.infer<typeof GetHeadersSchema>;
+
+/**
+ * Schema for getting a conversation thread
+ */
+export const GetThreadSchema = z.object({
+  message_id: z.string()
+    .describe("ID of any message in the conversation"),
+  
+  include_quoted: z.boolean()
+    .default(false)
+    .describe("Keep quoted replies in each message body instead of stripping them")
+}).strict();
+
+export type GetThreadInput = z.infer<typeof GetThreadSchema>;
+
+/**
+ * Schema for a file attached to outgoing mail
+ */
+export const OutgoingAttachmentSchema = z.object({
+  path: z.string()
+    .min(1)
+    .optional()
+    .describe("Path of a local file, absolute or relative to the attachment source directory"),
+  
+  filename: z.string()
+    .min(1)
+    .max(255)
+    .optional()
+    .describe("File name for base64 content"),
+  
+  content_base64: z.string()
+    .optional()
+    .describe("File content encoded as base64 (requires filename)")
+}).strict()
+  .refine(attachment => (attachment.path === undefined) !== (attachment.content_base64 === undefined), {
+    message: "Provide either path or content_base64"
+  })
+  .refine(attachment => attachment.content_base64 === undefined || attachment.filename !== undefined, {
+    message: "filename is required with content_base64"
+  });
+
 /**
  * Schema for creating a draft email
  */
@@ -86,9 +213,18 @@ export const CreateDraftSchema = z.object({
   content: z.string()
     .describe("Email body content"),
   
+  content_format: z.enum(['plain', 'html', 'markdown'])
+    .default('plain')
+    .describe("Format of content: plain text, HTML, or markdown (sent as HTML)"),
+  
   account: z.string()
     .optional()
-    .describe("Account to send from (uses default if not specified)")
+    .describe("Account name or email address (including aliases) to send from (uses default if not specified)"),
+  
+  attachments: z.array(OutgoingAttachmentSchema)
+    .max(20, "Too many attachments")
+    .optional()
+    .describe("Files to attach (optional)")
 }).strict();
 
 export type CreateDraftInput = z.infer<typeof CreateDraftSchema>;
@@ -103,18 +239,123 @@ export const SendEmailSchema = CreateDraftSchema.extend({
 export type SendEmailInput = z.infer<typeof SendEmailSchema>;
 
 /**
- * Schema for moving an email
+ * Schema for replying to an email
  */
-export const MoveEmailSchema = z.object({
+export const ReplyEmailSchema = z.object({
+  message_id: z.string()
+    .describe("Message ID to reply to"),
+  
+  reply_all: z.boolean()
+    .default(false)
+    .describe("Reply to the sender and all other recipients"),
+  
+  content: z.string()
+    .default('')
+    .describe("Reply text, placed above the quoted original"),
+  
+  send: z.boolean()
+    .default(false)
+    .describe("Send immediately instead of leaving a draft open for review")
+}).strict();
+
+export type ReplyEmailInput = z.infer<typeof ReplyEmailSchema>;
+
+/**
+ * Schema for forwarding an email
+ */
+export const ForwardEmailSchema = z.object({
   message_id: z.string()
-    .describe("Message ID to move"),
+    .describe("Message ID to forward"),
+  
+  to: z.array(z.string().email("Invalid email address"))
+    .min(1, "At least one recipient required")
+    .describe("List of recipient email addresses"),
+  
+  cc: z.array(z.string().email("Invalid email address"))
+    .optional()
+    .describe("CC recipients (optional)"),
+  
+  bcc: z.array(z.string().email("Invalid email address"))
+    .optional()
+    .describe("BCC recipients (optional)"),
+  
+  content: z.string()
+    .default('')
+    .describe("Text placed above the forwarded original"),
+  
+  send: z.boolean()
+    .default(false)
+    .describe("Send immediately instead of leaving a draft open for review")
+}).strict();
+
+export type ForwardEmailInput = z.infer<typeof ForwardEmailSchema>;
+
+/**
+ * Search filters selecting the messages a bulk operation applies to
+ */
+export const MessageFilterSchema = SearchEmailsSchema.pick({
+  q: true,
+  query: true,
+  sender: true,
+  subject: true,
+  date_from: true,
+  date_to: true,
+  mailbox: true,
+  account: true,
+  unread_only: true,
+  flagged_only: true,
+  flag_color: true
+});
+
+export type MessageFilterInput = z.infer<typeof MessageFilterSchema>;
+
+/**
+ * Fields shared by tools that act on one or many messages. Exactly one of
+ * message_id, message_ids or filter must be given.
+ */
+const messageSelection = {
+  message_id: z.string()
+    .optional()
+    .describe("Single message ID"),
+  
+  message_ids: z.array(z.string())
+    .min(1)
+    .max(500, "At most 500 messages per call")
+    .optional()
+    .describe("List of message IDs"),
+  
+  filter: MessageFilterSchema
+    .optional()
+    .describe("Search filters selecting the messages (same fields as apple_mail_search)"),
+  
+  limit: z.number()
+    .int()
+    .min(1)
+    .max(500)
+    .default(100)
+    .describe("Maximum number of messages a filter may select"),
+  
+  dry_run: z.boolean()
+    .default(false)
+    .describe("List the messages that would be affected without changing anything")
+};
+
+/**
+ * Schema for moving emails
+ */
+export const MoveEmailSchema = z.object({
+  ...messageSelection,
   
   target_mailbox: z.string()
-    .describe("Destination mailbox name"),
+    .describe("Destination mailbox path (e.g. 'Archive', 'Projects/2026/Acme')"),
   
   target_account: z.string()
     .optional()
-    .describe("Destination account (optional)")
+    .describe("Destination account (optional)"),
+  
+  create_if_missing: z.boolean()
+    .default(false)
+    .describe("Create the target mailbox in target_account if it doesn't exist")
 }).strict();
 
 export type MoveEmailInput = z.infer<typeof MoveEmailSchema>;
@@ -123,8 +364,7 @@ export type MoveEmailInput = z.infer<typeof MoveEmailSchema>;
  * Schema for marking emails as read/unread
  */
 export const SetReadStatusSchema = z.object({
-  message_id: z.string()
-    .describe("Message ID to update"),
+  ...messageSelection,
   
   read: z.boolean()
     .describe("Set to true to mark as read, false for unread")
@@ -132,6 +372,107 @@ export const SetReadStatusSchema = z.object({
 
 export type SetReadStatusInput = z.infer<typeof SetReadStatusSchema>;
 
+/**
+ * Schema for changing flags and junk status
+ */
+export const SetFlagsSchema = z.object({
+  ...messageSelection,
+  
+  flagged: z.boolean()
+    .optional()
+    .describe("Set to true to flag, false to clear the flag"),
+  
+  flag_color: FlagColorSchema
+    .optional()
+    .describe("Flag with this color"),
+  
+  junk: z.boolean()
+    .optional()
+    .describe("Set to true to mark as junk, false to mark as not junk")
+}).strict();
+
+export type SetFlagsInput = z.infer<typeof SetFlagsSchema>;
+
+/**
+ * Schema for deleting emails
+ */
+export const DeleteEmailSchema = z.object({
+  ...messageSelection,
+  
+  permanent: z.boolean()
+    .default(false)
+    .describe("Delete permanently instead of moving to Trash (cannot be undone)"),
+  
+  confirm_permanent: z.boolean()
+    .default(false)
+    .describe("Must be true to confirm a permanent delete")
+}).strict();
+
+export type DeleteEmailInput = z.infer<typeof DeleteEmailSchema>;
+
+/**
+ * Schema for restoring deleted emails
+ */
+export const RestoreEmailSchema = z.object({
+  message_id: z.string()
+    .optional()
+    .describe("ID of a deleted message"),
+  
+  message_ids: z.array(z.string())
+    .min(1)
+    .max(500, "At most 500 messages per call")
+    .optional()
+    .describe("IDs of deleted messages")
+}).strict();
+
+export type RestoreEmailInput = z.infer<typeof RestoreEmailSchema>;
+
+/**
+ * Schema for creating a mailbox
+ */
+export const CreateMailboxSchema = z.object({
+  account: z.string()
+    .describe("Account to create the mailbox in"),
+  
+  name: z.string()
+    .min(1)
+    .describe("Mailbox name, or a path like 'Projects/2024' to nest it (missing parents are created)")
+}).strict();
+
+export type CreateMailboxInput = z.infer<typeof CreateMailboxSchema>;
+
+/**
+ * Schema for renaming a mailbox
+ */
+export const RenameMailboxSchema = z.object({
+  account: z.string()
+    .describe("Account the mailbox belongs to"),
+  
+  mailbox: z.string()
+    .min(1)
+    .describe("Mailbox to rename, as a path for nested mailboxes (e.g. 'Projects/2024')"),
+  
+  new_name: z.string()
+    .min(1)
+    .describe("New name for the mailbox; it stays under the same parent")
+}).strict();
+
+export type RenameMailboxInput = z.infer<typeof RenameMailboxSchema>;
+
+/**
+ * Schema for deleting an empty mailbox
+ */
+export const DeleteMailboxSchema = z.object({
+  account: z.string()
+    .describe("Account the mailbox belongs to"),
+  
+  mailbox: z.string()
+    .min(1)
+    .describe("Mailbox to delete, as a path for nested mailboxes (e.g. 'Projects/2024')")
+}).strict();
+
+export type DeleteMailboxInput = z.infer<typeof DeleteMailboxSchema>;
+
 /**
  * Schema for getting attachments
  */
@@ -141,3 +482,19 @@ export const GetAttachmentsSchema = z.object({
 }).strict();
 
 export type GetAttachmentsInput = z.infer<typeof GetAttachmentsSchema>;
+
+/**
+ * Schema for saving attachments to disk
+ */
+export const SaveAttachmentSchema = z.object({
+  message_id: z.string()
+    .describe("Message ID to save attachments from"),
+  name: z.string()
+    .optional()
+    .describe("Attachment filename to save (omit to save all attachments)"),
+  return_content: z.boolean()
+    .default(false)
+    .describe("Also return the content of each saved file (text, PDF text or image)")
+}).strict();
+
+export type SaveAttachmentInput = z.infer<typeof SaveAttachmentSchema>;
@@ -0,0 +1,62 @@
+/**
+ * Resolution of sender identities for outgoing mail
+ */
+
+import type { EmailAccount } from '../types.js';
+
+export interface SenderIdentity {
+  account: EmailAccount;
+  address: string;   // Address the message is sent from
+}
+
+/**
+ * Resolve an account name or email address to a sender identity
+ *
+ * Account names are matched first, sending from the account's primary
+ * address. Otherwise the value is matched against every address of every
+ * account, so aliases such as shared support addresses can be used directly.
+ * Matching is case-insensitive.
+ */
+export function resolveSenderIdentity(accounts: EmailAccount[], accountOrAddress: string): SenderIdentity {
+  const wanted = accountOrAddress.trim().toLowerCase();
+
+  const byName = accounts.find(account => account.name.toLowerCase() === wanted);
+  if (byName) {
+    const address = accountAddresses(byName)[0];
+    if (!address) {
+      throw new Error(`Account "${byName.name}" has no email address to send from`);
+    }
+    return { account: byName, address };
+  }
+
+  for (const account of accounts) {
+    const address = accountAddresses(account).find(candidate => candidate.toLowerCase() === wanted);
+    if (address) {
+      return { account, address };
+    }
+  }
+
+  const available = accounts
+    .map(account => {
+      const addresses = accountAddresses(account);
+      return addresses.length > 0 ? `${account.name} (${addresses.join(', ')})` : account.name;
+    })
+    .join('; ');
+  throw new Error(`Account "${accountOrAddress}" not found. Available accounts: ${available || 'none'}`);
+}
+
+/**
+ * Format a sender identity as Mail expects it, e.g. `Jane Doe <jane@example.com>`
+ */
+export function formatSender(identity: SenderIdentity): string {
+  const fullName = identity.account.fullName?.replace(/[<>"]/g, '').trim();
+  return fullName ? `${fullName} <${identity.address}>` : identity.address;
+}
+
+/**
+ * All addresses of an account, primary address first
+ */
+function accountAddresses(account: EmailAccount): string[] {
+  const addresses = account.addresses ?? [];
+  return account.email && !addresses.includes(account.email) ? [account.email, ...addresses] : addresses;
+}
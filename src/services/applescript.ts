@@ -44,12 +44,16 @@ export async function executeAppleScriptFile(script: string): Promise<string> {
     let stdout = '';
     let stderr = '';
 
-    osascript.stdout.on('data', (data) => {
-      stdout += data.toString();
+    // Decode as a stream so multi-byte characters split across chunks survive
+    osascript.stdout.setEncoding('utf8');
+    osascript.stderr.setEncoding('utf8');
+
+    osascript.stdout.on('data', (data: string) => {
+      stdout += data;
     });
 
-    osascript.stderr.on('data', (data) => {
-      stderr += data.toString();
+    osascript.stderr.on('data', (data: string) => {
+      stderr += data;
     });
 
     osascript.on('error', (error) => {
@@ -0,0 +1,325 @@
+/**
+ * Sandboxed attachment storage and content extraction
+ *
+ * Attachments are only ever written below a single configured directory
+ * (MAIL_ATTACHMENT_DIR), in a subdirectory per message. File names from the
+ * message are sanitized so they can never escape that directory.
+ *
+ * Files attached to outgoing mail must live below MAIL_ATTACHMENT_SOURCE_DIR
+ * (by default the same directory), so a caller can't mail out arbitrary
+ * files such as SSH keys.
+ */
+
+import { homedir } from 'os';
+import { join, resolve, sep, extname, basename, dirname } from 'path';
+import { mkdir, readFile, writeFile, stat, realpath, readdir, rm } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import { pathToFileURL } from 'url';
+import type { ContentBlock } from '@modelcontextprotocol/sdk/types.js';
+import type { SavedAttachment, OutgoingAttachment } from '../types.js';
+
+/**
+ * A file to attach, as given by the caller: either a local path or
+ * base64-encoded content with a file name
+ */
+export interface AttachmentSource {
+  path?: string;
+  filename?: string;
+  contentBase64?: string;
+}
+
+/**
+ * Largest single file that can be attached to outgoing mail
+ */
+export const MAX_OUTGOING_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Largest combined size of all attachments on one outgoing message
+ */
+export const MAX_OUTGOING_TOTAL_BYTES = 25 * 1024 * 1024;
+
+/**
+ * How long staged copies of base64 attachments are kept for Mail to read
+ */
+const STAGED_MAX_AGE_MS = 60 * 60 * 1000;
+
+/**
+ * Largest file whose content is returned inline
+ */
+const MAX_INLINE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Longest extracted text returned inline (characters)
+ */
+const MAX_INLINE_TEXT = 100_000;
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.md': 'text/markdown',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.ics': 'text/calendar',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp'
+};
+
+/**
+ * Root directory attachments are saved to
+ */
+export function attachmentRoot(): string {
+  return resolve(process.env.MAIL_ATTACHMENT_DIR || join(homedir(), 'Downloads', 'apple-mail-mcp'));
+}
+
+/**
+ * Directory files attached to outgoing mail must come from
+ */
+export function attachmentSourceRoot(): string {
+  return resolve(process.env.MAIL_ATTACHMENT_SOURCE_DIR || attachmentRoot());
+}
+
+/**
+ * Directory one message's attachments are saved to
+ *
+ * The directory is named after the message ID, so an ID that isn't already a
+ * safe file name is rejected rather than mapped onto another message's
+ * directory. Backends create it only once they have something to write.
+ */
+export function attachmentDirectory(messageId: string): string {
+  if (safeFileName(messageId) !== messageId) {
+    throw new Error(`Invalid message ID: ${JSON.stringify(messageId)}`);
+  }
+  return insideRoot(attachmentRoot(), messageId);
+}
+
+/**
+ * Paths the given attachments are saved to within a message's directory
+ *
+ * Attachments that share a name get a numbered suffix, e.g. `scan (2).pdf`.
+ */
+export function attachmentPaths(directory: string, names: string[]): string[] {
+  const used = new Set<string>();
+
+  return names.map(name => {
+    const safe = safeFileName(name);
+    const extension = extname(safe);
+    const stem = safe.substring(0, safe.length - extension.length);
+
+    let candidate = safe;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      candidate = `${stem} (${n})${extension}`;
+    }
+    used.add(candidate.toLowerCase());
+
+    return insideRoot(directory, candidate);
+  });
+}
+
+/**
+ * Reduce an attachment name to a safe single path component
+ */
+export function safeFileName(name: string): string {
+  const cleaned = basename(name.replace(/\\/g, '/'))
+    .replace(/[\u0000-\u001f<>:"|?*]/g, '_')
+    .replace(/^\.+/, '_')
+    .trim();
+  return cleaned || 'attachment';
+}
+
+/**
+ * Best-known MIME type for a saved attachment
+ */
+export function attachmentMimeType(attachment: SavedAttachment): string {
+  if (attachment.mimeType && attachment.mimeType !== 'application/octet-stream') {
+    return attachment.mimeType.toLowerCase();
+  }
+  return MIME_BY_EXTENSION[extname(attachment.name).toLowerCase()] ?? 'application/octet-stream';
+}
+
+/**
+ * Read a saved attachment back as MCP content
+ *
+ * Text is returned as an embedded text resource, PDFs as their extracted
+ * text, and images as image content. Anything else (or anything too large)
+ * is returned as a link to the saved file.
+ */
+export async function readAttachmentContent(attachment: SavedAttachment): Promise<ContentBlock> {
+  const mimeType = attachmentMimeType(attachment);
+  const uri = pathToFileURL(attachment.path).href;
+  const { size } = await stat(attachment.path);
+
+  if (size <= MAX_INLINE_BYTES) {
+    if (isTextType(mimeType)) {
+      const text = await readFile(attachment.path, 'utf8');
+      return { type: 'resource', resource: { uri, mimeType, text: truncate(text) } };
+    }
+
+    if (mimeType === 'application/pdf') {
+      // Damaged or encrypted PDFs fall through to a link
+      const text = await extractPdfText(await readFile(attachment.path)).catch(() => null);
+      if (text !== null) {
+        return { type: 'resource', resource: { uri, mimeType: 'text/plain', text: truncate(text) } };
+      }
+    }
+
+    if (mimeType.startsWith('image/')) {
+      const data = await readFile(attachment.path);
+      return { type: 'image', data: data.toString('base64'), mimeType };
+    }
+  }
+
+  return { type: 'resource_link', uri, name: attachment.name, mimeType, description: `Saved attachment (${size} bytes)` };
+}
+
+/**
+ * Check and prepare files to attach to an outgoing message
+ *
+ * Paths must resolve (after following symlinks) to a file inside the source
+ * directory. Base64 content is written to a staging directory below the
+ * attachment directory, since Mail can only attach files on disk. Mail reads
+ * staged files after the script returns, so they are only deleted once the
+ * message failed (see discardStagedAttachments) or by sweepStagedAttachments
+ * an hour later.
+ */
+export async function resolveOutgoingAttachments(sources: AttachmentSource[]): Promise<OutgoingAttachment[]> {
+  const attachments: OutgoingAttachment[] = [];
+  let total = 0;
+
+  try {
+    for (const source of sources) {
+      const attachment = source.contentBase64 !== undefined
+        ? await stageAttachment(source.filename ?? '', source.contentBase64)
+        : await checkAttachmentPath(source.path ?? '');
+      attachments.push(attachment);
+
+      total += attachment.size;
+      if (total > MAX_OUTGOING_TOTAL_BYTES) {
+        throw new Error(`Attachments exceed the ${formatBytes(MAX_OUTGOING_TOTAL_BYTES)} total size limit`);
+      }
+    }
+  } catch (error) {
+    await discardStagedAttachments(attachments);
+    throw error;
+  }
+
+  return attachments;
+}
+
+/**
+ * Delete the staged copies among a message's attachments, for a draft or
+ * send that failed; files given by path are never touched
+ */
+export async function discardStagedAttachments(attachments: OutgoingAttachment[]): Promise<void> {
+  const staging = stagingRoot();
+  for (const attachment of attachments) {
+    if (attachment.path.startsWith(staging + sep)) {
+      await rm(dirname(attachment.path), { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Delete staged attachments older than an hour, which Mail has long since read
+ *
+ * Runs at startup and whenever another attachment is staged, so staged files
+ * don't pile up in the attachment directory. Files that can't be removed are
+ * left for the next sweep.
+ */
+export async function sweepStagedAttachments(): Promise<void> {
+  const staging = stagingRoot();
+  const entries = await readdir(staging).catch(() => [] as string[]);
+  const cutoff = Date.now() - STAGED_MAX_AGE_MS;
+
+  for (const entry of entries) {
+    const path = join(staging, entry);
+    const info = await stat(path).catch(() => undefined);
+    if (info && info.mtimeMs < cutoff) {
+      await rm(path, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+}
+
+// Helper functions
+
+async function checkAttachmentPath(path: string): Promise<OutgoingAttachment> {
+  const root = await realpath(attachmentSourceRoot()).catch(() => {
+    throw new Error(`Attachment source directory ${attachmentSourceRoot()} does not exist`);
+  });
+  const resolved = await realpath(resolve(root, path)).catch(() => {
+    throw new Error(`Attachment not found: ${path}`);
+  });
+  if (!resolved.startsWith(root + sep)) {
+    throw new Error(`Attachment ${path} is outside the allowed directory ${root}`);
+  }
+
+  const info = await stat(resolved);
+  if (!info.isFile()) {
+    throw new Error(`Attachment ${path} is not a file`);
+  }
+  checkSize(basename(resolved), info.size);
+
+  return { name: basename(resolved), path: resolved, size: info.size };
+}
+
+async function stageAttachment(filename: string, contentBase64: string): Promise<OutgoingAttachment> {
+  const encoded = contentBase64.replace(/\s+/g, '');
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(encoded) || encoded.length % 4 === 1) {
+    throw new Error(`Attachment ${filename} is not valid base64`);
+  }
+
+  const data = Buffer.from(encoded, 'base64');
+  const name = safeFileName(filename);
+  checkSize(name, data.length);
+
+  await sweepStagedAttachments();
+  const directory = insideRoot(stagingRoot(), randomUUID());
+  await mkdir(directory, { recursive: true });
+  const path = insideRoot(directory, name);
+  await writeFile(path, data);
+
+  return { name, path, size: data.length };
+}
+
+function stagingRoot(): string {
+  return insideRoot(attachmentRoot(), '.outgoing');
+}
+
+function checkSize(name: string, size: number): void {
+  if (size > MAX_OUTGOING_ATTACHMENT_BYTES) {
+    throw new Error(`Attachment ${name} is ${formatBytes(size)}, over the ${formatBytes(MAX_OUTGOING_ATTACHMENT_BYTES)} limit`);
+  }
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${bytes} bytes`;
+}
+
+function insideRoot(root: string, name: string): string {
+  const path = resolve(root, name);
+  if (!path.startsWith(root + sep)) {
+    throw new Error(`Refusing to write outside ${root}: ${name}`);
+  }
+  return path;
+}
+
+function isTextType(mimeType: string): boolean {
+  return mimeType.startsWith('text/') || ['application/json', 'application/xml'].includes(mimeType);
+}
+
+async function extractPdfText(data: Buffer): Promise<string> {
+  // Loaded lazily: pdf.js is large and only needed for PDFs
+  const { extractText, getDocumentProxy } = await import('unpdf');
+  const pdf = await getDocumentProxy(new Uint8Array(data));
+  const { text } = await extractText(pdf, { mergePages: true });
+  return text;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_INLINE_TEXT ? text.substring(0, MAX_INLINE_TEXT) + '...' : text;
+}
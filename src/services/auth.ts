@@ -0,0 +1,296 @@
+/**
+ * Access control for the HTTP transport
+ *
+ * Clients authenticate with a bearer token: either a static token configured
+ * on the server, or an OAuth 2.1 access token from an external authorization
+ * server, checked with token introspection (RFC 7662). Every token carries
+ * scopes that decide which tools the client sees and may call.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { readFile } from 'fs/promises';
+import { InvalidTokenError, ServerError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import type { OAuthTokenVerifier } from '@modelcontextprotocol/sdk/server/auth/provider.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { OAuthMetadataSchema, type OAuthMetadata } from '@modelcontextprotocol/sdk/shared/auth.js';
+
+/**
+ * What a client may do:
+ *   - read: search and read mail, mailboxes, accounts and the search index
+ *   - organize: move, flag, mark, delete and restore mail; manage mailboxes
+ *   - compose: create drafts, replies and forwards without sending them
+ *   - send: send mail
+ */
+export type Scope = 'read' | 'organize' | 'compose' | 'send';
+
+export const SCOPES: readonly Scope[] = ['read', 'organize', 'compose', 'send'];
+
+/**
+ * Scope each tool needs; replies and forwards sent right away also need `send`
+ */
+export const TOOL_SCOPES: Record<string, Scope> = {
+  apple_mail_search: 'read',
+  apple_mail_get_email: 'read',
+  apple_mail_get_thread: 'read',
+  apple_mail_get_headers: 'read',
+  apple_mail_list_mailboxes: 'read',
+  apple_mail_get_attachments: 'read',
+  apple_mail_save_attachment: 'read',
+  apple_mail_refresh_index: 'read',
+  apple_mail_index_status: 'read',
+  apple_mail_list_accounts: 'read',
+  apple_mail_move_email: 'organize',
+  apple_mail_mark_read: 'organize',
+  apple_mail_set_flags: 'organize',
+  apple_mail_delete: 'organize',
+  apple_mail_restore: 'organize',
+  apple_mail_create_mailbox: 'organize',
+  apple_mail_rename_mailbox: 'organize',
+  apple_mail_delete_mailbox: 'organize',
+  apple_mail_create_draft: 'compose',
+  apple_mail_reply: 'compose',
+  apple_mail_forward: 'compose',
+  apple_mail_send_email: 'send'
+};
+
+/**
+ * Scopes each prompt needs, matching every tool it asks for
+ */
+export const PROMPT_SCOPES: Record<string, Scope[]> = {
+  triage_inbox: ['read'],
+  summarize_thread: ['read'],
+  draft_reply: ['read', 'compose'],
+  unanswered_emails: ['read'],
+  weekly_digest: ['read']
+};
+
+/**
+ * Lifetime reported for static tokens, which never expire themselves
+ */
+const STATIC_TOKEN_LIFETIME = 60 * 60;
+
+/**
+ * How long an introspection result is reused before asking again
+ */
+const INTROSPECTION_CACHE_SECONDS = 60;
+
+export interface StaticToken {
+  name: string;           // Shown in logs, e.g. "iPad"
+  token: string;
+  scopes: Scope[];
+}
+
+export interface OAuthConfig {
+  issuer: URL;            // Authorization server issuing access tokens
+  clientId?: string;      // Credentials for the introspection endpoint
+  clientSecret?: string;
+  allowMissingAudience?: boolean;   // Accept tokens whose introspection names no audience
+}
+
+export interface AuthConfig {
+  tokens: StaticToken[];
+  oauth?: OAuthConfig;
+}
+
+/**
+ * Read the authentication settings from the environment
+ *
+ *   - MAIL_AUTH_TOKEN: a single token with every scope
+ *   - MAIL_AUTH_TOKENS_FILE: JSON file of `{"tokens": [{"name", "token", "scopes"}]}`
+ *   - MAIL_OAUTH_ISSUER: OAuth authorization server, with MAIL_OAUTH_CLIENT_ID
+ *     and MAIL_OAUTH_CLIENT_SECRET for its introspection endpoint, and
+ *     MAIL_OAUTH_ALLOW_NO_AUD=true for servers that don't report audiences
+ */
+export async function loadAuthConfig(env: NodeJS.ProcessEnv = process.env): Promise<AuthConfig> {
+  const tokens: StaticToken[] = [];
+
+  if (env.MAIL_AUTH_TOKEN) {
+    tokens.push(parseStaticToken({ name: 'MAIL_AUTH_TOKEN', token: env.MAIL_AUTH_TOKEN, scopes: SCOPES }, 'MAIL_AUTH_TOKEN'));
+  }
+
+  if (env.MAIL_AUTH_TOKENS_FILE) {
+    const file = env.MAIL_AUTH_TOKENS_FILE;
+    const data = JSON.parse(await readFile(file, 'utf8')) as { tokens?: unknown };
+    if (!Array.isArray(data.tokens)) {
+      throw new Error(`${file} must contain a "tokens" array`);
+    }
+    for (const [position, entry] of data.tokens.entries()) {
+      tokens.push(parseStaticToken(entry, `${file}: tokens[${position}]`));
+    }
+  }
+
+  const oauth = env.MAIL_OAUTH_ISSUER
+    ? {
+        issuer: new URL(env.MAIL_OAUTH_ISSUER),
+        clientId: env.MAIL_OAUTH_CLIENT_ID,
+        clientSecret: env.MAIL_OAUTH_CLIENT_SECRET,
+        allowMissingAudience: env.MAIL_OAUTH_ALLOW_NO_AUD === 'true'
+      }
+    : undefined;
+
+  return { tokens, oauth };
+}
+
+/**
+ * Whether any form of authentication is configured
+ */
+export function isAuthEnabled(config: AuthConfig): boolean {
+  return config.tokens.length > 0 || config.oauth !== undefined;
+}
+
+/**
+ * Fetch the authorization server's metadata (RFC 8414, falling back to OpenID discovery)
+ */
+export async function discoverOAuthMetadata(issuer: URL): Promise<OAuthMetadata> {
+  const path = issuer.pathname === '/' ? '' : issuer.pathname.replace(/\/$/, '');
+  const candidates = [
+    new URL(`/.well-known/oauth-authorization-server${path}`, issuer),
+    new URL(`${path}/.well-known/openid-configuration`, issuer)
+  ];
+
+  for (const url of candidates) {
+    const response = await fetch(url, { headers: { Accept: 'application/json' } });
+    if (response.ok) {
+      return OAuthMetadataSchema.parse(await response.json());
+    }
+  }
+  throw new Error(`No OAuth metadata found for ${issuer.href}`);
+}
+
+/**
+ * Verify bearer tokens against the static tokens, then the OAuth server
+ *
+ * `resource` is this server's URL, which OAuth tokens must name as their
+ * audience. Introspection results without an expiry are trusted for
+ * INTROSPECTION_CACHE_SECONDS.
+ */
+export function createTokenVerifier(config: AuthConfig, resource: URL, oauthMetadata?: OAuthMetadata): OAuthTokenVerifier {
+  const known = config.tokens.map(entry => ({ ...entry, digest: digest(entry.token) }));
+  const introspected = new Map<string, { info: AuthInfo; until: number }>();
+
+  async function introspect(token: string): Promise<AuthInfo> {
+    const cached = introspected.get(token);
+    if (cached && cached.until > Date.now()) {
+      return cached.info;
+    }
+
+    const endpoint = oauthMetadata?.introspection_endpoint;
+    if (!endpoint) {
+      throw new InvalidTokenError('Invalid token');
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json'
+    };
+    if (config.oauth?.clientId) {
+      const credentials = `${encodeURIComponent(config.oauth.clientId)}:${encodeURIComponent(config.oauth.clientSecret ?? '')}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const response = await fetch(endpoint, { method: 'POST', headers, body: new URLSearchParams({ token }) });
+    if (!response.ok) {
+      throw new ServerError(`Token introspection failed with status ${response.status}`);
+    }
+
+    const result = await response.json() as { active?: boolean; scope?: string; client_id?: string; exp?: number; aud?: string | string[] };
+    if (!result.active) {
+      throw new InvalidTokenError('Token is not active');
+    }
+
+    const audiences = result.aud === undefined ? [] : [result.aud].flat();
+    if (audiences.length === 0 && !config.oauth?.allowMissingAudience) {
+      throw new InvalidTokenError('Token has no audience, so it may not have been issued for this server');
+    }
+    if (audiences.length > 0 && !audiences.some(audience => sameResource(audience, resource))) {
+      throw new InvalidTokenError('Token was not issued for this server');
+    }
+
+    const expiresAt = result.exp ?? Math.floor(Date.now() / 1000) + INTROSPECTION_CACHE_SECONDS;
+    const info: AuthInfo = {
+      token,
+      clientId: result.client_id ?? 'unknown',
+      scopes: (result.scope ?? '').split(' ').filter(scope => SCOPES.includes(scope as Scope)),
+      expiresAt,
+      resource
+    };
+    const until = Math.min(Date.now() + INTROSPECTION_CACHE_SECONDS * 1000, expiresAt * 1000);
+    if (until > Date.now()) {
+      for (const [key, entry] of introspected) {
+        if (entry.until <= Date.now()) introspected.delete(key);
+      }
+      introspected.set(token, { info, until });
+    }
+    return info;
+  }
+
+  return {
+    async verifyAccessToken(token: string): Promise<AuthInfo> {
+      const tokenDigest = digest(token);
+      // Every entry is compared so timing doesn't reveal which one matched
+      const match = known.reduce<typeof known[number] | undefined>(
+        (found, entry) => timingSafeEqual(entry.digest, tokenDigest) ? entry : found,
+        undefined
+      );
+      if (match) {
+        return {
+          token,
+          clientId: match.name,
+          scopes: [...match.scopes],
+          expiresAt: Math.floor(Date.now() / 1000) + STATIC_TOKEN_LIFETIME
+        };
+      }
+
+      if (!config.oauth) {
+        throw new InvalidTokenError('Invalid token');
+      }
+      return introspect(token);
+    }
+  };
+}
+
+/**
+ * Scopes granted by a verified token
+ */
+export function grantedScopes(auth: AuthInfo): Set<Scope> {
+  return new Set(auth.scopes.filter((scope): scope is Scope => SCOPES.includes(scope as Scope)));
+}
+
+/**
+ * Whether a host name or address only accepts connections from this machine
+ */
+export function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || /^127\.\d+\.\d+\.\d+$/.test(host);
+}
+
+// Helper functions
+
+function parseStaticToken(entry: unknown, where: string): StaticToken {
+  const { name, token, scopes } = (entry ?? {}) as { name?: unknown; token?: unknown; scopes?: unknown };
+
+  if (typeof token !== 'string' || token.length < 16) {
+    throw new Error(`${where}: "token" must be a string of at least 16 characters`);
+  }
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    throw new Error(`${where}: "scopes" must list at least one of ${SCOPES.join(', ')}`);
+  }
+  const unknown = scopes.filter(scope => !SCOPES.includes(scope as Scope));
+  if (unknown.length > 0) {
+    throw new Error(`${where}: unknown scope ${unknown.map(scope => `"${scope}"`).join(', ')} (expected ${SCOPES.join(', ')})`);
+  }
+
+  return { name: typeof name === 'string' && name ? name : where, token, scopes: scopes as Scope[] };
+}
+
+function digest(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+function sameResource(audience: string, resource: URL): boolean {
+  try {
+    const url = new URL(audience);
+    return url.origin === resource.origin && url.pathname.replace(/\/$/, '') === resource.pathname.replace(/\/$/, '');
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Conversion between plain text, HTML and markdown message bodies
+ */
+
+import { marked } from 'marked';
+import sanitizeHtml from 'sanitize-html';
+import { NodeHtmlMarkdown } from 'node-html-markdown';
+import type { ContentFormat } from '../types.js';
+
+/**
+ * Body of an outgoing message: always plain text, plus HTML for rich formats
+ */
+export interface OutgoingBody {
+  text: string;
+  html?: string;
+}
+
+/**
+ * Tags kept when converting received HTML to markdown; everything else is
+ * reduced to its text, and scripts, styles and forms are dropped entirely
+ */
+const SAFE_TAGS = [...sanitizeHtml.defaults.allowedTags, 'img'];
+
+const markdown = new NodeHtmlMarkdown({ maxConsecutiveNewlines: 2 });
+
+/**
+ * Render outgoing content in the given format
+ *
+ * Markdown is converted to HTML and kept as the plain-text alternative,
+ * since markdown reads well as-is.
+ */
+export function renderOutgoingBody(content: string, format: ContentFormat = 'plain'): OutgoingBody {
+  switch (format) {
+    case 'markdown':
+      return { text: content, html: marked.parse(content, { async: false, gfm: true }) };
+    case 'html':
+      return { text: htmlToText(content), html: content };
+    default:
+      return { text: content };
+  }
+}
+
+/**
+ * Convert received HTML to markdown, keeping links and tables
+ *
+ * The HTML is sanitized first: only http(s) and mailto links survive, and
+ * 1x1 tracking images are removed.
+ */
+export function htmlToMarkdown(html: string): string {
+  const clean = sanitizeHtml(html, {
+    allowedTags: SAFE_TAGS,
+    allowedAttributes: { a: ['href'], img: ['src', 'alt', 'width', 'height'] },
+    allowedSchemes: ['http', 'https', 'mailto'],
+    exclusiveFilter: frame =>
+      frame.tag === 'img' && (frame.attribs.width === '1' || frame.attribs.height === '1')
+  });
+  return markdown.translate(clean).trim();
+}
+
+/**
+ * Plain-text rendering of HTML, with block elements on their own lines
+ */
+export function htmlToText(html: string): string {
+  const text = sanitizeHtml(
+    html.replace(/<br\s*\/?>/gi, '\n').replace(/<\/(p|div|h[1-6]|li|tr|blockquote)>/gi, '$&\n'),
+    { allowedTags: [], allowedAttributes: {} }
+  );
+  return decodeEntities(text).replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// Helper functions
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
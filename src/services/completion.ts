@@ -0,0 +1,68 @@
+/**
+ * Argument completion for resource templates and prompts
+ *
+ * Candidates start with what has been typed so far, ignoring case.
+ */
+
+import type { MailBackend, EmailMessage } from '../types.js';
+
+/**
+ * How many of the newest inbox messages message ID and sender completions offer
+ */
+const RECENT_MESSAGES = 50;
+
+/**
+ * Account names
+ */
+export async function completeAccounts(backend: MailBackend, value: string): Promise<string[]> {
+  return matching((await backend.listAccounts()).map(account => account.name), value);
+}
+
+/**
+ * Mailbox paths, within `account` if given
+ */
+export async function completeMailboxPaths(backend: MailBackend, value: string, account?: string): Promise<string[]> {
+  const mailboxes = (await backend.listMailboxes()).filter(mailbox => !account || mailbox.account === account);
+  return matching([...new Set(mailboxes.map(mailbox => mailbox.path))], value);
+}
+
+/**
+ * IDs of the newest inbox messages, within `account` if given
+ */
+export async function completeMessageIds(backend: MailBackend, value: string, account?: string): Promise<string[]> {
+  return matching((await recentInboxMessages(backend, account)).map(email => email.id), value);
+}
+
+/**
+ * Addresses of whoever sent the newest inbox messages, within `account` if
+ * given; a typed display name finds the address too
+ */
+export async function completeSenders(backend: MailBackend, value: string, account?: string): Promise<string[]> {
+  const typed = value.toLowerCase();
+  const addresses = new Set<string>();
+
+  for (const email of await recentInboxMessages(backend, account)) {
+    const match = /^\s*"?([^"<]*?)"?\s*<([^>]+)>/.exec(email.sender);
+    const [name, address] = match ? [match[1], match[2]] : ['', email.sender.trim()];
+    if (address.toLowerCase().startsWith(typed) || name.toLowerCase().startsWith(typed)) {
+      addresses.add(address);
+    }
+  }
+  return [...addresses];
+}
+
+/**
+ * Fixed choices
+ */
+export function completeChoices(choices: readonly string[], value: string): string[] {
+  return matching([...choices], value);
+}
+
+async function recentInboxMessages(backend: MailBackend, account?: string): Promise<EmailMessage[]> {
+  return (await backend.searchEmails({ mailbox: 'INBOX', account, limit: RECENT_MESSAGES })).emails;
+}
+
+function matching(candidates: string[], value: string): string[] {
+  const typed = value.toLowerCase();
+  return candidates.filter(candidate => candidate.toLowerCase().startsWith(typed));
+}
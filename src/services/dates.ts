@@ -0,0 +1,81 @@
+/**
+ * Parsing of date expressions used by search filters
+ *
+ * Accepted forms:
+ *   - ISO 8601 dates (`2026-01-05`) and date-times (`2026-01-05T09:00:00Z`)
+ *   - `today`, `yesterday`
+ *   - `last_N_hours`, `last_N_days`, `last_N_weeks` (N units before now)
+ *
+ * Date-only values and `today`/`yesterday` name a whole local day, so they
+ * resolve to the start of that day for a lower bound and to the start of the
+ * following day for an (exclusive) upper bound.
+ */
+
+export type DateBound = 'from' | 'to';
+
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+const RELATIVE = /^last_(\d+)_(hours|days|weeks)$/;
+
+const UNIT_MS: Record<string, number> = {
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  weeks: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Check whether a string is a valid date expression
+ */
+export function isDateExpression(value: string): boolean {
+  try {
+    resolveDateExpression(value, 'from');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve a date expression to a concrete instant
+ */
+export function resolveDateExpression(value: string, bound: DateBound, now: Date = new Date()): Date {
+  const expression = value.trim().toLowerCase();
+
+  if (expression === 'today' || expression === 'yesterday') {
+    const day = startOfDay(now);
+    if (expression === 'yesterday') {
+      day.setDate(day.getDate() - 1);
+    }
+    return bound === 'to' ? addDays(day, 1) : day;
+  }
+
+  const relative = RELATIVE.exec(expression);
+  if (relative) {
+    return new Date(now.getTime() - parseInt(relative[1], 10) * UNIT_MS[relative[2]]);
+  }
+
+  const dateOnly = DATE_ONLY.exec(expression);
+  if (dateOnly) {
+    const [, year, month, day] = dateOnly.map(Number);
+    const date = new Date(year, month - 1, day);
+    if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+      throw new Error(`Invalid date: ${value}`);
+    }
+    return bound === 'to' ? addDays(date, 1) : date;
+  }
+
+  const date = new Date(value);
+  if (!/^\d{4}-\d{2}-\d{2}T/.test(value.trim()) || Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date expression: ${value}`);
+  }
+  return date;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
@@ -0,0 +1,110 @@
+/**
+ * Record of messages moved to Trash, so they can be restored later
+ *
+ * Each entry keeps the mailbox a message was deleted from and its Message-ID
+ * header, which is how the message is found in Trash again. The record lives
+ * in a JSON file so restores keep working after the server restarts; entries
+ * older than Mail is likely to keep a message in Trash are dropped.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+
+/**
+ * How long a deletion is remembered
+ */
+const MAX_AGE_DAYS = 90;
+
+export interface Deletion {
+  mailbox: string;          // Mailbox path the message was deleted from
+  account: string;
+  rfcMessageId: string;     // Message-ID header
+  deletedAt: string;        // ISO 8601
+}
+
+export interface DeletionLog {
+  get(messageId: string): Promise<Deletion | undefined>;
+  update(changes: Record<string, Deletion | null>): Promise<void>;   // null forgets a message
+}
+
+/**
+ * Location of the deletion record: MAIL_DELETIONS_PATH, or ~/.apple-mail-mcp/deletions.json
+ */
+export function defaultDeletionLogPath(): string {
+  return process.env.MAIL_DELETIONS_PATH || join(homedir(), '.apple-mail-mcp', 'deletions.json');
+}
+
+/**
+ * Create a deletion record stored at `path`
+ *
+ * The file is read on first use and rewritten after every change, one write
+ * at a time.
+ */
+export function createDeletionLog(path: string): DeletionLog {
+  let loading: Promise<Map<string, Deletion>> | undefined;
+  let saving: Promise<void> = Promise.resolve();
+
+  function load(): Promise<Map<string, Deletion>> {
+    loading ??= readDeletions(path).catch(error => {
+      loading = undefined;
+      throw error;
+    });
+    return loading;
+  }
+
+  async function save(deletions: Map<string, Deletion>): Promise<void> {
+    const cutoff = Date.now() - MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+    for (const [messageId, deletion] of deletions) {
+      if (!(Date.parse(deletion.deletedAt) >= cutoff)) deletions.delete(messageId);
+    }
+
+    // Write a copy and rename it over the file, so a crash never leaves half a record
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(`${path}.tmp`, JSON.stringify(Object.fromEntries(deletions), null, 2) + '\n', { mode: 0o600 });
+    await rename(`${path}.tmp`, path);
+  }
+
+  return {
+    async get(messageId: string): Promise<Deletion | undefined> {
+      return (await load()).get(messageId);
+    },
+
+    async update(changes: Record<string, Deletion | null>): Promise<void> {
+      if (Object.keys(changes).length === 0) return;
+
+      const deletions = await load();
+      for (const [messageId, deletion] of Object.entries(changes)) {
+        if (deletion) {
+          deletions.set(messageId, deletion);
+        } else {
+          deletions.delete(messageId);
+        }
+      }
+
+      const run = saving.then(() => save(deletions));
+      saving = run.catch(() => undefined);
+      return run;
+    }
+  };
+}
+
+// Helper functions
+
+async function readDeletions(path: string): Promise<Map<string, Deletion>> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return new Map();
+    }
+    throw error;
+  }
+
+  try {
+    return new Map(Object.entries(JSON.parse(text) as Record<string, Deletion>));
+  } catch (error) {
+    throw new Error(`Deletion record ${path} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * In-memory event store for resumable Streamable HTTP streams
+ *
+ * Messages sent on a session's SSE streams are kept so that a client which
+ * reconnects with `Last-Event-ID` receives what it missed. Each session has
+ * its own store, bounded to the most recent events, which goes away with it.
+ */
+
+import type { EventStore, EventId, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Events kept per session by default
+ */
+const DEFAULT_MAX_EVENTS = 1000;
+
+/**
+ * Create an event store keeping the last `maxEvents` events
+ */
+export function createEventStore(maxEvents: number = DEFAULT_MAX_EVENTS): EventStore {
+  // Insertion order is the order events were sent in
+  const events = new Map<EventId, { streamId: StreamId; message: JSONRPCMessage }>();
+  let sequence = 0;
+
+  return {
+    async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+      const eventId = String(++sequence);
+      events.set(eventId, { streamId, message });
+      if (events.size > maxEvents) {
+        events.delete(events.keys().next().value as EventId);
+      }
+      return eventId;
+    },
+
+    async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+      return events.get(eventId)?.streamId;
+    },
+
+    async replayEventsAfter(lastEventId: EventId, { send }): Promise<StreamId> {
+      const last = events.get(lastEventId);
+      if (!last) {
+        throw new Error(`Event ${lastEventId} is no longer available`);
+      }
+
+      let found = false;
+      for (const [eventId, event] of events) {
+        if (found && event.streamId === last.streamId) {
+          await send(eventId, event.message);
+        }
+        found ||= eventId === lastEventId;
+      }
+      return last.streamId;
+    }
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Mail's flag colors
+ *
+ * Mail stores a flag's color as its `flag index`: 0 (red) to 6 (gray), or -1
+ * for an unflagged message.
+ */
+
+import type { FlagColor } from '../types.js';
+
+/**
+ * Flag colors in flag index order
+ */
+export const FLAG_COLORS: readonly FlagColor[] = ['red', 'orange', 'yellow', 'green', 'blue', 'purple', 'gray'];
+
+/**
+ * Mail's flag index for a color
+ */
+export function flagIndex(color: FlagColor): number {
+  return FLAG_COLORS.indexOf(color);
+}
+
+/**
+ * Color for a flag index, or undefined for unflagged/unknown indexes
+ */
+export function flagColorFromIndex(index: number): FlagColor | undefined {
+  return FLAG_COLORS[index];
+}
@@ -0,0 +1,68 @@
+/**
+ * Parsing of RFC 822 message headers
+ */
+
+/**
+ * Parse a raw header block into a map of lower-cased header names to values
+ *
+ * Folded (continuation) lines are unfolded. Headers that occur more than once,
+ * such as `Received`, keep every value in order.
+ */
+export function parseHeaders(raw: string): Map<string, string[]> {
+  const headers = new Map<string, string[]>();
+  let current: { name: string; value: string } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    const values = headers.get(current.name) ?? [];
+    values.push(current.value.trim());
+    headers.set(current.name, values);
+    current = null;
+  };
+
+  for (const line of raw.split(/\r?\n|\r/)) {
+    if (line === '') {
+      // A blank line ends the header block
+      if (current) break;
+      continue;
+    }
+
+    if (/^[ \t]/.test(line)) {
+      if (current) {
+        current.value += ' ' + line.trim();
+      }
+      continue;
+    }
+
+    flush();
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      current = { name: line.substring(0, separator).trim().toLowerCase(), value: line.substring(separator + 1) };
+    }
+  }
+  flush();
+
+  return headers;
+}
+
+/**
+ * First value of a header, if present
+ */
+export function headerValue(headers: Map<string, string[]>, name: string): string | undefined {
+  return headers.get(name.toLowerCase())?.[0];
+}
+
+/**
+ * Extract the message IDs (without angle brackets) from a Message-ID,
+ * In-Reply-To or References header value
+ */
+export function extractMessageIds(value: string | undefined): string[] {
+  if (!value) return [];
+  const bracketed = value.match(/<[^<>\s]+>/g);
+  if (bracketed) {
+    return bracketed.map(id => id.slice(1, -1));
+  }
+  // Some clients omit the brackets around a lone ID
+  const bare = value.trim();
+  return bare && !/\s/.test(bare) ? [bare] : [];
+}
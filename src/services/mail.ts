@@ -2,53 +2,156 @@
  * Service for Apple Mail operations using AppleScript
  */
 
-import { executeAppleScript, executeAppleScriptFile, ensureMailRunning } from './applescript.js';
+import { mkdir } from 'fs/promises';
+import { executeAppleScriptFile, ensureMailRunning } from './applescript.js';
+import {
+  stringLiteral,
+  numberLiteral,
+  booleanLiteral,
+  messageIdLiteral,
+  messageIdListLiteral,
+  dateAssignment,
+  RECORD_HANDLERS,
+  MAILBOX_HANDLERS
+} from './script.js';
+import {
+  decodeMessages,
+  decodeMatches,
+  decodeMessageStates,
+  decodeMailboxes,
+  decodeAccounts,
+  decodeAttachments,
+  decodeComposed,
+  decodeThreadMessages,
+  decodeSource,
+  decodeActionResults,
+  decodeTrashResults
+} from './records.js';
+import { pageAfter } from './pagination.js';
+import { resolveSenderIdentity, formatSender } from './accounts.js';
+import { baseSubject } from './threads.js';
+import { attachmentPaths } from './attachments.js';
+import { renderOutgoingBody } from './body.js';
+import { flagIndex } from './flags.js';
+import { createDeletionLog, defaultDeletionLogPath, type Deletion } from './deletions.js';
+import { normalizeMailboxPath, renamedMailboxPath, isSystemMailbox } from './mailboxes.js';
 import type { 
   EmailMessage, 
   EmailAttachment, 
+  SavedAttachment,
   Mailbox, 
   EmailAccount,
   DraftEmail,
-  SendEmailResult 
+  SendEmailResult,
+  SearchEmailsParams,
+  SearchEmailsResult,
+  SearchPosition,
+  MessageState,
+  ReplyDraft,
+  ForwardDraft,
+  ComposeResult,
+  ThreadCandidates,
+  MessageActionResult,
+  FlagChanges,
+  TrashResult,
+  QueryNode,
+  MailBackend
 } from '../types.js';
 
 /**
  * Search for emails in Apple Mail
+ *
+ * Runs in two passes: the first collects the ID and date received of every
+ * match so results can be ordered and paged consistently, the second fetches
+ * full details for just the requested page.
  */
-export async function searchEmails(params: {
-  query?: string;
-  sender?: string;
-  subject?: string;
-  dateFrom?: string;
-  dateTo?: string;
-  mailbox?: string;
-  account?: string;
-  unreadOnly?: boolean;
-  limit?: number;
-}): Promise<EmailMessage[]> {
+export async function searchEmails(params: SearchEmailsParams): Promise<SearchEmailsResult> {
   await ensureMailRunning();
   
-  const { query, sender, subject, mailbox, account, unreadOnly, limit = 50 } = params;
+  const { mailbox, account, allMailboxes, after, limit = 50 } = params;
+  const scope = allMailboxes && !mailbox ? undefined : searchScope(mailbox, account);
   
-  let script = `
-tell application "Mail"
-  set matchingMessages to {}
-  `;
+  const matches = await findMatchingMessages(scope, params);
+  const { page, next } = pageAfter(matches, after, limit);
+  const emails = page.length > 0 ? await fetchMessages(scope, page.map(match => match.id)) : [];
   
-  // Determine which mailbox to search
+  return {
+    emails,
+    totalMatched: matches.length,
+    next
+  };
+}
+
+/**
+ * AppleScript expression for the container a search runs against
+ */
+function searchScope(mailbox?: string, account?: string): string {
   if (mailbox && account) {
-    script += `set targetMailbox to mailbox "${mailbox}" of account "${account}"\n`;
-    script += `set allMessages to every message of targetMailbox\n`;
+    return `mailbox ${stringLiteral(mailbox)} of account ${stringLiteral(account)}`;
   } else if (mailbox) {
-    script += `set targetMailbox to mailbox "${mailbox}"\n`;
-    script += `set allMessages to every message of targetMailbox\n`;
+    return `mailbox ${stringLiteral(mailbox)}`;
   } else if (account) {
     // Search all messages across all mailboxes in the specified account
-    script += `set allMessages to every message of account "${account}"\n`;
+    return `account ${stringLiteral(account)}`;
+  }
+  // Default to inbox if neither mailbox nor account specified
+  return 'inbox';
+}
+
+/**
+ * Find the ID and date received of every message matching the filters
+ *
+ * Without a scope, every mailbox of the filters' account (or of every
+ * account) is searched.
+ */
+async function findMatchingMessages(scope: string | undefined, params: SearchEmailsParams): Promise<SearchPosition[]> {
+  const { query, sender, subject, dateFrom, dateTo, unreadOnly, flaggedOnly, flagColor, expression, account } = params;
+  
+  let script = `
+tell application "Mail"
+  set output to ""
+  `;
+  
+  // Dates are reported relative to the Unix epoch (local wall clock), which
+  // is all that's needed to order them. AppleScript integers overflow past
+  // 2^29, so whole days and the remaining seconds are sent separately.
+  script += dateAssignment('epochStart', new Date(1970, 0, 1));
+  
+  // Date bounds and flags are applied in Mail's whose clause so that only
+  // matching messages are ever fetched
+  const whoseClauses: string[] = [];
+  if (dateFrom) {
+    script += dateAssignment('dateFrom', dateFrom);
+    whoseClauses.push('date received ≥ dateFrom');
+  }
+  if (dateTo) {
+    script += dateAssignment('dateTo', dateTo);
+    whoseClauses.push('date received < dateTo');
+  }
+  if (flaggedOnly || flagColor) {
+    whoseClauses.push('flagged status is true');
+  }
+  if (flagColor) {
+    whoseClauses.push(`flag index is ${numberLiteral(flagIndex(flagColor))}`);
+  }
+  const whoseClause = whoseClauses.length > 0 ? ` whose ${whoseClauses.join(' and ')}` : '';
+  
+  // Anything else a query expression asks for is checked message by message
+  const queryDates: Date[] = [];
+  const queryCondition = expression ? expressionCondition(expression, queryDates) : undefined;
+  queryDates.forEach((date, i) => {
+    script += dateAssignment(`queryDate${i + 1}`, date);
+  });
+  
+  if (scope) {
+    script += `set allMessages to (every message of ${scope}${whoseClause})\n`;
   } else {
-    // Default to inbox if neither mailbox nor account specified
-    script += `set targetMailbox to inbox\n`;
-    script += `set allMessages to every message of targetMailbox\n`;
+    script += `set allMessages to {}\n`;
+    script += `repeat with anAccount in ${account ? `{account ${stringLiteral(account)}}` : '(every account)'}\n`;
+    script += `  repeat with aBox in my allMailboxes(contents of anAccount)\n`;
+    script += `    set allMessages to allMessages & (every message of (contents of aBox)${whoseClause})\n`;
+    script += `  end repeat\n`;
+    script += `end repeat\n`;
   }
   script += `repeat with aMessage in allMessages\n`;
   
@@ -56,58 +159,155 @@ tell application "Mail"
   const conditions: string[] = [];
   
   if (query) {
-    conditions.push(`((subject of aMessage contains "${query}") or (content of aMessage contains "${query}"))`);
+    conditions.push(`((subject of aMessage contains ${stringLiteral(query)}) or (content of aMessage contains ${stringLiteral(query)}))`);
   }
   if (sender) {
-    conditions.push(`(sender of aMessage contains "${sender}")`);
+    conditions.push(`(sender of aMessage contains ${stringLiteral(sender)})`);
   }
   if (subject) {
-    conditions.push(`(subject of aMessage contains "${subject}")`);
+    conditions.push(`(subject of aMessage contains ${stringLiteral(subject)})`);
   }
   if (unreadOnly) {
     conditions.push(`(read status of aMessage is false)`);
   }
+  if (queryCondition) {
+    conditions.push(queryCondition);
+  }
+  
+  const matchRecord = `
+    set receivedOffset to (date received of aMessage) - epochStart
+    set output to output & "MATCH"
+    set output to output & tab & my encodeField("ID", id of aMessage)
+    set output to output & tab & my encodeField("RECEIVED_DAYS", receivedOffset div days)
+    set output to output & tab & my encodeField("RECEIVED_SECONDS", receivedOffset mod days)
+    set output to output & linefeed
+`;
   
   if (conditions.length > 0) {
     script += `if ${conditions.join(' and ')} then\n`;
-    script += `set end of matchingMessages to aMessage\n`;
+    script += matchRecord;
     script += `end if\n`;
   } else {
-    script += `set end of matchingMessages to aMessage\n`;
+    script += matchRecord;
   }
   
-  script += `if (count of matchingMessages) ≥ ${limit} then exit repeat\n`;
   script += `end repeat\n`;
-  
-  // Format output
   script += `
+  return output
+end tell
+${RECORD_HANDLERS}
+${MAILBOX_HANDLERS}
+  `;
+  
+  const result = await executeAppleScriptFile(script);
+  return decodeMatches(result);
+}
+
+/**
+ * AppleScript condition on `aMessage` for a parsed query expression
+ *
+ * Each date compared against is appended to `dates`; the script must set
+ * `queryDateN` to the Nth of them.
+ */
+function expressionCondition(node: QueryNode, dates: Date[]): string {
+  const date = (value: Date) => `queryDate${dates.push(value)}`;
+  
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return `(${node.children.map(child => expressionCondition(child, dates)).join(` ${node.type} `)})`;
+    case 'not':
+      return `(not ${expressionCondition(node.child, dates)})`;
+    case 'text':
+      return `((subject of aMessage contains ${stringLiteral(node.value)}) or (content of aMessage contains ${stringLiteral(node.value)}))`;
+    case 'from':
+      return `(sender of aMessage contains ${stringLiteral(node.value)})`;
+    case 'to':
+      return `((address of every to recipient of aMessage) as text contains ${stringLiteral(node.value)})`;
+    case 'subject':
+      return `(subject of aMessage contains ${stringLiteral(node.value)})`;
+    case 'mailbox':
+      return node.account === undefined
+        ? `(my mailboxPath(mailbox of aMessage) is ${stringLiteral(node.value)})`
+        : `((my mailboxPath(mailbox of aMessage) is ${stringLiteral(node.value)}) and (name of account of mailbox of aMessage is ${stringLiteral(node.account)}))`;
+    case 'account':
+      return `(name of account of mailbox of aMessage is ${stringLiteral(node.value)})`;
+    case 'after':
+      return `(date received of aMessage ≥ ${date(node.date)})`;
+    case 'before':
+      return `(date received of aMessage < ${date(node.date)})`;
+    case 'attachment':
+      return `((count of mail attachments of aMessage) > 0)`;
+    case 'unread':
+      return `(read status of aMessage is false)`;
+    case 'flagged':
+      return `(flagged status of aMessage is true)`;
+    case 'junk':
+      return `(junk mail status of aMessage is true)`;
+    case 'flag':
+      return `((flagged status of aMessage is true) and (flag index of aMessage is ${numberLiteral(flagIndex(node.color))}))`;
+  }
+}
+
+/**
+ * Fetch search result details for the given message IDs, in that order
+ *
+ * Without a scope, messages are looked up across all mailboxes.
+ */
+async function fetchMessages(scope: string | undefined, messageIds: string[]): Promise<EmailMessage[]> {
+  const messages = scope ? `every message of ${scope}` : 'every message';
+  const script = `
+tell application "Mail"
   set output to ""
-  repeat with aMessage in matchingMessages
-    set msgId to id of aMessage as text
-    set msgSubject to subject of aMessage
-    set msgSender to sender of aMessage
-    set msgDate to date received of aMessage as text
-    set msgRead to read status of aMessage as text
-    set msgFlagged to flagged status of aMessage as text
-    set msgContent to content of aMessage
-    
-    set output to output & "MESSAGE_START\\n"
-    set output to output & "ID:" & msgId & "\\n"
-    set output to output & "SUBJECT:" & msgSubject & "\\n"
-    set output to output & "SENDER:" & msgSender & "\\n"
-    set output to output & "DATE:" & msgDate & "\\n"
-    set output to output & "READ:" & msgRead & "\\n"
-    set output to output & "FLAGGED:" & msgFlagged & "\\n"
-    set output to output & "CONTENT:" & msgContent & "\\n"
-    set output to output & "MESSAGE_END\\n"
+  repeat with msgRef in ${messageIdListLiteral(messageIds)}
+    set msgs to (${messages} whose id is (contents of msgRef))
+    if (count of msgs) > 0 then
+      set aMessage to item 1 of msgs
+      set msgId to id of aMessage as text
+      set msgSubject to subject of aMessage
+      set msgSender to sender of aMessage
+      set msgDate to date received of aMessage as text
+      set msgRead to read status of aMessage as text
+      set msgFlagged to flagged status of aMessage as text
+      set msgFlagIndex to flag index of aMessage
+      set msgJunk to junk mail status of aMessage as text
+      set msgContent to content of aMessage
+      
+      set recipientList to ""
+      repeat with recip in to recipients of aMessage
+        set recipientList to recipientList & address of recip & linefeed
+      end repeat
+      
+      set attachCount to count of mail attachments of aMessage
+      
+      set output to output & "MESSAGE"
+      set output to output & tab & my encodeField("ID", msgId)
+      set output to output & tab & my encodeField("SUBJECT", msgSubject)
+      set output to output & tab & my encodeField("SENDER", msgSender)
+      set output to output & tab & my encodeField("RECIPIENTS", recipientList)
+      set output to output & tab & my encodeField("DATE", msgDate)
+      set output to output & tab & my encodeField("READ", msgRead)
+      set output to output & tab & my encodeField("FLAGGED", msgFlagged)
+      set output to output & tab & my encodeField("FLAG_INDEX", msgFlagIndex)
+      set output to output & tab & my encodeField("JUNK", msgJunk)
+      set output to output & tab & my encodeField("ATTACHMENT_COUNT", attachCount)
+      set output to output & tab & my encodeField("CONTENT", msgContent)
+      set output to output & linefeed
+    end if
   end repeat
   
   return output
 end tell
+${RECORD_HANDLERS}
   `;
   
   const result = await executeAppleScriptFile(script);
-  return parseEmailMessages(result);
+  const byId = new Map(decodeMessages(result).map(email => [email.id, email]));
+  
+  // Messages deleted between the two passes are simply skipped
+  return messageIds
+    .map(id => byId.get(id))
+    .filter((email): email is EmailMessage => email !== undefined);
 }
 
 /**
@@ -116,16 +316,18 @@ end tell
 export async function getEmailById(messageId: string, mailbox?: string, account?: string): Promise<EmailMessage | null> {
   await ensureMailRunning();
   
+  const id = messageIdLiteral(messageId);
+  
   let script = `
 tell application "Mail"
   `;
   
   if (mailbox && account) {
-    script += `set msgs to (every message of mailbox "${mailbox}" of account "${account}" whose id is ${messageId})\n`;
+    script += `set msgs to (every message of mailbox ${stringLiteral(mailbox)} of account ${stringLiteral(account)} whose id is ${id})\n`;
   } else if (mailbox) {
-    script += `set msgs to (every message of mailbox "${mailbox}" whose id is ${messageId})\n`;
+    script += `set msgs to (every message of mailbox ${stringLiteral(mailbox)} whose id is ${id})\n`;
   } else {
-    script += `set msgs to (every message whose id is ${messageId})\n`;
+    script += `set msgs to (every message whose id is ${id})\n`;
   }
   
   script += `
@@ -140,33 +342,39 @@ tell application "Mail"
   set msgDate to date received of aMessage as text
   set msgRead to read status of aMessage as text
   set msgFlagged to flagged status of aMessage as text
+  set msgFlagIndex to flag index of aMessage
+  set msgJunk to junk mail status of aMessage as text
   set msgContent to content of aMessage
-  set msgMailbox to name of mailbox of aMessage
+  set msgMailbox to my mailboxPath(mailbox of aMessage)
   set msgAccount to name of account of mailbox of aMessage
   
   set recipientList to ""
   repeat with recip in to recipients of aMessage
-    set recipientList to recipientList & address of recip & ","
+    set recipientList to recipientList & address of recip & linefeed
   end repeat
   
   set attachCount to count of mail attachments of aMessage
   
-  set output to "MESSAGE_START\\n"
-  set output to output & "ID:" & msgId & "\\n"
-  set output to output & "SUBJECT:" & msgSubject & "\\n"
-  set output to output & "SENDER:" & msgSender & "\\n"
-  set output to output & "RECIPIENTS:" & recipientList & "\\n"
-  set output to output & "DATE:" & msgDate & "\\n"
-  set output to output & "READ:" & msgRead & "\\n"
-  set output to output & "FLAGGED:" & msgFlagged & "\\n"
-  set output to output & "MAILBOX:" & msgMailbox & "\\n"
-  set output to output & "ACCOUNT:" & msgAccount & "\\n"
-  set output to output & "ATTACHMENT_COUNT:" & attachCount & "\\n"
-  set output to output & "CONTENT:" & msgContent & "\\n"
-  set output to output & "MESSAGE_END\\n"
+  set output to "MESSAGE"
+  set output to output & tab & my encodeField("ID", msgId)
+  set output to output & tab & my encodeField("SUBJECT", msgSubject)
+  set output to output & tab & my encodeField("SENDER", msgSender)
+  set output to output & tab & my encodeField("RECIPIENTS", recipientList)
+  set output to output & tab & my encodeField("DATE", msgDate)
+  set output to output & tab & my encodeField("READ", msgRead)
+  set output to output & tab & my encodeField("FLAGGED", msgFlagged)
+  set output to output & tab & my encodeField("FLAG_INDEX", msgFlagIndex)
+  set output to output & tab & my encodeField("JUNK", msgJunk)
+  set output to output & tab & my encodeField("MAILBOX", msgMailbox)
+  set output to output & tab & my encodeField("ACCOUNT", msgAccount)
+  set output to output & tab & my encodeField("ATTACHMENT_COUNT", attachCount)
+  set output to output & tab & my encodeField("CONTENT", msgContent)
+  set output to output & linefeed
   
   return output
 end tell
+${RECORD_HANDLERS}
+${MAILBOX_HANDLERS}
   `;
   
   const result = await executeAppleScriptFile(script);
@@ -175,12 +383,41 @@ end tell
     return null;
   }
   
-  const emails = parseEmailMessages(result);
+  const emails = decodeMessages(result);
   return emails[0] || null;
 }
 
 /**
- * Get list of all mailboxes
+ * Get the raw RFC 822 source of an email
+ */
+export async function getMessageSource(messageId: string): Promise<string | null> {
+  await ensureMailRunning();
+  
+  const script = `
+tell application "Mail"
+  set msgs to (every message whose id is ${messageIdLiteral(messageId)})
+  if (count of msgs) = 0 then
+    return "NOT_FOUND"
+  end if
+  
+  set msgSource to source of item 1 of msgs
+  
+  return "SOURCE" & tab & my encodeField("SOURCE", msgSource) & linefeed
+end tell
+${RECORD_HANDLERS}
+  `;
+  
+  const result = await executeAppleScriptFile(script);
+  
+  if (result === 'NOT_FOUND') {
+    return null;
+  }
+  
+  return decodeSource(result);
+}
+
+/**
+ * Get list of all mailboxes, including nested ones, with their full paths
  */
 export async function listMailboxes(): Promise<Mailbox[]> {
   await ensureMailRunning();
@@ -190,25 +427,98 @@ tell application "Mail"
   set output to ""
   repeat with anAccount in accounts
     set accountName to name of anAccount
-    repeat with aMailbox in mailboxes of anAccount
-      set mailboxName to name of aMailbox
+    repeat with aMailbox in my allMailboxes(anAccount)
+      set mailboxPath to my mailboxPath(aMailbox)
       set unreadCount to unread count of aMailbox
       set totalCount to count of messages of aMailbox
       
-      set output to output & "MAILBOX_START\\n"
-      set output to output & "NAME:" & mailboxName & "\\n"
-      set output to output & "ACCOUNT:" & accountName & "\\n"
-      set output to output & "UNREAD:" & unreadCount & "\\n"
-      set output to output & "TOTAL:" & totalCount & "\\n"
-      set output to output & "MAILBOX_END\\n"
+      set output to output & "MAILBOX"
+      set output to output & tab & my encodeField("PATH", mailboxPath)
+      set output to output & tab & my encodeField("ACCOUNT", accountName)
+      set output to output & tab & my encodeField("UNREAD", unreadCount)
+      set output to output & tab & my encodeField("TOTAL", totalCount)
+      set output to output & linefeed
     end repeat
   end repeat
   return output
 end tell
+${RECORD_HANDLERS}
+${MAILBOX_HANDLERS}
   `;
   
   const result = await executeAppleScriptFile(script);
-  return parseMailboxes(result);
+  return decodeMailboxes(result);
+}
+
+/**
+ * Create a mailbox, including any missing parents of a nested path
+ */
+export async function createMailbox(account: string, path: string): Promise<boolean> {
+  await ensureMailRunning();
+  
+  const mailboxPath = normalizeMailboxPath(path);
+  const script = `
+tell application "Mail"
+  set theAccount to account ${stringLiteral(account)}
+  if exists mailbox ${stringLiteral(mailboxPath)} of theAccount then return "EXISTS"
+  make new mailbox with properties {name:${stringLiteral(mailboxPath)}} at theAccount
+  return "CREATED"
+end tell
+  `;
+  
+  const result = await executeAppleScriptFile(script);
+  return result.trim() === 'CREATED';
+}
+
+/**
+ * Rename a mailbox, keeping it under the same parent
+ */
+export async function renameMailbox(account: string, path: string, newName: string): Promise<string> {
+  const mailboxPath = normalizeMailboxPath(path);
+  if (isSystemMailbox(mailboxPath)) {
+    throw new Error(`Mailbox "${mailboxPath}" is managed by Mail and can't be renamed`);
+  }
+  const newPath = renamedMailboxPath(mailboxPath, newName);
+  
+  await ensureMailRunning();
+  
+  const script = `
+tell application "Mail"
+  set theAccount to account ${stringLiteral(account)}
+  set theBox to mailbox ${stringLiteral(mailboxPath)} of theAccount
+  if exists mailbox ${stringLiteral(newPath)} of theAccount then error "A mailbox named " & ${stringLiteral(newPath)} & " already exists"
+  set name of theBox to ${stringLiteral(newPath.split('/').pop()!)}
+  return "SUCCESS"
+end tell
+  `;
+  
+  await executeAppleScriptFile(script);
+  return newPath;
+}
+
+/**
+ * Delete a mailbox that holds no messages and no other mailboxes
+ */
+export async function deleteMailbox(account: string, path: string): Promise<void> {
+  const mailboxPath = normalizeMailboxPath(path);
+  if (isSystemMailbox(mailboxPath)) {
+    throw new Error(`Mailbox "${mailboxPath}" is managed by Mail and can't be deleted`);
+  }
+  
+  await ensureMailRunning();
+  
+  const script = `
+tell application "Mail"
+  set theBox to mailbox ${stringLiteral(mailboxPath)} of account ${stringLiteral(account)}
+  set messageCount to count of messages of theBox
+  if messageCount > 0 then error "Mailbox is not empty (" & messageCount & " messages)"
+  if (count of mailboxes of theBox) > 0 then error "Mailbox contains other mailboxes"
+  delete theBox
+  return "SUCCESS"
+end tell
+  `;
+  
+  await executeAppleScriptFile(script);
 }
 
 /**
@@ -224,17 +534,38 @@ tell application "Mail"
     set accountName to name of anAccount
     set accountType to account type of anAccount as text
     
-    set output to output & "ACCOUNT_START\\n"
-    set output to output & "NAME:" & accountName & "\\n"
-    set output to output & "TYPE:" & accountType & "\\n"
-    set output to output & "ACCOUNT_END\\n"
+    set accountFullName to full name of anAccount
+    set accountEnabled to enabled of anAccount as text
+    set accountMailboxCount to count of mailboxes of anAccount
+    
+    -- Not every account type has a server (e.g. some iCloud setups)
+    set accountServer to ""
+    try
+      set accountServer to server name of anAccount
+    end try
+    
+    set addressList to ""
+    repeat with anAddress in email addresses of anAccount
+      set addressList to addressList & anAddress & linefeed
+    end repeat
+    
+    set output to output & "ACCOUNT"
+    set output to output & tab & my encodeField("NAME", accountName)
+    set output to output & tab & my encodeField("TYPE", accountType)
+    set output to output & tab & my encodeField("ADDRESSES", addressList)
+    set output to output & tab & my encodeField("FULL_NAME", accountFullName)
+    set output to output & tab & my encodeField("ENABLED", accountEnabled)
+    set output to output & tab & my encodeField("SERVER", accountServer)
+    set output to output & tab & my encodeField("MAILBOX_COUNT", accountMailboxCount)
+    set output to output & linefeed
   end repeat
   return output
 end tell
+${RECORD_HANDLERS}
   `;
   
   const result = await executeAppleScriptFile(script);
-  return parseAccounts(result);
+  return decodeAccounts(result);
 }
 
 /**
@@ -243,34 +574,34 @@ end tell
 export async function createDraft(draft: DraftEmail): Promise<string> {
   await ensureMailRunning();
   
-  const toList = draft.to.map((addr: string) => `"${addr}"`).join(', ');
-  const ccList = draft.cc ? draft.cc.map((addr: string) => `"${addr}"`).join(', ') : '';
-  const bccList = draft.bcc ? draft.bcc.map((addr: string) => `"${addr}"`).join(', ') : '';
+  const sender = await resolveSender(draft);
   
   let script = `
 tell application "Mail"
-  set newMessage to make new outgoing message with properties {subject:"${draft.subject}", content:"${draft.content}", visible:false}
+  set newMessage to make new outgoing message with properties ${outgoingProperties(draft, sender)}
   
   tell newMessage
     `;
   
   // Add recipients
   for (const addr of draft.to) {
-    script += `make new to recipient with properties {address:"${addr}"}\n`;
+    script += `make new to recipient with properties {address:${stringLiteral(addr)}}\n`;
   }
   
   if (draft.cc) {
     for (const addr of draft.cc) {
-      script += `make new cc recipient with properties {address:"${addr}"}\n`;
+      script += `make new cc recipient with properties {address:${stringLiteral(addr)}}\n`;
     }
   }
   
   if (draft.bcc) {
     for (const addr of draft.bcc) {
-      script += `make new bcc recipient with properties {address:"${addr}"}\n`;
+      script += `make new bcc recipient with properties {address:${stringLiteral(addr)}}\n`;
     }
   }
   
+  script += attachmentCommands(draft);
+  
   script += `
   end tell
   
@@ -288,31 +619,39 @@ end tell
 export async function sendEmail(draft: DraftEmail): Promise<SendEmailResult> {
   await ensureMailRunning();
   
+  // An unknown account is a caller error, not a send failure, so let it throw
+  const sender = await resolveSender(draft);
+  
   try {
     let script = `
 tell application "Mail"
-  set newMessage to make new outgoing message with properties {subject:"${draft.subject}", content:"${draft.content}", visible:false}
+  set newMessage to make new outgoing message with properties ${outgoingProperties(draft, sender)}
   
   tell newMessage
     `;
     
     // Add recipients
     for (const addr of draft.to) {
-      script += `make new to recipient with properties {address:"${addr}"}\n`;
+      script += `make new to recipient with properties {address:${stringLiteral(addr)}}\n`;
     }
     
     if (draft.cc) {
       for (const addr of draft.cc) {
-        script += `make new cc recipient with properties {address:"${addr}"}\n`;
+        script += `make new cc recipient with properties {address:${stringLiteral(addr)}}\n`;
       }
     }
     
     if (draft.bcc) {
       for (const addr of draft.bcc) {
-        script += `make new bcc recipient with properties {address:"${addr}"}\n`;
+        script += `make new bcc recipient with properties {address:${stringLiteral(addr)}}\n`;
       }
     }
     
+    if (draft.attachments?.length) {
+      // Mail attaches files asynchronously; sending straight away can drop them
+      script += attachmentCommands(draft) + 'delay 1\n';
+    }
+    
     script += `
     send
   end tell
@@ -336,247 +675,686 @@ end tell
 }
 
 /**
- * Move email to a different mailbox
+ * Resolve the draft's account to the address to send from
+ *
+ * Returns undefined when no account was requested, leaving Mail to pick its
+ * default sender.
+ */
+async function resolveSender(draft: DraftEmail): Promise<string | undefined> {
+  if (!draft.account) {
+    return undefined;
+  }
+  const accounts = await listAccounts();
+  return formatSender(resolveSenderIdentity(accounts, draft.account));
+}
+
+/**
+ * AppleScript properties record for a new outgoing message
  */
-export async function moveEmail(messageId: string, targetMailbox: string, targetAccount?: string): Promise<boolean> {
+function outgoingProperties(draft: DraftEmail, sender?: string): string {
+  const body = renderOutgoingBody(draft.content, draft.contentFormat);
+  
+  // Mail only honours html content when it's set as the message is created
+  const properties = [
+    `subject:${stringLiteral(draft.subject)}`,
+    body.html !== undefined
+      ? `html content:${stringLiteral(body.html)}`
+      : `content:${stringLiteral(body.text)}`,
+    'visible:false'
+  ];
+  if (sender) {
+    properties.push(`sender:${stringLiteral(sender)}`);
+  }
+  return `{${properties.join(', ')}}`;
+}
+
+/**
+ * AppleScript commands (inside `tell newMessage`) attaching the draft's files
+ */
+function attachmentCommands(draft: DraftEmail): string {
+  return (draft.attachments ?? [])
+    .map(attachment => `tell content to make new attachment with properties {file name:(POSIX file ${stringLiteral(attachment.path)}) as alias} at after the last paragraph\n`)
+    .join('');
+}
+
+/**
+ * Reply to an email
+ *
+ * Uses Mail's own reply command so the new message carries the
+ * In-Reply-To/References headers and quoted original, keeping the
+ * conversation threaded for recipients. Drafts open in a window for review.
+ */
+export async function replyToEmail(reply: ReplyDraft): Promise<ComposeResult> {
   await ensureMailRunning();
   
-  let script = `
+  const replyOptions = [
+    reply.send ? 'without opening window' : 'with opening window',
+    ...(reply.replyAll ? ['reply to all'] : [])
+  ].join(' and ');
+  
+  const script = `
 tell application "Mail"
-  set theMessage to first message whose id is ${messageId}
+  set theMessage to first message whose id is ${messageIdLiteral(reply.messageId)}
+  set newMessage to reply theMessage ${replyOptions}
+  ${composeEpilogue(reply.content, reply.send)}
+end tell
+${RECORD_HANDLERS}
   `;
   
-  if (targetAccount) {
-    script += `set targetBox to mailbox "${targetMailbox}" of account "${targetAccount}"\n`;
-  } else {
-    script += `set targetBox to mailbox "${targetMailbox}"\n`;
+  return decodeComposeResult(await executeAppleScriptFile(script), reply.send);
+}
+
+/**
+ * Forward an email
+ *
+ * Uses Mail's forward command so the original is included as Mail would
+ * include it (attachments and all). Drafts open in a window for review.
+ */
+export async function forwardEmail(forward: ForwardDraft): Promise<ComposeResult> {
+  await ensureMailRunning();
+  
+  let script = `
+tell application "Mail"
+  set theMessage to first message whose id is ${messageIdLiteral(forward.messageId)}
+  set newMessage to forward theMessage ${forward.send ? 'without opening window' : 'with opening window'}
+  
+  tell newMessage
+    `;
+  
+  for (const addr of forward.to) {
+    script += `make new to recipient with properties {address:${stringLiteral(addr)}}\n`;
+  }
+  
+  for (const addr of forward.cc || []) {
+    script += `make new cc recipient with properties {address:${stringLiteral(addr)}}\n`;
+  }
+  
+  for (const addr of forward.bcc || []) {
+    script += `make new bcc recipient with properties {address:${stringLiteral(addr)}}\n`;
   }
   
   script += `
-  set mailbox of theMessage to targetBox
-  return "SUCCESS"
+  end tell
+  
+  ${composeEpilogue(forward.content, forward.send)}
 end tell
+${RECORD_HANDLERS}
   `;
   
-  try {
-    await executeAppleScriptFile(script);
-    return true;
-  } catch {
-    return false;
+  return decodeComposeResult(await executeAppleScriptFile(script), forward.send);
+}
+
+/**
+ * Shared tail of the reply/forward scripts: prepend the caller's text,
+ * optionally send, and report the new message
+ */
+function composeEpilogue(content: string, send: boolean): string {
+  let script = '';
+  
+  if (content) {
+    script += `set content of newMessage to ${stringLiteral(content)} & return & return & (content of newMessage)\n`;
+  }
+  
+  script += `
+  set recipientList to ""
+  repeat with recip in to recipients of newMessage
+    set recipientList to recipientList & address of recip & linefeed
+  end repeat
+  repeat with recip in cc recipients of newMessage
+    set recipientList to recipientList & address of recip & linefeed
+  end repeat
+  repeat with recip in bcc recipients of newMessage
+    set recipientList to recipientList & address of recip & linefeed
+  end repeat
+  
+  set output to "COMPOSED"
+  set output to output & tab & my encodeField("ID", id of newMessage)
+  set output to output & tab & my encodeField("SUBJECT", subject of newMessage)
+  set output to output & tab & my encodeField("RECIPIENTS", recipientList)
+  set output to output & linefeed
+  `;
+  
+  if (send) {
+    script += `send newMessage\n`;
   }
+  
+  script += `return output\n`;
+  return script;
+}
+
+function decodeComposeResult(output: string, sent: boolean): ComposeResult {
+  const composed = decodeComposed(output)[0];
+  if (!composed) {
+    throw new Error('Mail did not return the new message');
+  }
+  return { ...composed, sent };
 }
 
 /**
- * Mark email as read or unread
+ * Find the messages that may belong to the same conversation as a message
+ *
+ * Candidates are gathered from every mailbox of every account (including
+ * Sent): messages with the same base subject, plus any message the seed
+ * refers to by Message-ID. Grouping them into a thread is left to the caller.
  */
-export async function setReadStatus(messageId: string, read: boolean): Promise<boolean> {
+export async function findThreadCandidates(messageId: string): Promise<ThreadCandidates | null> {
   await ensureMailRunning();
   
-  const script = `
+  const seedScript = `
 tell application "Mail"
-  set theMessage to first message whose id is ${messageId}
-  set read status of theMessage to ${read}
-  return "SUCCESS"
+  ${dateAssignment('epochStart', new Date(1970, 0, 1))}
+  set msgs to (every message whose id is ${messageIdLiteral(messageId)})
+  if (count of msgs) = 0 then
+    return "NOT_FOUND"
+  end if
+  set aMessage to item 1 of msgs
+  set output to ""
+  ${threadMessageRecord()}
+  return output
 end tell
+${RECORD_HANDLERS}
+${MAILBOX_HANDLERS}
   `;
   
-  try {
-    await executeAppleScriptFile(script);
-    return true;
-  } catch {
-    return false;
+  const seedResult = await executeAppleScriptFile(seedScript);
+  const seed = seedResult === 'NOT_FOUND' ? undefined : decodeThreadMessages(seedResult)[0];
+  if (!seed) {
+    return null;
+  }
+  
+  const clauses: string[] = [];
+  const subject = baseSubject(seed.subject);
+  if (subject) {
+    clauses.push(`(subject contains ${stringLiteral(subject)})`);
   }
+  for (const referenced of [...(seed.inReplyTo ? [seed.inReplyTo] : []), ...(seed.references ?? [])]) {
+    clauses.push(`(message id is ${stringLiteral(referenced)})`);
+  }
+  if (clauses.length === 0) {
+    return { seed, candidates: [] };
+  }
+  
+  const candidateScript = `
+tell application "Mail"
+  ${dateAssignment('epochStart', new Date(1970, 0, 1))}
+  set output to ""
+  repeat with anAccount in accounts
+    repeat with aMailbox in my allMailboxes(anAccount)
+      try
+        set found to (every message of aMailbox whose ${clauses.join(' or ')})
+        repeat with aMessage in found
+          ${threadMessageRecord()}
+        end repeat
+      end try
+    end repeat
+  end repeat
+  return output
+end tell
+${RECORD_HANDLERS}
+${MAILBOX_HANDLERS}
+  `;
+  
+  const candidates = decodeThreadMessages(await executeAppleScriptFile(candidateScript));
+  return { seed, candidates };
 }
 
 /**
- * Get list of attachments for an email
+ * Statements appending a MESSAGE record with headers and received date for
+ * `aMessage` to `output` (expects `epochStart` to be set)
  */
-export async function getAttachments(messageId: string): Promise<EmailAttachment[]> {
+function threadMessageRecord(): string {
+  return `
+    set receivedOffset to (date received of aMessage) - epochStart
+    set recipientList to ""
+    repeat with recip in to recipients of aMessage
+      set recipientList to recipientList & address of recip & linefeed
+    end repeat
+    
+    set output to output & "MESSAGE"
+    set output to output & tab & my encodeField("ID", id of aMessage as text)
+    set output to output & tab & my encodeField("SUBJECT", subject of aMessage)
+    set output to output & tab & my encodeField("SENDER", sender of aMessage)
+    set output to output & tab & my encodeField("RECIPIENTS", recipientList)
+    set output to output & tab & my encodeField("DATE", date received of aMessage as text)
+    set output to output & tab & my encodeField("READ", read status of aMessage as text)
+    set output to output & tab & my encodeField("FLAGGED", flagged status of aMessage as text)
+    set output to output & tab & my encodeField("MAILBOX", my mailboxPath(mailbox of aMessage))
+    set output to output & tab & my encodeField("ACCOUNT", name of account of mailbox of aMessage)
+    set output to output & tab & my encodeField("HEADERS", all headers of aMessage)
+    set output to output & tab & my encodeField("RECEIVED_DAYS", receivedOffset div days)
+    set output to output & tab & my encodeField("RECEIVED_SECONDS", receivedOffset mod days)
+    set output to output & tab & my encodeField("CONTENT", content of aMessage)
+    set output to output & linefeed
+  `;
+}
+
+/**
+ * Get summary details of messages by ID, in the order given
+ *
+ * IDs that no longer exist are skipped.
+ */
+export async function getEmailsByIds(messageIds: string[]): Promise<EmailMessage[]> {
+  await ensureMailRunning();
+  
+  return messageIds.length > 0 ? fetchMessages(undefined, messageIds) : [];
+}
+
+/**
+ * List every message in a mailbox with its date received, for the search index
+ */
+export async function listMailboxMessages(mailbox: string, account: string): Promise<SearchPosition[]> {
+  await ensureMailRunning();
+  
+  const matches = await findMatchingMessages(searchScope(mailbox, account), {});
+  
+  // The script measures from midnight 1970-01-01 local time; shift to UTC
+  return matches.map(match => ({
+    id: match.id,
+    received: match.received + new Date(match.received * 1000).getTimezoneOffset() * 60
+  }));
+}
+
+/**
+ * Get full details of messages in a mailbox by ID, for the search index
+ */
+export async function getMailboxMessages(mailbox: string, account: string, messageIds: string[]): Promise<EmailMessage[]> {
+  if (messageIds.length === 0) {
+    return [];
+  }
+  
+  await ensureMailRunning();
+  
+  const messages = await fetchMessages(searchScope(mailbox, account), messageIds);
+  return messages.map(message => ({ ...message, mailbox, account }));
+}
+
+/**
+ * List the read and flag state of every message in a mailbox, for the watcher
+ */
+export async function listMessageStates(mailbox: string, account: string): Promise<MessageState[]> {
   await ensureMailRunning();
   
+  // Each property is fetched for the whole mailbox at once, which is far
+  // quicker than asking message by message. Mail delivering in between the
+  // fetches would misalign the lists, so their lengths are compared.
   const script = `
 tell application "Mail"
-  set theMessage to first message whose id is ${messageId}
   set output to ""
+  ${dateAssignment('epochStart', new Date(1970, 0, 1))}
+  set theBox to ${searchScope(mailbox, account)}
+  set messageIds to id of every message of theBox
+  set receivedDates to date received of every message of theBox
+  set readStates to read status of every message of theBox
+  set flaggedStates to flagged status of every message of theBox
+  set flagIndexes to flag index of every message of theBox
+  set junkStates to junk mail status of every message of theBox
   
-  repeat with anAttachment in mail attachments of theMessage
-    set attachName to name of anAttachment
-    set output to output & "ATTACHMENT_START\\n"
-    set output to output & "NAME:" & attachName & "\\n"
-    set output to output & "ATTACHMENT_END\\n"
+  set messageCount to count of messageIds
+  repeat with stateList in {receivedDates, readStates, flaggedStates, flagIndexes, junkStates}
+    if (count of stateList) is not messageCount then error "Mailbox changed while it was being read"
+  end repeat
+  
+  repeat with i from 1 to messageCount
+    set receivedOffset to (item i of receivedDates) - epochStart
+    set output to output & "STATE"
+    set output to output & tab & my encodeField("ID", item i of messageIds)
+    set output to output & tab & my encodeField("RECEIVED_DAYS", receivedOffset div days)
+    set output to output & tab & my encodeField("RECEIVED_SECONDS", receivedOffset mod days)
+    set output to output & tab & my encodeField("READ", item i of readStates as text)
+    set output to output & tab & my encodeField("FLAGGED", item i of flaggedStates as text)
+    set output to output & tab & my encodeField("FLAG_INDEX", item i of flagIndexes)
+    set output to output & tab & my encodeField("JUNK", item i of junkStates as text)
+    set output to output & linefeed
   end repeat
   
   return output
 end tell
+${RECORD_HANDLERS}
   `;
   
-  const result = await executeAppleScriptFile(script);
-  return parseAttachments(result);
+  const states = decodeMessageStates(await executeAppleScriptFile(script));
+  
+  // The script measures from midnight 1970-01-01 local time; shift to UTC
+  return states.map(state => ({
+    ...state,
+    received: state.received + new Date(state.received * 1000).getTimezoneOffset() * 60
+  }));
+}
+
+/**
+ * Move emails to a different mailbox
+ */
+export async function moveEmails(messageIds: string[], targetMailbox: string, targetAccount?: string): Promise<MessageActionResult[]> {
+  const setup = targetAccount
+    ? `set targetBox to mailbox ${stringLiteral(targetMailbox)} of account ${stringLiteral(targetAccount)}`
+    : `set targetBox to mailbox ${stringLiteral(targetMailbox)}`;
+  
+  return runBatch(messageIds, setup, 'set mailbox of theMessage to targetBox', decodeActionResults);
 }
 
-// Parser functions
+/**
+ * Mark emails as read or unread
+ */
+export async function setReadStatus(messageIds: string[], read: boolean): Promise<MessageActionResult[]> {
+  return runBatch(messageIds, '', `set read status of theMessage to ${booleanLiteral(read)}`, decodeActionResults);
+}
 
-function parseEmailMessages(output: string): EmailMessage[] {
-  const messages: EmailMessage[] = [];
-  const messageBlocks = output.split('MESSAGE_START\n').filter(Boolean);
+/**
+ * Change the flag, flag color and junk status of emails
+ */
+export async function setFlags(messageIds: string[], changes: FlagChanges): Promise<MessageActionResult[]> {
+  const actions: string[] = [];
   
-  for (const block of messageBlocks) {
-    if (!block.includes('MESSAGE_END')) continue;
-    
-    const content = block.substring(0, block.indexOf('MESSAGE_END'));
-    const lines = content.split('\n').filter(Boolean);
-    
-    const message: Partial<EmailMessage> = {};
-    
-    for (const line of lines) {
-      const [key, ...valueParts] = line.split(':');
-      const value = valueParts.join(':').trim();
-      
-      switch (key) {
-        case 'ID':
-          message.id = value;
-          break;
-        case 'SUBJECT':
-          message.subject = value;
-          break;
-        case 'SENDER':
-          message.sender = value;
-          break;
-        case 'RECIPIENTS':
-          message.recipients = value.split(',').filter(Boolean);
-          break;
-        case 'DATE':
-          message.date = value;
-          break;
-        case 'READ':
-          message.read = value === 'true';
-          break;
-        case 'FLAGGED':
-          message.flagged = value === 'true';
-          break;
-        case 'MAILBOX':
-          message.mailbox = value;
-          break;
-        case 'ACCOUNT':
-          message.account = value;
-          break;
-        case 'ATTACHMENT_COUNT':
-          message.attachmentCount = parseInt(value);
-          message.hasAttachments = parseInt(value) > 0;
-          break;
-        case 'CONTENT':
-          message.content = value;
-          break;
-      }
-    }
-    
-    if (message.id && message.subject) {
-      messages.push(message as EmailMessage);
-    }
+  if (changes.flagColor) {
+    // Setting a color flags the message
+    actions.push(`set flag index of theMessage to ${numberLiteral(flagIndex(changes.flagColor))}`);
+    actions.push('set flagged status of theMessage to true');
+  } else if (changes.flagged !== undefined) {
+    actions.push(`set flagged status of theMessage to ${booleanLiteral(changes.flagged)}`);
+  }
+  if (changes.junk !== undefined) {
+    actions.push(`set junk mail status of theMessage to ${booleanLiteral(changes.junk)}`);
   }
   
-  return messages;
+  return runBatch(messageIds, '', actions.join('\n      '), decodeActionResults);
 }
 
-function parseMailboxes(output: string): Mailbox[] {
-  const mailboxes: Mailbox[] = [];
-  const mailboxBlocks = output.split('MAILBOX_START\n').filter(Boolean);
+/**
+ * Where deleted messages came from, by message ID, so they can be restored
+ */
+const deletions = createDeletionLog(defaultDeletionLogPath());
+
+/**
+ * Delete emails
+ *
+ * Mail's own delete command moves each message to its account's Trash. With
+ * `permanent`, the copy in Trash is then deleted too, which can't be undone.
+ * A message without a Message-ID header can't be found in Trash again, so it
+ * is reported as not restorable.
+ */
+export async function deleteEmails(messageIds: string[], permanent: boolean): Promise<TrashResult[]> {
+  let action = `
+      set msgBox to mailbox of theMessage
+      set rfcId to message id of theMessage
+      set extraFields to tab & my encodeField("MAILBOX", my mailboxPath(msgBox)) & tab & my encodeField("ACCOUNT", name of account of msgBox)
+      set extraFields to extraFields & tab & my encodeField("RFC_ID", rfcId)
+      delete theMessage`;
   
-  for (const block of mailboxBlocks) {
-    if (!block.includes('MAILBOX_END')) continue;
-    
-    const content = block.substring(0, block.indexOf('MAILBOX_END'));
-    const lines = content.split('\n').filter(Boolean);
-    
-    const mailbox: Partial<Mailbox> = {};
-    
-    for (const line of lines) {
-      const [key, ...valueParts] = line.split(':');
-      const value = valueParts.join(':').trim();
-      
-      switch (key) {
-        case 'NAME':
-          mailbox.name = value;
-          break;
-        case 'ACCOUNT':
-          mailbox.account = value;
-          break;
-        case 'UNREAD':
-          mailbox.unreadCount = parseInt(value);
-          break;
-        case 'TOTAL':
-          mailbox.totalCount = parseInt(value);
-          break;
-      }
-    }
-    
-    if (mailbox.name && mailbox.account !== undefined) {
-      mailboxes.push(mailbox as Mailbox);
+  if (permanent) {
+    action += `
+      repeat with trashedMessage in (every message of trash mailbox whose message id is rfcId)
+        delete trashedMessage
+      end repeat`;
+  }
+  
+  const results = await runBatch(messageIds, '', action, decodeTrashResults);
+  
+  const changes: Record<string, Deletion | null> = {};
+  const deletedAt = new Date().toISOString();
+  for (const result of results) {
+    if (!result.success || !result.mailbox || !result.account) continue;
+    if (permanent || !result.rfcMessageId) {
+      changes[result.messageId] = null;
+    } else {
+      changes[result.messageId] = { mailbox: result.mailbox, account: result.account, rfcMessageId: result.rfcMessageId, deletedAt };
     }
   }
   
-  return mailboxes;
+  // The messages are in Trash either way; only restoring them depends on the record
+  let recorded = true;
+  try {
+    await deletions.update(changes);
+  } catch (error) {
+    console.error('Recording deleted messages failed:', error);
+    recorded = false;
+  }
+  
+  return results.map(({ rfcMessageId, ...result }): TrashResult => {
+    if (permanent || !result.success) {
+      return result;
+    }
+    if (!rfcMessageId) {
+      return { ...result, restorable: false, warning: 'Message has no Message-ID header, so apple_mail_restore can\'t find it in Trash; restore it in Mail instead' };
+    }
+    if (!recorded) {
+      return { ...result, restorable: false, warning: 'The deletion couldn\'t be recorded, so apple_mail_restore can\'t put it back; restore it in Mail instead' };
+    }
+    return { ...result, restorable: true };
+  });
 }
 
-function parseAccounts(output: string): EmailAccount[] {
-  const accounts: EmailAccount[] = [];
-  const accountBlocks = output.split('ACCOUNT_START\n').filter(Boolean);
+/**
+ * Move emails deleted by this server back from Trash to their original mailboxes
+ *
+ * Messages are found in Trash by their Message-ID header, since Mail may
+ * assign a new ID when a message moves between mailboxes.
+ */
+export async function restoreEmails(messageIds: string[]): Promise<TrashResult[]> {
+  const records = new Map<string, Deletion>();
+  for (const id of messageIds) {
+    const deletion = await deletions.get(id);
+    if (deletion) records.set(id, deletion);
+  }
+  const known = [...records.keys()];
   
-  for (const block of accountBlocks) {
-    if (!block.includes('ACCOUNT_END')) continue;
-    
-    const content = block.substring(0, block.indexOf('ACCOUNT_END'));
-    const lines = content.split('\n').filter(Boolean);
-    
-    const account: Partial<EmailAccount> = { email: '' };
-    
-    for (const line of lines) {
-      const [key, ...valueParts] = line.split(':');
-      const value = valueParts.join(':').trim();
-      
-      switch (key) {
-        case 'NAME':
-          account.name = value;
-          break;
-        case 'TYPE':
-          account.type = value;
-          break;
-      }
+  let script = `
+tell application "Mail"
+  set output to ""
+  `;
+  
+  for (const id of known) {
+    const deletion = records.get(id)!;
+    script += `
+  try
+    set found to (every message of trash mailbox whose message id is ${stringLiteral(deletion.rfcMessageId)})
+    if (count of found) = 0 then error "Message is no longer in Trash"
+    set mailbox of (item 1 of found) to mailbox ${stringLiteral(deletion.mailbox)} of account ${stringLiteral(deletion.account)}
+    set output to output & "RESULT" & tab & my encodeField("ID", ${stringLiteral(id)}) & tab & my encodeField("SUCCESS", "true") & linefeed
+  on error errMsg
+    set output to output & "RESULT" & tab & my encodeField("ID", ${stringLiteral(id)}) & tab & my encodeField("SUCCESS", "false")
+    set output to output & tab & my encodeField("ERROR", errMsg) & linefeed
+  end try
+    `;
+  }
+  
+  script += `
+  return output
+end tell
+${RECORD_HANDLERS}
+  `;
+  
+  if (known.length > 0) {
+    await ensureMailRunning();
+  }
+  const byId = new Map(
+    (known.length > 0 ? decodeActionResults(await executeAppleScriptFile(script)) : [])
+      .map(outcome => [outcome.messageId, outcome])
+  );
+  
+  const restored = Object.fromEntries(
+    [...byId.values()].filter(outcome => outcome.success).map(outcome => [outcome.messageId, null])
+  );
+  try {
+    await deletions.update(restored);
+  } catch (error) {
+    console.error('Updating the deletion record failed:', error);
+  }
+  
+  return messageIds.map(id => {
+    const deletion = records.get(id);
+    if (!deletion) {
+      return { messageId: id, success: false, error: 'No deletion record for this message' };
     }
     
-    if (account.name && account.type) {
-      accounts.push(account as EmailAccount);
-    }
+    const outcome = byId.get(id) ?? { messageId: id, success: false, error: 'No result reported' };
+    return { ...outcome, mailbox: deletion.mailbox, account: deletion.account };
+  });
+}
+
+/**
+ * Run an action against every message in a single script
+ *
+ * `setup` runs once before the loop (e.g. to look up a target mailbox); if it
+ * fails, the whole batch fails. `action` refers to the current message as
+ * `theMessage`, and may set `extraFields` to add fields to its RESULT record;
+ * the record and mailbox handlers are available to both. A message that
+ * can't be found or updated is reported as a failed RESULT without stopping
+ * the rest of the batch.
+ */
+async function runBatch<T extends MessageActionResult>(
+  messageIds: string[],
+  setup: string,
+  action: string,
+  decode: (output: string) => T[]
+): Promise<T[]> {
+  if (messageIds.length === 0) {
+    return [];
   }
   
-  return accounts;
+  await ensureMailRunning();
+  
+  const script = `
+tell application "Mail"
+  ${setup}
+  set output to ""
+  repeat with msgRef in ${messageIdListLiteral(messageIds)}
+    set msgId to contents of msgRef
+    set extraFields to ""
+    try
+      set theMessage to first message whose id is msgId
+      ${action}
+      set output to output & "RESULT" & tab & my encodeField("ID", msgId) & tab & my encodeField("SUCCESS", "true") & extraFields & linefeed
+    on error errMsg
+      set output to output & "RESULT" & tab & my encodeField("ID", msgId) & tab & my encodeField("SUCCESS", "false")
+      set output to output & tab & my encodeField("ERROR", errMsg) & linefeed
+    end try
+  end repeat
+  
+  return output
+end tell
+${RECORD_HANDLERS}
+${MAILBOX_HANDLERS}
+  `;
+  
+  const result = await executeAppleScriptFile(script);
+  const byId = new Map(decode(result).map(outcome => [outcome.messageId, outcome]));
+  
+  // Report against the caller's IDs (the script sees them as normalized integers)
+  return messageIds.map(id => {
+    const outcome = byId.get(messageIdLiteral(id));
+    return outcome ? { ...outcome, messageId: id } : { messageId: id, success: false, error: 'No result reported' } as T;
+  });
 }
 
-function parseAttachments(output: string): EmailAttachment[] {
-  const attachments: EmailAttachment[] = [];
-  const attachmentBlocks = output.split('ATTACHMENT_START\n').filter(Boolean);
+/**
+ * Get list of attachments for an email
+ */
+export async function getAttachments(messageId: string): Promise<EmailAttachment[]> {
+  await ensureMailRunning();
   
-  for (const block of attachmentBlocks) {
-    if (!block.includes('ATTACHMENT_END')) continue;
-    
-    const content = block.substring(0, block.indexOf('ATTACHMENT_END'));
-    const lines = content.split('\n').filter(Boolean);
-    
-    const attachment: Partial<EmailAttachment> = {};
+  const script = `
+tell application "Mail"
+  set theMessage to first message whose id is ${messageIdLiteral(messageId)}
+  set output to ""
+  
+  repeat with anAttachment in mail attachments of theMessage
+    set attachName to name of anAttachment
+    set attachType to MIME type of anAttachment
+    set attachDownloaded to downloaded of anAttachment as text
     
-    for (const line of lines) {
-      const [key, ...valueParts] = line.split(':');
-      const value = valueParts.join(':').trim();
-      
-      if (key === 'NAME') {
-        attachment.name = value;
-      }
-    }
+    -- Size isn't known for attachments that haven't been downloaded
+    set attachSize to ""
+    try
+      set attachSize to file size of anAttachment
+    end try
     
-    if (attachment.name) {
-      attachments.push(attachment as EmailAttachment);
-    }
+    set output to output & "ATTACHMENT"
+    set output to output & tab & my encodeField("NAME", attachName)
+    set output to output & tab & my encodeField("MIME_TYPE", attachType)
+    set output to output & tab & my encodeField("SIZE", attachSize)
+    set output to output & tab & my encodeField("DOWNLOADED", attachDownloaded)
+    set output to output & linefeed
+  end repeat
+  
+  return output
+end tell
+${RECORD_HANDLERS}
+  `;
+  
+  const result = await executeAppleScriptFile(script);
+  return decodeAttachments(result);
+}
+
+/**
+ * Save attachments of an email into a directory
+ *
+ * Saves every attachment, or only those whose names are given. Attachments
+ * are addressed by position so that file names chosen here (sanitized and
+ * de-duplicated) are used regardless of what the message calls them.
+ */
+export async function saveAttachments(messageId: string, directory: string, names?: string[]): Promise<SavedAttachment[]> {
+  const attachments = await getAttachments(messageId);
+  const paths = attachmentPaths(directory, attachments.map(attachment => attachment.name));
+  
+  const selected = attachments
+    .map((attachment, index) => ({ ...attachment, path: paths[index], index }))
+    .filter(attachment => !names || names.includes(attachment.name));
+  
+  const missing = (names ?? []).filter(name => !attachments.some(attachment => attachment.name === name));
+  if (missing.length > 0) {
+    throw new Error(`Attachment not found: ${missing.join(', ')}`);
+  }
+  if (selected.length === 0) {
+    return [];
   }
+  await mkdir(directory, { recursive: true });
+  
+  let script = `
+tell application "Mail"
+  set theMessage to first message whose id is ${messageIdLiteral(messageId)}
+  set theAttachments to mail attachments of theMessage
+  `;
   
-  return attachments;
+  for (const attachment of selected) {
+    script += `save (item ${numberLiteral(attachment.index + 1)} of theAttachments) in (POSIX file ${stringLiteral(attachment.path)})\n`;
+  }
+  
+  script += `
+  return "SUCCESS"
+end tell
+  `;
+  
+  await executeAppleScriptFile(script);
+  
+  return selected.map(({ index: _index, ...saved }) => saved);
 }
+
+/**
+ * Mail backend that drives Apple Mail through AppleScript
+ */
+export const appleScriptBackend: MailBackend = {
+  searchEmails,
+  getEmailById,
+  getMessageSource,
+  listMailboxes,
+  createMailbox,
+  renameMailbox,
+  deleteMailbox,
+  listAccounts,
+  getAttachments,
+  saveAttachments,
+  createDraft,
+  sendEmail,
+  getEmailsByIds,
+  listMailboxMessages,
+  getMailboxMessages,
+  listMessageStates,
+  moveEmails,
+  setReadStatus,
+  setFlags,
+  deleteEmails,
+  restoreEmails,
+  replyToEmail,
+  forwardEmail,
+  findThreadCandidates
+};
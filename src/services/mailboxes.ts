@@ -0,0 +1,166 @@
+/**
+ * Mailbox path helpers
+ *
+ * Nested mailboxes are addressed by their path within an account, with "/"
+ * between levels (e.g. "Projects/2024"), which is how Mail itself names them.
+ */
+
+import type { Mailbox, MailboxNode, MailBackend } from '../types.js';
+
+/**
+ * Mailboxes every account has, which can't be renamed or deleted
+ */
+const SYSTEM_MAILBOXES = ['INBOX', 'Drafts', 'Sent', 'Sent Messages', 'Trash', 'Deleted Messages', 'Junk', 'Outbox'];
+
+/**
+ * Split a mailbox path into its names, trimming whitespace around each level
+ */
+export function splitMailboxPath(path: string): string[] {
+  const names = path.split('/').map(name => name.trim());
+  if (names.some(name => !name)) {
+    throw new Error(`Invalid mailbox path: "${path}"`);
+  }
+  return names;
+}
+
+/**
+ * Normalize a mailbox path (trimmed names, single separators)
+ */
+export function normalizeMailboxPath(path: string): string {
+  return splitMailboxPath(path).join('/');
+}
+
+/**
+ * Path of the mailbox after renaming the last level of `path` to `newName`
+ */
+export function renamedMailboxPath(path: string, newName: string): string {
+  const name = newName.trim();
+  if (!name || name.includes('/')) {
+    throw new Error(`Invalid mailbox name: "${newName}" (use a single name without "/")`);
+  }
+  return [...splitMailboxPath(path).slice(0, -1), name].join('/');
+}
+
+/**
+ * Whether `path` is one of the standard mailboxes Mail manages itself
+ */
+export function isSystemMailbox(path: string): boolean {
+  return SYSTEM_MAILBOXES.some(name => name.toLowerCase() === path.toLowerCase());
+}
+
+/**
+ * Build a mailbox from its path, filling in its own name and parent
+ */
+export function mailboxAt(path: string, account: string, counts: Pick<Mailbox, 'unreadCount' | 'totalCount'> = {}): Mailbox {
+  const names = splitMailboxPath(path);
+  return {
+    name: names[names.length - 1],
+    path: names.join('/'),
+    ...(names.length > 1 ? { parent: names.slice(0, -1).join('/') } : {}),
+    account,
+    ...counts
+  };
+}
+
+/**
+ * Arrange mailboxes into a tree per account, keeping their order
+ *
+ * A mailbox whose parent isn't listed is placed at the top level.
+ */
+export function buildMailboxTree(mailboxes: Mailbox[]): MailboxNode[] {
+  const nodes = mailboxes.map(mailbox => ({ ...mailbox, children: [] as MailboxNode[] }));
+  const byPath = new Map(nodes.map(node => [mailboxKey(node.account, node.path), node]));
+  const roots: MailboxNode[] = [];
+
+  for (const node of nodes) {
+    const parent = node.parent !== undefined ? byPath.get(mailboxKey(node.account, node.parent)) : undefined;
+    (parent ? parent.children : roots).push(node);
+  }
+
+  return roots;
+}
+
+/**
+ * Find the one mailbox a user-supplied path (or bare name) refers to
+ *
+ * A full path is preferred; failing that, a mailbox's own name is accepted.
+ * Without an account, a mailbox that exists in several accounts is ambiguous
+ * and reported with the candidates so the caller can pick one.
+ */
+export function resolveMailbox(mailboxes: Mailbox[], mailbox: string, account?: string): Mailbox {
+  const matches = findMailboxes(mailboxes, mailbox, account);
+
+  if (matches.length === 0) {
+    throw new Error(account === undefined
+      ? `Mailbox "${mailbox}" not found`
+      : `Mailbox "${mailbox}" not found in account "${account}"`);
+  }
+  if (matches.length > 1) {
+    const choices = matches.map(box => `"${box.path}" in account "${box.account}"`).join(', ');
+    throw new Error(`Mailbox "${mailbox}" is ambiguous: ${choices}. Specify the account and full path`);
+  }
+  return matches[0];
+}
+
+/**
+ * Every mailbox a user-supplied path (or bare name) could refer to
+ *
+ * Mailboxes with that full path win over mailboxes merely named that way.
+ */
+export function findMailboxes(mailboxes: Mailbox[], mailbox: string, account?: string): Mailbox[] {
+  const wanted = normalizeMailboxPath(mailbox).toLowerCase();
+  const candidates = mailboxes.filter(box => account === undefined || box.account === account);
+
+  const matches = candidates.filter(box => box.path.toLowerCase() === wanted);
+  return matches.length > 0 ? matches : candidates.filter(box => box.name.toLowerCase() === wanted);
+}
+
+/**
+ * Resolve optional mailbox/account tool parameters to a mailbox path and account
+ *
+ * "INBOX" without an account is left as is: it means the inbox of every account.
+ */
+export async function resolveMailboxScope(
+  backend: MailBackend,
+  mailbox?: string,
+  account?: string
+): Promise<{ mailbox?: string; account?: string }> {
+  if (mailbox === undefined || (account === undefined && mailbox.trim().toUpperCase() === 'INBOX')) {
+    return { mailbox, account };
+  }
+
+  const resolved = resolveMailbox(await backend.listMailboxes(), mailbox, account);
+  return { mailbox: resolved.path, account: resolved.account };
+}
+
+/**
+ * Resource URI of a mailbox: mail://account/{account}/mailbox/{+path}
+ *
+ * The account and path are each percent-encoded, "/" and "," included. The
+ * path is a reserved-expansion variable, so it also matches unencoded "/".
+ */
+export function mailboxUri(account: string, path: string): string {
+  const encode = (value: string) => encodeURIComponent(value).replace(/,/g, '%2C');
+  return `mail://account/${encode(account)}/mailbox/${encode(path)}`;
+}
+
+/**
+ * Account and mailbox path named by a mailbox resource URI
+ *
+ * Path separators may also be given unencoded.
+ */
+export function parseMailboxUri(uri: string): { account: string; path: string } {
+  const match = /^mail:\/\/account\/([^/]+)\/mailbox\/(.+)$/.exec(uri);
+  if (!match) {
+    throw new Error(`Not a mailbox URI: "${uri}" (expected mail://account/{account}/mailbox/{+path})`);
+  }
+  try {
+    return { account: decodeURIComponent(match[1]), path: normalizeMailboxPath(decodeURIComponent(match[2])) };
+  } catch {
+    throw new Error(`Invalid mailbox URI: "${uri}"`);
+  }
+}
+
+function mailboxKey(account: string, path: string): string {
+  return `${account}\n${path.toLowerCase()}`;
+}
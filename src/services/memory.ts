@@ -0,0 +1,794 @@
+/**
+ * In-memory mail backend driven by JSON fixtures
+ *
+ * Mirrors the behaviour of the AppleScript backend closely enough that every
+ * tool can be exercised off a Mac (e.g. in CI on Linux).
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { pageAfter } from './pagination.js';
+import { resolveSenderIdentity, formatSender, type SenderIdentity } from './accounts.js';
+import { extractMessageIds } from './headers.js';
+import { attachmentPaths } from './attachments.js';
+import { renderOutgoingBody } from './body.js';
+import { normalizeMailboxPath, renamedMailboxPath, isSystemMailbox, mailboxAt } from './mailboxes.js';
+import { matchesQuery } from './query.js';
+import type {
+  EmailMessage,
+  EmailAttachment,
+  SavedAttachment,
+  Mailbox,
+  EmailAccount,
+  DraftEmail,
+  SendEmailResult,
+  SearchEmailsParams,
+  SearchEmailsResult,
+  SearchPosition,
+  MessageState,
+  MailBackend,
+  ReplyDraft,
+  ForwardDraft,
+  ComposeResult,
+  ThreadMessage,
+  ThreadCandidates,
+  MessageActionResult,
+  FlagChanges,
+  FlagColor,
+  TrashResult,
+  MailFixture,
+  FixtureMessage,
+  FixtureAttachment
+} from '../types.js';
+
+/**
+ * Load a fixture file from disk and create a memory backend from it
+ */
+export async function loadMemoryBackend(fixturePath: string): Promise<MailBackend> {
+  const raw = await readFile(fixturePath, 'utf8');
+  return createMemoryBackend(JSON.parse(raw) as MailFixture);
+}
+
+/**
+ * Create a memory backend from fixture data
+ *
+ * The fixture is copied, so mutations made through the backend never leak
+ * back into the caller's object.
+ */
+export function createMemoryBackend(fixture: MailFixture): MailBackend {
+  const accounts: EmailAccount[] = fixture.accounts.map(account => ({
+    ...account,
+    addresses: account.addresses ? [...account.addresses] : [account.email].filter(Boolean)
+  }));
+  const mailboxes: Mailbox[] = fixture.mailboxes.map(mailbox => mailboxAt(mailbox.name, mailbox.account));
+  const messages: FixtureMessage[] = fixture.messages.map(message => ({
+    ...message,
+    recipients: message.recipients ? [...message.recipients] : [],
+    references: message.references ? [...message.references] : undefined,
+    attachments: message.attachments ? message.attachments.map(a => ({ ...a })) : []
+  }));
+
+  // Original location of each message moved to Trash, for restoring
+  const deletions = new Map<string, { mailbox: string; account: string }>();
+
+  let nextId = messages.reduce((max, message) => Math.max(max, parseInt(message.id) || 0), 0) + 1;
+
+  function findMessage(messageId: string): FixtureMessage | undefined {
+    return messages.find(message => message.id === messageId);
+  }
+
+  function findMailbox(path: string, account?: string): Mailbox | undefined {
+    return mailboxes.find(mailbox =>
+      sameName(mailbox.path, path) && (account === undefined || mailbox.account === account)
+    );
+  }
+
+  function ensureMailbox(path: string, account: string): Mailbox {
+    const existing = findMailbox(path, account);
+    if (existing) {
+      return existing;
+    }
+    const mailbox = mailboxAt(path, account);
+    mailboxes.push(mailbox);
+    return mailbox;
+  }
+
+  function requireMailbox(path: string, account: string): Mailbox {
+    const mailbox = findMailbox(normalizeMailboxPath(path), account);
+    if (!mailbox) {
+      throw new Error(`Mailbox "${path}" not found in account "${account}"`);
+    }
+    return mailbox;
+  }
+
+  function requireAccount(name: string): EmailAccount {
+    const account = accounts.find(a => a.name === name);
+    if (!account) {
+      throw new Error(`Account "${name}" not found`);
+    }
+    return account;
+  }
+
+  function resolveSender(draft: DraftEmail): SenderIdentity {
+    if (draft.account) {
+      return resolveSenderIdentity(accounts, draft.account);
+    }
+    // Like Mail, fall back to the first account
+    const account = accounts[0];
+    if (!account) {
+      throw new Error('No accounts configured');
+    }
+    return { account, address: account.email };
+  }
+
+  function storeOutgoing(
+    draft: DraftEmail,
+    sender: SenderIdentity,
+    mailboxName: string,
+    extra: Partial<FixtureMessage> = {}
+  ): string {
+    const mailbox = ensureMailbox(mailboxName, sender.account.name);
+    const body = renderOutgoingBody(draft.content, draft.contentFormat);
+    const id = String(nextId++);
+
+    messages.push({
+      id,
+      messageId: `<${id}@memory.invalid>`,
+      subject: draft.subject,
+      sender: formatSender(sender),
+      recipients: [...draft.to, ...(draft.cc || []), ...(draft.bcc || [])],
+      date: new Date().toISOString(),
+      read: true,
+      flagged: false,
+      mailbox: mailbox.path,
+      account: sender.account.name,
+      content: body.text,
+      html: body.html,
+      attachments: [],
+      ...extra
+    });
+
+    return id;
+  }
+
+  /**
+   * Apply an update to each message, reporting per-message success
+   */
+  function updateEach(messageIds: string[], update: (message: FixtureMessage) => void): MessageActionResult[] {
+    return messageIds.map(messageId => {
+      const message = findMessage(messageId);
+      if (!message) {
+        return { messageId, success: false, error: 'Message not found' };
+      }
+      try {
+        update(message);
+        return { messageId, success: true };
+      } catch (error) {
+        return { messageId, success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    });
+  }
+
+  function requireMessage(messageId: string): FixtureMessage {
+    const message = findMessage(messageId);
+    if (!message) {
+      throw new Error(`Message ${messageId} not found`);
+    }
+    return message;
+  }
+
+  /**
+   * The identity a reply/forward goes out as: the account that holds the original
+   */
+  function owningIdentity(message: FixtureMessage): SenderIdentity {
+    const account = accounts.find(a => a.name === message.account) ?? accounts[0];
+    if (!account) {
+      throw new Error('No accounts configured');
+    }
+    return { account, address: account.email };
+  }
+
+  function isOwnAddress(address: string): boolean {
+    const wanted = address.toLowerCase();
+    return accounts.some(account => (account.addresses || []).some(a => a.toLowerCase() === wanted));
+  }
+
+  function composeResult(id: string, sent: boolean): ComposeResult {
+    const message = requireMessage(id);
+    return {
+      messageId: id,
+      subject: message.subject,
+      recipients: [...(message.recipients || [])],
+      sent
+    };
+  }
+
+  return {
+    async searchEmails(params: SearchEmailsParams): Promise<SearchEmailsResult> {
+      const {
+        query, sender, subject, dateFrom, dateTo, mailbox, account, unreadOnly, flaggedOnly, flagColor, expression, allMailboxes, after, limit = 50
+      } = params;
+
+      const matches = messages.filter(message => {
+        if (mailbox) {
+          if (!sameName(message.mailbox, mailbox)) return false;
+          if (account && message.account !== account) return false;
+        } else if (account) {
+          if (message.account !== account) return false;
+        } else if (!allMailboxes && !sameName(message.mailbox, 'INBOX')) {
+          return false;
+        }
+
+        if (query && !contains(message.subject, query) && !contains(message.content, query)) return false;
+        if (sender && !contains(message.sender, sender)) return false;
+        if (subject && !contains(message.subject, subject)) return false;
+        if (unreadOnly && message.read) return false;
+        if ((flaggedOnly || flagColor) && !message.flagged) return false;
+        if (flagColor && flagColorOf(message) !== flagColor) return false;
+        if (dateFrom && !(receivedAt(message) >= dateFrom.getTime())) return false;
+        if (dateTo && !(receivedAt(message) < dateTo.getTime())) return false;
+        if (expression && !matchesQuery(expression, toEmailMessage(message), new Date(receivedAt(message)))) return false;
+        return true;
+      });
+
+      const positions = matches.map(message => ({
+        id: message.id,
+        received: Math.floor((receivedAt(message) || 0) / 1000),
+        message
+      }));
+      const { page, next } = pageAfter(positions, after, limit);
+
+      return {
+        emails: page.map(({ message }) => ({
+          id: message.id,
+          subject: message.subject,
+          sender: message.sender,
+          date: message.date,
+          read: Boolean(message.read),
+          flagged: Boolean(message.flagged),
+          flagColor: flagColorOf(message),
+          junk: Boolean(message.junk),
+          content: message.content
+        })),
+        totalMatched: matches.length,
+        next
+      };
+    },
+
+    async getEmailById(messageId: string, mailbox?: string, account?: string): Promise<EmailMessage | null> {
+      const message = messages.find(m =>
+        m.id === messageId &&
+        (!mailbox || sameName(m.mailbox, mailbox)) &&
+        (!mailbox || !account || m.account === account)
+      );
+      return message ? toEmailMessage(message) : null;
+    },
+
+    async getMessageSource(messageId: string): Promise<string | null> {
+      const message = findMessage(messageId);
+      return message ? messageSource(message) : null;
+    },
+
+    async listMailboxes(): Promise<Mailbox[]> {
+      return mailboxes.map(mailbox => {
+        const contained = messages.filter(m => m.account === mailbox.account && sameName(m.mailbox, mailbox.path));
+        return {
+          ...mailbox,
+          unreadCount: contained.filter(m => !m.read).length,
+          totalCount: contained.length
+        };
+      });
+    },
+
+    async createMailbox(account: string, path: string): Promise<boolean> {
+      requireAccount(account);
+      const names = normalizeMailboxPath(path).split('/');
+      const existed = findMailbox(names.join('/'), account) !== undefined;
+
+      // Like Mail, missing parents are created along the way
+      for (let depth = 1; depth <= names.length; depth++) {
+        ensureMailbox(names.slice(0, depth).join('/'), account);
+      }
+      return !existed;
+    },
+
+    async renameMailbox(account: string, path: string, newName: string): Promise<string> {
+      const mailbox = requireMailbox(path, account);
+      if (isSystemMailbox(mailbox.path)) {
+        throw new Error(`Mailbox "${mailbox.path}" is managed by Mail and can't be renamed`);
+      }
+      const oldPath = mailbox.path;
+      const newPath = renamedMailboxPath(oldPath, newName);
+      const existing = findMailbox(newPath, account);
+      if (existing && existing !== mailbox) {
+        throw new Error(`A mailbox named ${newPath} already exists`);
+      }
+
+      // Sub-mailboxes, messages and deletion records follow the rename
+      const rename = (path: string): string => {
+        if (sameName(path, oldPath)) return newPath;
+        return isInside(path, oldPath) ? newPath + path.substring(oldPath.length) : path;
+      };
+      for (const [index, box] of mailboxes.entries()) {
+        if (box.account === account) mailboxes[index] = mailboxAt(rename(box.path), account);
+      }
+      for (const message of messages) {
+        if (message.account === account) message.mailbox = rename(message.mailbox);
+      }
+      for (const deletion of deletions.values()) {
+        if (deletion.account === account) deletion.mailbox = rename(deletion.mailbox);
+      }
+      return newPath;
+    },
+
+    async deleteMailbox(account: string, path: string): Promise<void> {
+      const mailbox = requireMailbox(path, account);
+      if (isSystemMailbox(mailbox.path)) {
+        throw new Error(`Mailbox "${mailbox.path}" is managed by Mail and can't be deleted`);
+      }
+      const messageCount = messages.filter(m => m.account === account && sameName(m.mailbox, mailbox.path)).length;
+      if (messageCount > 0) {
+        throw new Error(`Mailbox is not empty (${messageCount} messages)`);
+      }
+      if (mailboxes.some(box => box.account === account && isInside(box.path, mailbox.path))) {
+        throw new Error('Mailbox contains other mailboxes');
+      }
+      mailboxes.splice(mailboxes.indexOf(mailbox), 1);
+    },
+
+    async listAccounts(): Promise<EmailAccount[]> {
+      return accounts.map(account => ({
+        ...account,
+        addresses: [...(account.addresses || [])],
+        enabled: account.enabled ?? true,
+        mailboxCount: mailboxes.filter(mailbox => mailbox.account === account.name).length
+      }));
+    },
+
+    async getAttachments(messageId: string): Promise<EmailAttachment[]> {
+      const message = requireMessage(messageId);
+      return (message.attachments || []).map(toEmailAttachment);
+    },
+
+    async saveAttachments(messageId: string, directory: string, names?: string[]): Promise<SavedAttachment[]> {
+      const attachments = requireMessage(messageId).attachments || [];
+      const paths = attachmentPaths(directory, attachments.map(attachment => attachment.name));
+
+      const missing = (names ?? []).filter(name => !attachments.some(attachment => attachment.name === name));
+      if (missing.length > 0) {
+        throw new Error(`Attachment not found: ${missing.join(', ')}`);
+      }
+
+      const saved: SavedAttachment[] = [];
+      for (const [index, attachment] of attachments.entries()) {
+        if (names && !names.includes(attachment.name)) continue;
+        await mkdir(directory, { recursive: true });
+        await writeFile(paths[index], attachmentData(attachment));
+        saved.push({ ...toEmailAttachment(attachment), path: paths[index] });
+      }
+      return saved;
+    },
+
+    async createDraft(draft: DraftEmail): Promise<string> {
+      const sender = resolveSender(draft);
+      return storeOutgoing(draft, sender, 'Drafts', { attachments: await readOutgoing(draft) });
+    },
+
+    async sendEmail(draft: DraftEmail): Promise<SendEmailResult> {
+      const sender = resolveSender(draft);
+      try {
+        const messageId = storeOutgoing(draft, sender, 'Sent', { attachments: await readOutgoing(draft) });
+        return {
+          success: true,
+          messageId
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+    },
+
+    async getEmailsByIds(messageIds: string[]): Promise<EmailMessage[]> {
+      return messageIds
+        .map(findMessage)
+        .filter((message): message is FixtureMessage => message !== undefined)
+        .map(toEmailMessage);
+    },
+
+    async listMailboxMessages(mailbox: string, account: string): Promise<SearchPosition[]> {
+      return messages
+        .filter(message => message.account === account && sameName(message.mailbox, mailbox))
+        .map(message => ({ id: message.id, received: Math.floor((receivedAt(message) || 0) / 1000) }));
+    },
+
+    async getMailboxMessages(mailbox: string, account: string, messageIds: string[]): Promise<EmailMessage[]> {
+      return messageIds
+        .map(findMessage)
+        .filter((message): message is FixtureMessage =>
+          message !== undefined && message.account === account && sameName(message.mailbox, mailbox))
+        .map(toEmailMessage);
+    },
+
+    async listMessageStates(mailbox: string, account: string): Promise<MessageState[]> {
+      return messages
+        .filter(message => message.account === account && sameName(message.mailbox, mailbox))
+        .map(message => ({
+          id: message.id,
+          received: Math.floor((receivedAt(message) || 0) / 1000),
+          read: Boolean(message.read),
+          flagged: Boolean(message.flagged),
+          ...(message.flagged ? { flagColor: flagColorOf(message) } : {}),
+          junk: Boolean(message.junk)
+        }));
+    },
+
+    async moveEmails(messageIds: string[], targetMailbox: string, targetAccount?: string): Promise<MessageActionResult[]> {
+      if (targetAccount && !findMailbox(targetMailbox, targetAccount)) {
+        throw new Error(`Mailbox "${targetMailbox}" not found in account "${targetAccount}"`);
+      }
+
+      return updateEach(messageIds, message => {
+        // Without an account, prefer the mailbox of that name in the message's own account
+        const target = findMailbox(targetMailbox, targetAccount ?? message.account) ??
+          (targetAccount ? undefined : findMailbox(targetMailbox));
+        if (!target) {
+          throw new Error(`Mailbox "${targetMailbox}" not found`);
+        }
+        message.mailbox = target.path;
+        message.account = target.account;
+      });
+    },
+
+    async setReadStatus(messageIds: string[], read: boolean): Promise<MessageActionResult[]> {
+      return updateEach(messageIds, message => {
+        message.read = read;
+      });
+    },
+
+    async setFlags(messageIds: string[], changes: FlagChanges): Promise<MessageActionResult[]> {
+      return updateEach(messageIds, message => {
+        if (changes.flagColor) {
+          message.flagged = true;
+          message.flagColor = changes.flagColor;
+        } else if (changes.flagged !== undefined) {
+          message.flagged = changes.flagged;
+          if (!changes.flagged) {
+            delete message.flagColor;
+          }
+        }
+        if (changes.junk !== undefined) {
+          message.junk = changes.junk;
+        }
+      });
+    },
+
+    async deleteEmails(messageIds: string[], permanent: boolean): Promise<TrashResult[]> {
+      return messageIds.map(messageId => {
+        const index = messages.findIndex(message => message.id === messageId);
+        if (index === -1) {
+          return { messageId, success: false, error: 'Message not found' };
+        }
+
+        const message = messages[index];
+        const result = { messageId, success: true, mailbox: message.mailbox, account: message.account };
+
+        // Like Mail, deleting a message that's already in Trash removes it for good
+        if (permanent || sameName(message.mailbox, 'Trash')) {
+          messages.splice(index, 1);
+          deletions.delete(messageId);
+        } else {
+          deletions.set(messageId, { mailbox: message.mailbox, account: message.account });
+          message.mailbox = ensureMailbox('Trash', message.account).path;
+          return { ...result, restorable: true };
+        }
+        return result;
+      });
+    },
+
+    async restoreEmails(messageIds: string[]): Promise<TrashResult[]> {
+      return messageIds.map(messageId => {
+        const deletion = deletions.get(messageId);
+        if (!deletion) {
+          return { messageId, success: false, error: 'No deletion record for this message' };
+        }
+
+        const message = findMessage(messageId);
+        if (!message || !sameName(message.mailbox, 'Trash')) {
+          return { messageId, success: false, error: 'Message is no longer in Trash', ...deletion };
+        }
+
+        message.mailbox = ensureMailbox(deletion.mailbox, deletion.account).path;
+        message.account = deletion.account;
+        deletions.delete(messageId);
+        return { messageId, success: true, ...deletion };
+      });
+    },
+
+    async replyToEmail(reply: ReplyDraft): Promise<ComposeResult> {
+      const original = requireMessage(reply.messageId);
+      const sender = owningIdentity(original);
+      const originalSender = extractAddress(original.sender);
+
+      // Replying to our own message goes back to its recipients, as in Mail
+      let to = isOwnAddress(originalSender) ? [...(original.recipients || [])] : [originalSender];
+      if (reply.replyAll) {
+        to = [...to, ...(original.recipients || [])];
+      }
+      to = unique(to.map(extractAddress).filter(address => !isOwnAddress(address)));
+
+      const quoted = original.content.split('\n').map(line => `> ${line}`).join('\n');
+      const originalMessageId = original.messageId ?? `<${original.id}@memory.invalid>`;
+
+      const id = storeOutgoing(
+        {
+          subject: prefixSubject('Re', original.subject),
+          to,
+          content: joinBody(reply.content, `On ${original.date}, ${original.sender} wrote:\n\n${quoted}`)
+        },
+        sender,
+        reply.send ? 'Sent' : 'Drafts',
+        {
+          inReplyTo: originalMessageId,
+          references: [...(original.references || []), originalMessageId]
+        }
+      );
+
+      return composeResult(id, reply.send);
+    },
+
+    async forwardEmail(forward: ForwardDraft): Promise<ComposeResult> {
+      const original = requireMessage(forward.messageId);
+
+      const forwarded = [
+        'Begin forwarded message:',
+        '',
+        `From: ${original.sender}`,
+        `Subject: ${original.subject}`,
+        `Date: ${original.date}`,
+        `To: ${(original.recipients || []).join(', ')}`,
+        '',
+        original.content
+      ].join('\n');
+
+      const id = storeOutgoing(
+        {
+          subject: prefixSubject('Fwd', original.subject),
+          to: forward.to,
+          cc: forward.cc,
+          bcc: forward.bcc,
+          content: joinBody(forward.content, forwarded)
+        },
+        owningIdentity(original),
+        forward.send ? 'Sent' : 'Drafts',
+        { attachments: (original.attachments || []).map(a => ({ ...a })) }
+      );
+
+      return composeResult(id, forward.send);
+    },
+
+    async findThreadCandidates(messageId: string): Promise<ThreadCandidates | null> {
+      const seed = findMessage(messageId);
+      if (!seed) {
+        return null;
+      }
+      return {
+        seed: toThreadMessage(seed),
+        candidates: messages.filter(message => message !== seed).map(toThreadMessage)
+      };
+    }
+  };
+}
+
+// Helper functions
+
+function toEmailMessage(message: FixtureMessage): EmailMessage {
+  const attachmentCount = message.attachments?.length || 0;
+  return {
+    id: message.id,
+    subject: message.subject,
+    sender: message.sender,
+    recipients: [...(message.recipients || [])],
+    date: message.date,
+    read: Boolean(message.read),
+    flagged: Boolean(message.flagged),
+    flagColor: flagColorOf(message),
+    junk: Boolean(message.junk),
+    mailbox: message.mailbox,
+    account: message.account,
+    attachmentCount,
+    hasAttachments: attachmentCount > 0,
+    content: message.content
+  };
+}
+
+/**
+ * Flag color of a flagged message; like Mail, flags are red unless set otherwise
+ */
+function flagColorOf(message: FixtureMessage): FlagColor | undefined {
+  return message.flagged ? message.flagColor ?? 'red' : undefined;
+}
+
+function toEmailAttachment(attachment: FixtureAttachment): EmailAttachment {
+  return {
+    name: attachment.name,
+    mimeType: attachment.mimeType,
+    size: attachment.size ?? attachmentData(attachment).length,
+    downloaded: attachment.downloaded ?? true
+  };
+}
+
+/**
+ * Read the files attached to an outgoing message into fixture attachments
+ */
+async function readOutgoing(draft: DraftEmail): Promise<FixtureAttachment[]> {
+  const attachments: FixtureAttachment[] = [];
+  for (const attachment of draft.attachments ?? []) {
+    const data = await readFile(attachment.path);
+    attachments.push({ name: attachment.name, size: data.length, base64: data.toString('base64') });
+  }
+  return attachments;
+}
+
+function attachmentData(attachment: FixtureAttachment): Buffer {
+  if (attachment.base64 !== undefined) {
+    return Buffer.from(attachment.base64, 'base64');
+  }
+  return Buffer.from(attachment.text ?? '', 'utf8');
+}
+
+function toThreadMessage(message: FixtureMessage): ThreadMessage {
+  const threadMessage: ThreadMessage = {
+    ...toEmailMessage(message),
+    references: (message.references || []).flatMap(extractMessageIds),
+    received: Math.floor((receivedAt(message) || 0) / 1000)
+  };
+
+  const rfcMessageId = extractMessageIds(message.messageId)[0];
+  if (rfcMessageId) {
+    threadMessage.rfcMessageId = rfcMessageId;
+  }
+  const inReplyTo = extractMessageIds(message.inReplyTo)[0];
+  if (inReplyTo) {
+    threadMessage.inReplyTo = inReplyTo;
+  }
+
+  return threadMessage;
+}
+
+/**
+ * Raw RFC 822 source for a fixture message
+ *
+ * Every part is base64-encoded so any content survives intact.
+ */
+function messageSource(message: FixtureMessage): string {
+  const received = receivedAt(message);
+  const bracket = (id: string) => `<${id}>`;
+
+  const headers = [
+    `Message-ID: ${bracket(extractMessageIds(message.messageId)[0] ?? `${message.id}@memory.invalid`)}`,
+    `From: ${message.sender}`,
+    `To: ${(message.recipients || []).join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${Number.isNaN(received) ? message.date : new Date(received).toUTCString()}`
+  ];
+  const inReplyTo = extractMessageIds(message.inReplyTo)[0];
+  if (inReplyTo) {
+    headers.push(`In-Reply-To: ${bracket(inReplyTo)}`);
+  }
+  const references = (message.references || []).flatMap(extractMessageIds);
+  if (references.length > 0) {
+    headers.push(`References: ${references.map(bracket).join(' ')}`);
+  }
+  for (const [name, values] of Object.entries(message.headers || {})) {
+    for (const value of Array.isArray(values) ? values : [values]) {
+      headers.push(`${name}: ${value}`);
+    }
+  }
+  headers.push('MIME-Version: 1.0');
+
+  const text = mimePart('text/plain; charset=utf-8', Buffer.from(message.content, 'utf8'));
+  let body = message.html !== undefined
+    ? multipart('alternative', [text, mimePart('text/html; charset=utf-8', Buffer.from(message.html, 'utf8'))])
+    : text;
+
+  const attachments = message.attachments || [];
+  if (attachments.length > 0) {
+    body = multipart('mixed', [
+      body,
+      ...attachments.map(attachment => mimePart(
+        `${attachment.mimeType ?? 'application/octet-stream'}; name="${attachment.name}"`,
+        attachmentData(attachment),
+        [`Content-Disposition: attachment; filename="${attachment.name}"`]
+      ))
+    ]);
+  }
+
+  return [...headers, body].join('\r\n');
+}
+
+function mimePart(contentType: string, data: Buffer, extraHeaders: string[] = []): string {
+  const encoded = data.toString('base64').match(/.{1,76}/g) ?? [];
+  return [
+    `Content-Type: ${contentType}`,
+    'Content-Transfer-Encoding: base64',
+    ...extraHeaders,
+    '',
+    ...encoded
+  ].join('\r\n');
+}
+
+function multipart(subtype: string, parts: string[]): string {
+  const boundary = `=_memory_${subtype}`;
+  return [
+    `Content-Type: multipart/${subtype}; boundary="${boundary}"`,
+    '',
+    ...parts.flatMap(part => [`--${boundary}`, part]),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+}
+
+/**
+ * RFC 2047 encoding for header values that aren't plain ASCII
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Bare address from a sender string such as `Jane Doe <jane@example.com>`
+ */
+function extractAddress(sender: string): string {
+  const match = /<([^>]+)>/.exec(sender);
+  return (match ? match[1] : sender).trim();
+}
+
+/**
+ * Add a `Re:`/`Fwd:` prefix unless the subject already has it
+ */
+function prefixSubject(prefix: string, subject: string): string {
+  return subject.toLowerCase().startsWith(`${prefix.toLowerCase()}:`) ? subject : `${prefix}: ${subject}`;
+}
+
+function joinBody(content: string, original: string): string {
+  return content ? `${content}\n\n${original}` : original;
+}
+
+function unique(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Date received as epoch milliseconds (NaN if the fixture date is unparseable)
+ */
+function receivedAt(message: FixtureMessage): number {
+  return new Date(message.date).getTime();
+}
+
+/**
+ * Case-insensitive substring match, like AppleScript's `contains`
+ */
+function contains(haystack: string, needle: string): boolean {
+  return haystack.toLowerCase().includes(needle.toLowerCase());
+}
+
+/**
+ * Mailbox names compare case-insensitively (Mail treats "INBOX" and "Inbox" alike)
+ */
+function sameName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Whether mailbox `path` is nested (at any depth) under `parent`
+ */
+function isInside(path: string, parent: string): boolean {
+  return path.toLowerCase().startsWith(`${parent.toLowerCase()}/`);
+}
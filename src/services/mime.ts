@@ -0,0 +1,183 @@
+/**
+ * Parsing of raw RFC 822 message source
+ *
+ * Built on mailparser so that MIME structure, encoded words and folded
+ * headers are handled properly.
+ */
+
+import { simpleParser, type AddressObject } from 'mailparser';
+import { extractMessageIds } from './headers.js';
+
+export interface ParsedBody {
+  text?: string;
+  html?: string;
+}
+
+/**
+ * One hop of the Received chain
+ */
+export interface ReceivedHop {
+  from?: string;
+  by?: string;
+  with?: string;
+  id?: string;
+  for?: string;
+  date?: string;     // ISO 8601, if the timestamp could be parsed
+  raw: string;
+}
+
+/**
+ * A single method result from an Authentication-Results header, e.g. `spf=pass`
+ */
+export interface AuthenticationResult {
+  authservId: string;   // Host that performed the check
+  method: string;       // spf, dkim, dmarc, arc...
+  result: string;       // pass, fail, softfail, none...
+}
+
+export interface ListUnsubscribe {
+  urls: string[];       // http(s) unsubscribe links
+  mailto: string[];     // mailto: unsubscribe addresses
+  oneClick: boolean;    // RFC 8058 one-click unsubscribe supported
+}
+
+export interface MessageHeaders {
+  messageId?: string;
+  inReplyTo?: string;
+  references: string[];
+  subject?: string;
+  from?: string;
+  to?: string;
+  cc?: string;
+  date?: string;                      // ISO 8601
+  listUnsubscribe?: ListUnsubscribe;
+  authenticationResults: AuthenticationResult[];
+  received: ReceivedHop[];            // Most recent hop first, as in the message
+  headers: Record<string, string[]>;  // Every header, lower-cased name to unfolded raw values
+}
+
+/**
+ * Extract the plain-text and HTML bodies from raw message source
+ */
+export async function parseMessageBody(source: string): Promise<ParsedBody> {
+  // Keep cid: references instead of inlining every embedded image as a data URI
+  const parsed = await simpleParser(source, { keepCidLinks: true, skipTextToHtml: true });
+
+  const body: ParsedBody = {};
+  if (parsed.text) {
+    body.text = parsed.text;
+  }
+  if (parsed.html) {
+    body.html = parsed.html;
+  }
+  return body;
+}
+
+/**
+ * Parse the header block of raw message source
+ *
+ * Well-known headers are decoded into fields; every header (including
+ * repeated ones such as Received) is also returned in `headers`.
+ */
+export async function parseMessageHeaders(source: string): Promise<MessageHeaders> {
+  const parsed = await simpleParser(source, { skipHtmlToText: true, skipTextToHtml: true, skipImageLinks: true });
+
+  const headers: Record<string, string[]> = {};
+  for (const { key, line } of parsed.headerLines) {
+    const value = line.substring(line.indexOf(':') + 1).replace(/\r?\n[ \t]+/g, ' ').trim();
+    (headers[key] ??= []).push(value);
+  }
+
+  const result: Omit<MessageHeaders, 'references' | 'authenticationResults' | 'received' | 'headers'> = {};
+
+  const messageId = extractMessageIds(headers['message-id']?.[0])[0];
+  if (messageId) {
+    result.messageId = messageId;
+  }
+  const inReplyTo = extractMessageIds(headers['in-reply-to']?.[0])[0];
+  if (inReplyTo) {
+    result.inReplyTo = inReplyTo;
+  }
+  if (parsed.subject !== undefined) {
+    result.subject = parsed.subject;
+  }
+  if (parsed.from) {
+    result.from = parsed.from.text;
+  }
+  if (parsed.to) {
+    result.to = addressText(parsed.to);
+  }
+  if (parsed.cc) {
+    result.cc = addressText(parsed.cc);
+  }
+  if (parsed.date && !Number.isNaN(parsed.date.getTime())) {
+    result.date = parsed.date.toISOString();
+  }
+  if (headers['list-unsubscribe']) {
+    result.listUnsubscribe = parseListUnsubscribe(
+      headers['list-unsubscribe'].join(', '),
+      headers['list-unsubscribe-post']?.[0]
+    );
+  }
+
+  return {
+    ...result,
+    references: extractMessageIds(headers['references']?.join(' ')),
+    authenticationResults: (headers['authentication-results'] ?? []).flatMap(parseAuthenticationResults),
+    received: (headers['received'] ?? []).map(parseReceivedHop),
+    headers
+  };
+}
+
+// Helper functions
+
+function addressText(addresses: AddressObject | AddressObject[]): string {
+  return (Array.isArray(addresses) ? addresses : [addresses]).map(address => address.text).join(', ');
+}
+
+/**
+ * Parse `Received: from X by Y with Z id W for <addr>; date`
+ */
+function parseReceivedHop(raw: string): ReceivedHop {
+  const hop: ReceivedHop = { raw };
+
+  const separator = raw.lastIndexOf(';');
+  const clauses = separator === -1 ? raw : raw.substring(0, separator);
+  if (separator !== -1) {
+    const date = new Date(raw.substring(separator + 1).trim().replace(/\s*\([^)]*\)\s*$/, ''));
+    if (!Number.isNaN(date.getTime())) {
+      hop.date = date.toISOString();
+    }
+  }
+
+  // Each clause runs until the next keyword; comments in parentheses stay with their clause
+  const pattern = /\b(from|by|with|id|for)\s+(.+?)(?=\s+\b(?:from|by|with|id|for)\s|$)/gi;
+  for (const match of clauses.matchAll(pattern)) {
+    const key = match[1].toLowerCase() as 'from' | 'by' | 'with' | 'id' | 'for';
+    hop[key] ??= match[2].trim();
+  }
+
+  return hop;
+}
+
+/**
+ * Parse `authserv-id; method=result ...; method=result ...`
+ */
+function parseAuthenticationResults(raw: string): AuthenticationResult[] {
+  const [authservId, ...methods] = raw.split(';').map(part => part.trim());
+
+  return methods.flatMap(part => {
+    const match = /^([\w-]+)\s*=\s*([\w-]+)/.exec(part);
+    return match ? [{ authservId, method: match[1].toLowerCase(), result: match[2].toLowerCase() }] : [];
+  });
+}
+
+function parseListUnsubscribe(value: string, post?: string): ListUnsubscribe {
+  const uris = [...value.matchAll(/<([^<>]+)>/g)].map(match => match[1].trim());
+
+  return {
+    urls: uris.filter(uri => /^https?:/i.test(uri)),
+    mailto: uris.filter(uri => /^mailto:/i.test(uri)),
+    oneClick: /List-Unsubscribe=One-Click/i.test(post ?? '')
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * Stable ordering and cursor pagination for search results
+ *
+ * Results are ordered newest first by date received, with the message ID as
+ * a tie-breaker. Cursors are keyset based: they record the position of the
+ * last message returned, so mail arriving between calls never shifts or
+ * repeats later pages.
+ */
+
+import { createHash } from 'crypto';
+import type { SearchPosition } from '../types.js';
+
+/**
+ * Order positions newest first, breaking ties by descending message ID
+ */
+export function compareNewestFirst(a: SearchPosition, b: SearchPosition): number {
+  if (a.received !== b.received) {
+    return b.received - a.received;
+  }
+  return compareIds(b.id, a.id);
+}
+
+/**
+ * Sort the given matches and take the page that follows `after`
+ */
+export function pageAfter<T extends SearchPosition>(
+  matches: T[],
+  after: SearchPosition | undefined,
+  limit: number
+): { page: T[]; next?: SearchPosition } {
+  const sorted = [...matches].sort(compareNewestFirst);
+  const start = after ? sorted.findIndex(match => compareNewestFirst(match, after) > 0) : 0;
+  const remaining = start === -1 ? [] : sorted.slice(start);
+  const page = remaining.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    page,
+    next: remaining.length > page.length && last ? { id: last.id, received: last.received } : undefined
+  };
+}
+
+/**
+ * Encode a position as an opaque cursor tied to a particular search
+ */
+export function encodeCursor(position: SearchPosition, fingerprint: string): string {
+  const payload = JSON.stringify({ i: position.id, r: position.received, f: fingerprint });
+  return Buffer.from(payload, 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a cursor, checking that it was issued for the same search
+ */
+export function decodeCursor(cursor: string, fingerprint: string): SearchPosition {
+  let payload: { i?: unknown; r?: unknown; f?: unknown };
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  if (typeof payload.i !== 'string' || typeof payload.r !== 'number') {
+    throw new Error('Invalid cursor');
+  }
+  if (payload.f !== fingerprint) {
+    throw new Error('Cursor does not match this search; repeat the original search parameters or start over without a cursor');
+  }
+
+  return { id: payload.i, received: payload.r };
+}
+
+/**
+ * Encode an offset into ranked results as an opaque cursor tied to a search
+ *
+ * Ranked results have no stable sort key to resume from, so their cursors
+ * record how many results were already returned instead.
+ */
+export function encodeOffsetCursor(offset: number, fingerprint: string): string {
+  const payload = JSON.stringify({ o: offset, f: fingerprint });
+  return Buffer.from(payload, 'utf8').toString('base64url');
+}
+
+/**
+ * Decode an offset cursor, checking that it was issued for the same search
+ */
+export function decodeOffsetCursor(cursor: string, fingerprint: string): number {
+  let payload: { o?: unknown; f?: unknown };
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  if (typeof payload.o !== 'number' || !Number.isInteger(payload.o) || payload.o < 0) {
+    throw new Error('Invalid cursor');
+  }
+  if (payload.f !== fingerprint) {
+    throw new Error('Cursor does not match this search; repeat the original search parameters or start over without a cursor');
+  }
+
+  return payload.o;
+}
+
+/**
+ * Fingerprint a set of search filters so cursors can't be replayed against a
+ * different search
+ */
+export function searchFingerprint(filters: Record<string, unknown>): string {
+  const normalized = Object.keys(filters)
+    .sort()
+    .filter(key => filters[key] !== undefined)
+    .map(key => [key, filters[key]]);
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('base64url').substring(0, 16);
+}
+
+function compareIds(a: string, b: string): number {
+  const numericA = Number(a);
+  const numericB = Number(b);
+  if (Number.isFinite(numericA) && Number.isFinite(numericB)) {
+    return numericA - numericB;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
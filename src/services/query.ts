@@ -0,0 +1,456 @@
+/**
+ * Gmail-style search query language
+ *
+ * A query is a list of terms that must all match, e.g.
+ *
+ *   from:alice subject:"Q3 report" has:attachment is:unread after:2026-01-01 -label:Newsletters (invoice OR receipt)
+ *
+ * Terms are words or "quoted phrases" (matched against subject and body, a
+ * trailing `*` marks a prefix) or `operator:value` pairs. `-term` or
+ * `NOT term` negates, `a OR b` matches either and parentheses group. `AND`
+ * may be written out but is implied between terms.
+ *
+ * Queries are parsed into a `QueryNode` tree. `applyQuery` then moves the
+ * top-level conditions that plain search filters can express into those
+ * filters and leaves the rest as an expression for the backend to evaluate;
+ * `resolveQueryScope` resolves the mailbox names in both against the backend.
+ */
+
+import { resolveDateExpression } from './dates.js';
+import { FLAG_COLORS } from './flags.js';
+import { normalizeMailboxPath, findMailboxes, resolveMailboxScope } from './mailboxes.js';
+import type { EmailMessage, FlagColor, Mailbox, MailBackend, QueryNode, SearchEmailsParams } from '../types.js';
+
+const OPERATORS = [
+  'from', 'to', 'subject', 'has', 'is', 'flag', 'in', 'label', 'mailbox', 'account',
+  'after', 'before', 'newer_than', 'older_than'
+];
+
+const STATES: Record<string, QueryNode> = {
+  unread: { type: 'unread' },
+  read: { type: 'not', child: { type: 'unread' } },
+  flagged: { type: 'flagged' },
+  starred: { type: 'flagged' },
+  unflagged: { type: 'not', child: { type: 'flagged' } },
+  junk: { type: 'junk' }
+};
+
+const AGE = /^(\d+)([hdwmy])$/;
+
+interface Token {
+  kind: 'open' | 'close' | 'not' | 'or' | 'and' | 'term';
+  position: number;       // Offset of the token in the query
+  text: string;           // Word or phrase; for operators, the value after the colon
+  operator?: string;      // Lowercased operator name, for `operator:value` terms
+  phrase?: boolean;       // Written in double quotes
+}
+
+/**
+ * Parse a query string into an expression tree
+ *
+ * Errors name the offending position and point at it under the query.
+ */
+export function parseQuery(query: string, now: Date = new Date()): QueryNode {
+  const tokens = tokenize(query);
+  let current = 0;
+
+  function peek(): Token | undefined {
+    return tokens[current];
+  }
+
+  function parseOr(): QueryNode {
+    const children = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      const or = tokens[current++];
+      if (!startsTerm(peek())) {
+        throw syntaxError(query, peek()?.position ?? query.length, 'Expected a search term after OR', or.position);
+      }
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  function parseAnd(): QueryNode {
+    const children: QueryNode[] = [];
+    for (let token = peek(); token && token.kind !== 'or' && token.kind !== 'close'; token = peek()) {
+      if (token.kind === 'and') {
+        current++;
+        if (children.length === 0 || !startsTerm(peek())) {
+          throw syntaxError(query, token.position, 'AND must come between two search terms');
+        }
+        continue;
+      }
+      children.push(parseUnary());
+    }
+
+    if (children.length === 0) {
+      const token = peek();
+      throw token
+        ? syntaxError(query, token.position, token.kind === 'close' ? 'Unexpected ")"' : `Expected a search term before ${token.text}`)
+        : syntaxError(query, query.length, 'Expected a search term');
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  function parseUnary(): QueryNode {
+    const token = tokens[current++];
+    if (token.kind === 'not') {
+      if (!startsTerm(peek())) {
+        throw syntaxError(query, peek()?.position ?? query.length, `Expected a search term after ${token.text}`, token.position);
+      }
+      return { type: 'not', child: parseUnary() };
+    }
+    if (token.kind === 'open') {
+      const node = parseOr();
+      if (peek()?.kind !== 'close') {
+        throw syntaxError(query, token.position, 'Missing closing ")" for this "("');
+      }
+      current++;
+      return node;
+    }
+    return toTerm(query, token, now);
+  }
+
+  const node = parseOr();
+  if (current < tokens.length) {
+    throw syntaxError(query, tokens[current].position, 'Unexpected ")"');
+  }
+  return node;
+}
+
+/**
+ * Merge a parsed query into search filters
+ *
+ * Top-level conditions go into the matching filter when it's still unset,
+ * which lets backends narrow the search up front; `in:` and `account:` set
+ * the search scope this way. Whatever remains becomes `expression`. If that
+ * still names mailboxes or accounts (as in `in:INBOX OR in:Sent`) and no
+ * mailbox is set, every mailbox is searched instead of just the inbox.
+ */
+export function applyQuery<T extends SearchEmailsParams>(params: T, node: QueryNode): T {
+  const result = { ...params };
+  const remaining: QueryNode[] = [];
+
+  for (const condition of node.type === 'and' ? node.children : [node]) {
+    switch (condition.type) {
+      case 'text':
+        if (condition.phrase || condition.prefix || result.query !== undefined) break;
+        result.query = condition.value;
+        continue;
+      case 'from':
+        if (result.sender !== undefined) break;
+        result.sender = condition.value;
+        continue;
+      case 'subject':
+        if (result.subject !== undefined) break;
+        result.subject = condition.value;
+        continue;
+      case 'mailbox':
+        if (result.mailbox !== undefined) break;
+        result.mailbox = condition.value;
+        continue;
+      case 'account':
+        if (result.account !== undefined) break;
+        result.account = condition.value;
+        continue;
+      case 'after':
+        if (!result.dateFrom || condition.date > result.dateFrom) result.dateFrom = condition.date;
+        continue;
+      case 'before':
+        if (!result.dateTo || condition.date < result.dateTo) result.dateTo = condition.date;
+        continue;
+      case 'unread':
+        result.unreadOnly = true;
+        continue;
+      case 'flagged':
+        result.flaggedOnly = true;
+        continue;
+      case 'flag':
+        if (result.flagColor !== undefined) break;
+        result.flagColor = condition.color;
+        continue;
+    }
+    remaining.push(condition);
+  }
+
+  if (result.expression) {
+    remaining.unshift(result.expression);
+  }
+  result.expression = remaining.length === 0 ? undefined : remaining.length === 1 ? remaining[0] : { type: 'and', children: remaining };
+  if (result.mailbox === undefined && result.expression && containsTerm(result.expression, ['mailbox', 'account'])) {
+    result.allMailboxes = true;
+  }
+  return result;
+}
+
+/**
+ * Resolve the scope of search filters as `resolveMailboxScope` does, along
+ * with the mailbox names in their expression
+ *
+ * A name in the expression stands for every mailbox it could refer to within
+ * the filters' account, so `in:Archive` matches the Archive mailbox of each
+ * account and `in:Acme` the mailbox at "Projects/2026/Acme".
+ */
+export async function resolveQueryScope<T extends SearchEmailsParams>(backend: MailBackend, filter: T): Promise<T> {
+  const scope = await resolveMailboxScope(backend, filter.mailbox, filter.account);
+  if (!filter.expression || !containsTerm(filter.expression, ['mailbox'])) {
+    return { ...filter, ...scope };
+  }
+  const mailboxes = await backend.listMailboxes();
+  return { ...filter, ...scope, expression: resolveMailboxTerms(filter.expression, mailboxes, scope.account) };
+}
+
+/**
+ * Evaluate an expression against a message received at `received`
+ *
+ * Text conditions are case-insensitive substring matches, as in Mail's own search.
+ */
+export function matchesQuery(node: QueryNode, message: EmailMessage, received: Date): boolean {
+  switch (node.type) {
+    case 'and':
+      return node.children.every(child => matchesQuery(child, message, received));
+    case 'or':
+      return node.children.some(child => matchesQuery(child, message, received));
+    case 'not':
+      return !matchesQuery(node.child, message, received);
+    case 'text':
+      return contains(message.subject, node.value) || contains(message.content, node.value);
+    case 'from':
+      return contains(message.sender, node.value);
+    case 'to':
+      return (message.recipients ?? []).some(recipient => contains(recipient, node.value));
+    case 'subject':
+      return contains(message.subject, node.value);
+    case 'mailbox':
+      return (message.mailbox ?? '').toLowerCase() === node.value.toLowerCase() &&
+        (node.account === undefined || message.account === node.account);
+    case 'account':
+      return message.account === node.value;
+    case 'after':
+      return received >= node.date;
+    case 'before':
+      return received < node.date;
+    case 'attachment':
+      return (message.attachmentCount ?? 0) > 0;
+    case 'unread':
+      return !message.read;
+    case 'flagged':
+      return message.flagged;
+    case 'junk':
+      return Boolean(message.junk);
+    case 'flag':
+      return message.flagged && (message.flagColor ?? 'red') === node.color;
+  }
+}
+
+// Helper functions
+
+/**
+ * Whether an expression has a term of one of the given types anywhere in it
+ */
+function containsTerm(node: QueryNode, types: QueryNode['type'][]): boolean {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children.some(child => containsTerm(child, types));
+    case 'not':
+      return containsTerm(node.child, types);
+    default:
+      return types.includes(node.type);
+  }
+}
+
+/**
+ * Replace each mailbox term with the full path and account of every mailbox it could refer to
+ */
+function resolveMailboxTerms(node: QueryNode, mailboxes: Mailbox[], account?: string): QueryNode {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return { type: node.type, children: node.children.map(child => resolveMailboxTerms(child, mailboxes, account)) };
+    case 'not':
+      return { type: 'not', child: resolveMailboxTerms(node.child, mailboxes, account) };
+    case 'mailbox': {
+      const terms: QueryNode[] = findMailboxes(mailboxes, node.value, account)
+        .map(mailbox => ({ type: 'mailbox', value: mailbox.path, account: mailbox.account }));
+      if (terms.length === 0) {
+        throw new Error(account === undefined
+          ? `Mailbox "${node.value}" not found`
+          : `Mailbox "${node.value}" not found in account "${account}"`);
+      }
+      return terms.length === 1 ? terms[0] : { type: 'or', children: terms };
+    }
+    default:
+      return node;
+  }
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < query.length) {
+    const char = query[position];
+    if (/\s/.test(char)) {
+      position++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'open' : 'close', position, text: char });
+      position++;
+    } else if (char === '-') {
+      if (position + 1 === query.length || /[\s)]/.test(query[position + 1])) {
+        throw syntaxError(query, position, 'Expected a search term right after "-"');
+      }
+      tokens.push({ kind: 'not', position, text: '-' });
+      position++;
+    } else if (char === '"') {
+      const { text, end } = readPhrase(query, position);
+      tokens.push({ kind: 'term', position, text, phrase: true });
+      position = end;
+    } else {
+      const start = position;
+      while (position < query.length && !/[\s()"]/.test(query[position])) {
+        position++;
+      }
+      const word = query.slice(start, position);
+
+      if (word === 'OR' || word === 'AND' || word === 'NOT') {
+        tokens.push({ kind: word === 'OR' ? 'or' : word === 'AND' ? 'and' : 'not', position: start, text: word });
+        continue;
+      }
+
+      const operator = /^([A-Za-z_]+):/.exec(word);
+      if (!operator) {
+        tokens.push({ kind: 'term', position: start, text: word });
+      } else if (word.length === operator[0].length && query[position] === '"') {
+        const { text, end } = readPhrase(query, position);
+        tokens.push({ kind: 'term', position: start, text, operator: operator[1].toLowerCase(), phrase: true });
+        position = end;
+      } else {
+        tokens.push({ kind: 'term', position: start, text: word.slice(operator[0].length), operator: operator[1].toLowerCase() });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function readPhrase(query: string, start: number): { text: string; end: number } {
+  const close = query.indexOf('"', start + 1);
+  if (close === -1) {
+    throw syntaxError(query, start, 'Missing closing quote for this phrase');
+  }
+  return { text: query.slice(start + 1, close), end: close + 1 };
+}
+
+function startsTerm(token: Token | undefined): boolean {
+  return token !== undefined && (token.kind === 'term' || token.kind === 'open' || token.kind === 'not');
+}
+
+function toTerm(query: string, token: Token, now: Date): QueryNode {
+  const { operator, position } = token;
+  const value = token.text.trim();
+  const valuePosition = operator === undefined ? position : position + operator.length + 1;
+
+  if (operator === undefined) {
+    const prefix = !token.phrase && value.endsWith('*');
+    const text = prefix ? value.replace(/\*+$/, '') : value;
+    if (!text) {
+      throw syntaxError(query, position, token.phrase ? 'Empty phrase' : 'Expected a word before "*"');
+    }
+    return { type: 'text', value: text, ...(token.phrase ? { phrase: true } : {}), ...(prefix ? { prefix: true } : {}) };
+  }
+
+  if (!OPERATORS.includes(operator)) {
+    throw syntaxError(query, position,
+      `Unknown operator "${operator}:" (expected one of ${OPERATORS.map(name => `${name}:`).join(', ')}; put text containing ":" in quotes)`);
+  }
+  if (!value) {
+    throw syntaxError(query, valuePosition, `Missing value after ${operator}:`);
+  }
+
+  const invalid = (message: string) => syntaxError(query, valuePosition, message);
+  const lower = value.toLowerCase();
+
+  switch (operator) {
+    case 'from':
+    case 'to':
+    case 'subject':
+      return { type: operator, value };
+    case 'in':
+    case 'label':
+    case 'mailbox':
+      try {
+        return { type: 'mailbox', value: normalizeMailboxPath(value) };
+      } catch (error) {
+        throw invalid(error instanceof Error ? error.message : 'Invalid mailbox path');
+      }
+    case 'account':
+      return { type: 'account', value };
+    case 'has':
+      if (lower !== 'attachment' && lower !== 'attachments') {
+        throw invalid(`Unknown value "${value}" for has: (expected attachment)`);
+      }
+      return { type: 'attachment' };
+    case 'is':
+      if (!(lower in STATES)) {
+        throw invalid(`Unknown value "${value}" for is: (expected one of ${Object.keys(STATES).join(', ')})`);
+      }
+      return STATES[lower];
+    case 'flag':
+      if (!FLAG_COLORS.includes(lower as FlagColor)) {
+        throw invalid(`Unknown flag color "${value}" (expected one of ${FLAG_COLORS.join(', ')})`);
+      }
+      return { type: 'flag', color: lower as FlagColor };
+    case 'after':
+    case 'before':
+      try {
+        // Both bounds fall at the start of a named day: after: includes it, before: excludes it
+        return { type: operator, date: resolveDateExpression(value.replace(/^(\d{4})\/(\d{2})\/(\d{2})$/, '$1-$2-$3'), 'from', now) };
+      } catch {
+        throw invalid(`Invalid date "${value}" for ${operator}: (use YYYY-MM-DD, an ISO date-time, today, yesterday or last_N_days)`);
+      }
+    default: {
+      const age = AGE.exec(lower);
+      if (!age) {
+        throw invalid(`Invalid age "${value}" for ${operator}: (use a number and a unit: h, d, w, m or y, e.g. 7d)`);
+      }
+      return { type: operator === 'newer_than' ? 'after' : 'before', date: ageCutoff(parseInt(age[1], 10), age[2], now) };
+    }
+  }
+}
+
+/**
+ * The instant `amount` units before `now`
+ */
+function ageCutoff(amount: number, unit: string, now: Date): Date {
+  const date = new Date(now);
+  switch (unit) {
+    case 'h':
+      date.setHours(date.getHours() - amount);
+      break;
+    case 'd':
+      date.setDate(date.getDate() - amount);
+      break;
+    case 'w':
+      date.setDate(date.getDate() - amount * 7);
+      break;
+    case 'm':
+      date.setMonth(date.getMonth() - amount);
+      break;
+    default:
+      date.setFullYear(date.getFullYear() - amount);
+  }
+  return date;
+}
+
+/**
+ * An error for a query, pointing at `position` (and at `related`, if given)
+ */
+function syntaxError(query: string, position: number, message: string, related?: number): Error {
+  const marker = [...query.padEnd(position + 1)].map((_, index) => index === position || index === related ? '^' : ' ').join('');
+  return new Error(`Invalid query: ${message} at position ${position + 1}\n  ${query}\n  ${marker.trimEnd()}`);
+}
+
+function contains(text: string, value: string): boolean {
+  return text.toLowerCase().includes(value.toLowerCase());
+}
@@ -0,0 +1,361 @@
+/**
+ * Decoder for the structured record format emitted by AppleScript
+ *
+ * See `RECORD_HANDLERS` in script.ts for the encoding side. Output consists
+ * of one record per line:
+ *
+ *   KIND<TAB>KEY:value<TAB>KEY:value...
+ *
+ * where values escape backslash, linefeed, carriage return and tab.
+ */
+
+import type {
+  EmailMessage,
+  EmailAttachment,
+  Mailbox,
+  EmailAccount,
+  SearchPosition,
+  MessageState,
+  ComposeResult,
+  ThreadMessage,
+  MessageActionResult,
+  TrashResult
+} from '../types.js';
+import { parseHeaders, headerValue, extractMessageIds } from './headers.js';
+import { flagColorFromIndex } from './flags.js';
+import { mailboxAt } from './mailboxes.js';
+
+/**
+ * A decoded record: its kind plus raw (unescaped) field values
+ */
+export interface MailRecord {
+  kind: string;
+  fields: Map<string, string>;
+}
+
+/**
+ * Split script output into records
+ *
+ * Lines that are blank are ignored. Keys repeated within a record keep the
+ * last value.
+ */
+export function decodeRecords(output: string): MailRecord[] {
+  const records: MailRecord[] = [];
+
+  for (const line of output.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+
+    const [kind, ...rawFields] = line.split('\t');
+    const fields = new Map<string, string>();
+
+    for (const rawField of rawFields) {
+      const separator = rawField.indexOf(':');
+      if (separator === -1) continue;
+      fields.set(rawField.substring(0, separator), unescapeValue(rawField.substring(separator + 1)));
+    }
+
+    records.push({ kind, fields });
+  }
+
+  return records;
+}
+
+/**
+ * Reverse the escaping applied by the AppleScript `escapeValue` handler
+ */
+export function unescapeValue(value: string): string {
+  return value.replace(/\\(.)/g, (_match, char: string) => {
+    switch (char) {
+      case 'n': return '\n';
+      case 'r': return '\r';
+      case 't': return '\t';
+      default: return char;
+    }
+  });
+}
+
+/**
+ * Decode MESSAGE records
+ */
+export function decodeMessages(output: string): EmailMessage[] {
+  return decodeKind(output, 'MESSAGE', buildMessage);
+}
+
+/**
+ * Decode MESSAGE records that also carry HEADERS and a received date
+ */
+export function decodeThreadMessages(output: string): ThreadMessage[] {
+  return decodeKind(output, 'MESSAGE', fields => {
+    const message = buildMessage(fields);
+    if (!message) return null;
+
+    const headers = parseHeaders(fields.get('HEADERS') ?? '');
+    const threadMessage: ThreadMessage = {
+      ...message,
+      references: extractMessageIds(headerValue(headers, 'References')),
+      received: parseReceived(fields)
+    };
+
+    const rfcMessageId = extractMessageIds(headerValue(headers, 'Message-ID'))[0];
+    if (rfcMessageId) {
+      threadMessage.rfcMessageId = rfcMessageId;
+    }
+    const inReplyTo = extractMessageIds(headerValue(headers, 'In-Reply-To'))[0];
+    if (inReplyTo) {
+      threadMessage.inReplyTo = inReplyTo;
+    }
+
+    return threadMessage;
+  });
+}
+
+/**
+ * Decode MATCH records (search hits before details are fetched)
+ */
+export function decodeMatches(output: string): SearchPosition[] {
+  return decodeKind(output, 'MATCH', fields => {
+    const id = fields.get('ID');
+    return id ? { id, received: parseReceived(fields) } : null;
+  });
+}
+
+/**
+ * Decode STATE records
+ */
+export function decodeMessageStates(output: string): MessageState[] {
+  return decodeKind(output, 'STATE', fields => {
+    const id = fields.get('ID');
+    if (!id) return null;
+
+    const state: MessageState = {
+      id,
+      received: parseReceived(fields),
+      read: fields.get('READ') === 'true',
+      flagged: fields.get('FLAGGED') === 'true',
+      junk: fields.get('JUNK') === 'true'
+    };
+    const flagColor = state.flagged ? flagColorFromIndex(parseInteger(fields.get('FLAG_INDEX'))) : undefined;
+    if (flagColor) {
+      state.flagColor = flagColor;
+    }
+    return state;
+  });
+}
+
+/**
+ * Decode MAILBOX records
+ */
+export function decodeMailboxes(output: string): Mailbox[] {
+  return decodeKind(output, 'MAILBOX', fields => {
+    const path = fields.get('PATH');
+    const account = fields.get('ACCOUNT');
+    if (!path?.trim() || account === undefined) return null;
+
+    return mailboxAt(path, account, {
+      unreadCount: parseInteger(fields.get('UNREAD')),
+      totalCount: parseInteger(fields.get('TOTAL'))
+    });
+  });
+}
+
+/**
+ * Decode ACCOUNT records
+ */
+export function decodeAccounts(output: string): EmailAccount[] {
+  return decodeKind(output, 'ACCOUNT', fields => {
+    const name = fields.get('NAME');
+    const type = fields.get('TYPE');
+    if (!name || !type) return null;
+
+    const addresses = splitList(fields.get('ADDRESSES'));
+    const account: EmailAccount = { name, email: addresses[0] ?? '', addresses, type };
+
+    if (fields.get('FULL_NAME')) {
+      account.fullName = fields.get('FULL_NAME');
+    }
+    if (fields.has('ENABLED')) {
+      account.enabled = fields.get('ENABLED') === 'true';
+    }
+    if (fields.get('SERVER')) {
+      account.serverName = fields.get('SERVER');
+    }
+    if (fields.has('MAILBOX_COUNT')) {
+      account.mailboxCount = parseInteger(fields.get('MAILBOX_COUNT'));
+    }
+
+    return account;
+  });
+}
+
+/**
+ * Decode ATTACHMENT records
+ */
+export function decodeAttachments(output: string): EmailAttachment[] {
+  return decodeKind(output, 'ATTACHMENT', fields => {
+    const name = fields.get('NAME');
+    if (!name) return null;
+
+    const attachment: EmailAttachment = { name };
+    if (fields.get('MIME_TYPE')) {
+      attachment.mimeType = fields.get('MIME_TYPE');
+    }
+    if (fields.get('SIZE')) {
+      attachment.size = parseInteger(fields.get('SIZE'));
+    }
+    if (fields.has('DOWNLOADED')) {
+      attachment.downloaded = fields.get('DOWNLOADED') === 'true';
+    }
+    return attachment;
+  });
+}
+
+/**
+ * Decode COMPOSED records (replies and forwards); `sent` is filled in by the caller
+ */
+export function decodeComposed(output: string): Omit<ComposeResult, 'sent'>[] {
+  return decodeKind(output, 'COMPOSED', fields => {
+    const messageId = fields.get('ID');
+    if (!messageId) return null;
+
+    return {
+      messageId,
+      subject: fields.get('SUBJECT') ?? '',
+      recipients: splitList(fields.get('RECIPIENTS'))
+    };
+  });
+}
+
+/**
+ * Decode RESULT records (per-message outcome of a batch operation)
+ */
+export function decodeActionResults(output: string): MessageActionResult[] {
+  return decodeKind(output, 'RESULT', buildActionResult);
+}
+
+/**
+ * Outcome of a delete as reported by the script, including the Message-ID
+ * header needed to find the message in Trash again
+ */
+export interface DeleteRecord extends TrashResult {
+  rfcMessageId?: string;
+}
+
+/**
+ * Decode RESULT records of a delete, which carry the message's original location
+ */
+export function decodeTrashResults(output: string): DeleteRecord[] {
+  return decodeKind(output, 'RESULT', fields => {
+    const result = buildActionResult(fields);
+    if (!result) return null;
+
+    const deleted: DeleteRecord = result;
+    if (fields.get('MAILBOX')) {
+      deleted.mailbox = fields.get('MAILBOX');
+    }
+    if (fields.get('ACCOUNT')) {
+      deleted.account = fields.get('ACCOUNT');
+    }
+    if (fields.get('RFC_ID')) {
+      deleted.rfcMessageId = fields.get('RFC_ID');
+    }
+    return deleted;
+  });
+}
+
+/**
+ * Decode a SOURCE record (raw message source)
+ */
+export function decodeSource(output: string): string | null {
+  return decodeKind(output, 'SOURCE', fields => fields.get('SOURCE') ?? null)[0] ?? null;
+}
+
+// Helper functions
+
+function buildMessage(fields: Map<string, string>): EmailMessage | null {
+  const id = fields.get('ID');
+  const subject = fields.get('SUBJECT');
+  if (!id || subject === undefined) return null;
+
+  const message: EmailMessage = {
+    id,
+    subject,
+    sender: fields.get('SENDER') ?? '',
+    date: fields.get('DATE') ?? '',
+    read: fields.get('READ') === 'true',
+    flagged: fields.get('FLAGGED') === 'true',
+    content: fields.get('CONTENT') ?? ''
+  };
+
+  if (message.flagged && fields.get('FLAG_INDEX')) {
+    const flagColor = flagColorFromIndex(parseInteger(fields.get('FLAG_INDEX')));
+    if (flagColor) {
+      message.flagColor = flagColor;
+    }
+  }
+  if (fields.has('JUNK')) {
+    message.junk = fields.get('JUNK') === 'true';
+  }
+  if (fields.has('RECIPIENTS')) {
+    message.recipients = splitList(fields.get('RECIPIENTS'));
+  }
+  if (fields.has('MAILBOX')) {
+    message.mailbox = fields.get('MAILBOX');
+  }
+  if (fields.has('ACCOUNT')) {
+    message.account = fields.get('ACCOUNT');
+  }
+  if (fields.has('ATTACHMENT_COUNT')) {
+    message.attachmentCount = parseInteger(fields.get('ATTACHMENT_COUNT'));
+    message.hasAttachments = message.attachmentCount > 0;
+  }
+
+  return message;
+}
+
+function buildActionResult(fields: Map<string, string>): MessageActionResult | null {
+  const messageId = fields.get('ID');
+  if (!messageId) return null;
+
+  const result: MessageActionResult = { messageId, success: fields.get('SUCCESS') === 'true' };
+  if (fields.get('ERROR')) {
+    result.error = fields.get('ERROR');
+  }
+  return result;
+}
+
+/**
+ * Combine the RECEIVED_DAYS/RECEIVED_SECONDS fields into seconds since the epoch
+ */
+function parseReceived(fields: Map<string, string>): number {
+  return parseInteger(fields.get('RECEIVED_DAYS')) * 86400 + parseInteger(fields.get('RECEIVED_SECONDS'));
+}
+
+function decodeKind<T>(
+  output: string,
+  kind: string,
+  build: (fields: Map<string, string>) => T | null
+): T[] {
+  const results: T[] = [];
+
+  for (const record of decodeRecords(output)) {
+    if (record.kind !== kind) continue;
+    const value = build(record.fields);
+    if (value !== null) {
+      results.push(value);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Split a linefeed-separated list field
+ */
+function splitList(value: string | undefined): string[] {
+  return (value ?? '').split('\n').filter(Boolean);
+}
+
+function parseInteger(value: string | undefined): number {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) ? 0 : parsed;
+}
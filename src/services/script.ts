@@ -0,0 +1,165 @@
+/**
+ * Builders for AppleScript literals
+ *
+ * Every user-supplied value that ends up in generated AppleScript must go
+ * through one of these functions. They emit complete literals (including the
+ * surrounding quotes or braces), so a value can never terminate the literal it
+ * is placed in and inject script code.
+ */
+
+/**
+ * Build an AppleScript string literal, e.g. `"say \"hi\""`
+ *
+ * A value containing NUL becomes a parenthesized concatenation instead.
+ */
+export function stringLiteral(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\r/g, '\\r')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t');
+  if (!escaped.includes('\0')) {
+    return `"${escaped}"`;
+  }
+  // AppleScript has no escape for NUL, so it is joined in as a character
+  return `(${escaped.split('\0').map(part => `"${part}"`).join(' & (character id 0) & ')})`;
+}
+
+/**
+ * Build an AppleScript number literal
+ */
+export function numberLiteral(value: number): string {
+  if (!Number.isFinite(value)) {
+    throw new Error(`Invalid number for AppleScript: ${value}`);
+  }
+  return String(value);
+}
+
+/**
+ * Build an AppleScript boolean literal
+ */
+export function booleanLiteral(value: boolean): string {
+  return value ? 'true' : 'false';
+}
+
+/**
+ * Build an AppleScript list of string literals, e.g. `{"a", "b"}`
+ */
+export function listLiteral(values: string[]): string {
+  return `{${values.map(stringLiteral).join(', ')}}`;
+}
+
+/**
+ * Build statements that set an AppleScript variable to the given date
+ *
+ * AppleScript has no locale-independent date literal, so the date is built
+ * from its local-time components. The day is reset first so that changing
+ * the month can never overflow into the next one.
+ */
+export function dateAssignment(variable: string, date: Date): string {
+  if (Number.isNaN(date.getTime())) {
+    throw new Error('Invalid date for AppleScript');
+  }
+  const seconds = date.getHours() * 3600 + date.getMinutes() * 60 + date.getSeconds();
+  return [
+    `set ${variable} to current date`,
+    `set day of ${variable} to 1`,
+    `set year of ${variable} to ${numberLiteral(date.getFullYear())}`,
+    `set month of ${variable} to ${numberLiteral(date.getMonth() + 1)}`,
+    `set day of ${variable} to ${numberLiteral(date.getDate())}`,
+    `set time of ${variable} to ${numberLiteral(seconds)}`
+  ].join('\n') + '\n';
+}
+
+/**
+ * Validate a Mail message ID and return it as an AppleScript integer literal
+ *
+ * Mail message IDs are always positive integers; anything else is rejected
+ * before it reaches a script.
+ */
+export function messageIdLiteral(messageId: string): string {
+  const trimmed = messageId.trim();
+  if (!/^\d{1,15}$/.test(trimmed)) {
+    throw new Error(`Invalid message ID: ${JSON.stringify(messageId)}`);
+  }
+  return String(parseInt(trimmed, 10));
+}
+
+/**
+ * Validate a list of Mail message IDs and build an AppleScript list of integers
+ */
+export function messageIdListLiteral(messageIds: string[]): string {
+  return `{${messageIds.map(messageIdLiteral).join(', ')}}`;
+}
+
+/**
+ * AppleScript handlers for emitting structured records
+ *
+ * Append this to any script that produces output for `decodeRecords`. Each
+ * record is one line: the record kind followed by tab-separated `KEY:value`
+ * fields. Values are escaped (`\\`, `\n`, `\r`, `\t`) so they can never
+ * contain a raw separator, whatever the message content is.
+ *
+ * Call from inside a `tell` block as `my encodeField("KEY", value)`.
+ */
+export const RECORD_HANDLERS = String.raw`
+on encodeField(fieldName, fieldValue)
+  return fieldName & ":" & my escapeValue(fieldValue)
+end encodeField
+
+on escapeValue(theValue)
+  if theValue is missing value then return ""
+  set theText to theValue as text
+  set theText to my replaceText(theText, "\\", "\\\\")
+  set theText to my replaceText(theText, linefeed, "\\n")
+  set theText to my replaceText(theText, return, "\\r")
+  set theText to my replaceText(theText, tab, "\\t")
+  return theText
+end escapeValue
+
+on replaceText(theText, searchText, replacementText)
+  set previousDelimiters to AppleScript's text item delimiters
+  set AppleScript's text item delimiters to searchText
+  set textItems to text items of theText
+  set AppleScript's text item delimiters to replacementText
+  set theText to textItems as text
+  set AppleScript's text item delimiters to previousDelimiters
+  return theText
+end replaceText
+`;
+
+/**
+ * AppleScript handlers for walking nested mailboxes
+ *
+ * `mailboxPath(theBox)` returns the "/"-separated path of a mailbox within
+ * its account; `allMailboxes(theContainer)` returns every mailbox of an
+ * account or mailbox at any depth, parents before their children. Append
+ * after the script's `end tell` and call them with `my`.
+ */
+export const MAILBOX_HANDLERS = String.raw`
+on mailboxPath(theBox)
+  tell application "Mail"
+    set thePath to name of theBox
+    try
+      set theParent to container of theBox
+      repeat while class of theParent is mailbox
+        set thePath to (name of theParent) & "/" & thePath
+        set theParent to container of theParent
+      end repeat
+    end try
+    return thePath
+  end tell
+end mailboxPath
+
+on allMailboxes(theContainer)
+  tell application "Mail"
+    set found to {}
+    repeat with aMailbox in (mailboxes of theContainer)
+      set end of found to contents of aMailbox
+      set found to found & my allMailboxes(contents of aMailbox)
+    end repeat
+    return found
+  end tell
+end allMailboxes
+`;
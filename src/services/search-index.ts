@@ -0,0 +1,585 @@
+/**
+ * Local full-text search index
+ *
+ * Messages are copied from the backend into a SQLite database with an FTS5
+ * table over subject, sender and body, so searches run locally, ranked, with
+ * phrase and prefix matching across every account. Mailboxes are refreshed
+ * incrementally: only messages the index hasn't seen are fetched, messages
+ * that have left a mailbox are dropped, and the read, flag and junk state of
+ * the rest is brought up to date. When each mailbox was last refreshed is
+ * tracked per mailbox.
+ */
+
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import type { EmailMessage, FlagColor, MailBackend, QueryNode, SearchEmailsParams } from '../types.js';
+
+/**
+ * Bumped whenever the table layout changes; older databases are rebuilt
+ */
+const SCHEMA_VERSION = 3;
+
+/**
+ * Messages fetched from the backend per call while refreshing
+ */
+const FETCH_BATCH_SIZE = 50;
+
+/**
+ * Longest body stored per message; the rest isn't searchable
+ */
+const MAX_CONTENT_LENGTH = 100_000;
+
+/**
+ * Freshness of one mailbox in the index
+ */
+export interface IndexedMailbox {
+  account: string;
+  mailbox: string;          // Mailbox path
+  messageCount: number;     // Messages indexed
+  indexedAt: string;        // Last refresh (ISO 8601)
+}
+
+/**
+ * Outcome of refreshing one mailbox
+ */
+export interface IndexRefreshResult extends IndexedMailbox {
+  added: number;
+  removed: number;
+  updated: number;          // Indexed messages whose read, flag or junk state changed
+  skipped?: boolean;        // Refreshed recently enough to leave alone
+  error?: string;           // The mailbox couldn't be read; its entries are kept
+}
+
+export interface IndexRefreshOptions {
+  mailbox?: string;         // Only this mailbox path (any account unless `account` is set)
+  account?: string;         // Only mailboxes of this account
+  maxAge?: number;          // Skip mailboxes refreshed within this many seconds
+  onProgress?: (done: number, total: number, result: IndexRefreshResult) => void;   // After each mailbox
+}
+
+export interface IndexSearchParams extends Omit<SearchEmailsParams, 'after' | 'limit'> {
+  offset?: number;
+  limit?: number;
+}
+
+/**
+ * A search hit; `score` is set for text queries, higher is more relevant
+ */
+export interface IndexedMessage extends EmailMessage {
+  score?: number;
+}
+
+export interface IndexSearchResult {
+  emails: IndexedMessage[];     // Most relevant first (newest first without a query)
+  totalMatched: number;
+  nextOffset?: number;          // Set when more results follow this page
+  mailboxes: IndexedMailbox[];  // Freshness of the mailboxes searched
+}
+
+export interface SearchIndex {
+  refresh(backend: MailBackend, options?: IndexRefreshOptions): Promise<IndexRefreshResult[]>;
+  search(params: IndexSearchParams): IndexSearchResult;
+  mailboxes(account?: string, mailbox?: string): IndexedMailbox[];
+  close(): void;
+}
+
+/**
+ * Default location of the index database
+ */
+export function defaultSearchIndexPath(): string {
+  return join(homedir(), '.apple-mail-mcp', 'search-index.db');
+}
+
+interface MessageRow {
+  id: string;
+  account: string;
+  mailbox: string;
+  subject: string;
+  sender: string;
+  recipients: string;
+  date: string;
+  received: number;
+  read: number;
+  flagged: number;
+  flag_color: string | null;
+  junk: number;
+  attachment_count: number;
+  content: string;
+  score: number | null;
+}
+
+interface MailboxRow {
+  account: string;
+  mailbox: string;
+  message_count: number;
+  indexed_at: number;
+}
+
+/**
+ * Create a search index stored at `path` (':memory:' for a throwaway index)
+ *
+ * The database is opened on first use. Refreshes run one at a time.
+ */
+export function createSearchIndex(path: string): SearchIndex {
+  let db: Database.Database | undefined;
+  let refreshing: Promise<unknown> = Promise.resolve();
+
+  function database(): Database.Database {
+    if (!db) {
+      if (path !== ':memory:') {
+        mkdirSync(dirname(path), { recursive: true });
+      }
+      db = new Database(path);
+      db.pragma('journal_mode = WAL');
+      migrate(db);
+    }
+    return db;
+  }
+
+  function listIndexed(account?: string, mailbox?: string): IndexedMailbox[] {
+    const { clause, args } = locationClause(account, mailbox);
+    const rows = database()
+      .prepare(`SELECT account, mailbox, message_count, indexed_at FROM mailboxes ${clause ? `WHERE ${clause}` : ''} ORDER BY account, mailbox`)
+      .all(...args) as MailboxRow[];
+    return rows.map(toIndexedMailbox);
+  }
+
+  async function refreshMailbox(backend: MailBackend, account: string, mailbox: string): Promise<IndexRefreshResult> {
+    const states = await backend.listMessageStates(mailbox, account);
+    const store = database();
+
+    const known = new Set(
+      store.prepare('SELECT id FROM messages WHERE account = ? AND mailbox = ?').pluck().all(account, mailbox) as string[]
+    );
+    const current = new Map(states.map(state => [state.id, state]));
+    const removed = [...known].filter(id => !current.has(id));
+    const missing = states.filter(state => !known.has(state.id)).map(state => state.id);
+
+    const remove = store.prepare('DELETE FROM messages WHERE id = ? AND account = ? AND mailbox = ?');
+    const updateState = store.prepare(`
+      UPDATE messages SET read = @read, flagged = @flagged, flag_color = @flag_color, junk = @junk
+      WHERE id = @id AND account = @account AND mailbox = @mailbox
+        AND (read != @read OR flagged != @flagged OR flag_color IS NOT @flag_color OR junk != @junk)
+    `);
+    let updated = 0;
+    store.transaction(() => {
+      for (const id of removed) remove.run(id, account, mailbox);
+      for (const state of states) {
+        if (!known.has(state.id)) continue;
+        updated += updateState.run({
+          id: state.id,
+          account,
+          mailbox,
+          read: state.read ? 1 : 0,
+          flagged: state.flagged ? 1 : 0,
+          flag_color: state.flagColor ?? null,
+          junk: state.junk ? 1 : 0
+        }).changes;
+      }
+    })();
+
+    // A message moved here from another mailbox takes over its existing row
+    const upsert = store.prepare(`
+      INSERT INTO messages (id, account, mailbox, subject, sender, recipients, date, received, read, flagged, flag_color, junk, attachment_count, content)
+      VALUES (@id, @account, @mailbox, @subject, @sender, @recipients, @date, @received, @read, @flagged, @flag_color, @junk, @attachment_count, @content)
+      ON CONFLICT(id) DO UPDATE SET
+        account = excluded.account, mailbox = excluded.mailbox, subject = excluded.subject,
+        sender = excluded.sender, recipients = excluded.recipients, date = excluded.date, received = excluded.received,
+        read = excluded.read, flagged = excluded.flagged, flag_color = excluded.flag_color, junk = excluded.junk,
+        attachment_count = excluded.attachment_count, content = excluded.content
+    `);
+
+    let added = 0;
+    for (let start = 0; start < missing.length; start += FETCH_BATCH_SIZE) {
+      const messages = await backend.getMailboxMessages(mailbox, account, missing.slice(start, start + FETCH_BATCH_SIZE));
+      store.transaction(() => {
+        for (const message of messages) {
+          upsert.run({
+            id: message.id,
+            account,
+            mailbox,
+            subject: message.subject,
+            sender: message.sender,
+            recipients: (message.recipients ?? []).join('\n'),
+            date: message.date,
+            received: current.get(message.id)?.received ?? 0,
+            read: message.read ? 1 : 0,
+            flagged: message.flagged ? 1 : 0,
+            flag_color: message.flagColor ?? null,
+            junk: message.junk ? 1 : 0,
+            attachment_count: message.attachmentCount ?? 0,
+            content: message.content.substring(0, MAX_CONTENT_LENGTH)
+          });
+        }
+      })();
+      added += messages.length;
+    }
+
+    const messageCount = store
+      .prepare('SELECT count(*) FROM messages WHERE account = ? AND mailbox = ?')
+      .pluck()
+      .get(account, mailbox) as number;
+    const indexedAt = Date.now();
+    store
+      .prepare(`
+        INSERT INTO mailboxes (account, mailbox, message_count, indexed_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT(account, mailbox) DO UPDATE SET message_count = excluded.message_count, indexed_at = excluded.indexed_at
+      `)
+      .run(account, mailbox, messageCount, indexedAt);
+
+    return { account, mailbox, messageCount, indexedAt: new Date(indexedAt).toISOString(), added, removed: removed.length, updated };
+  }
+
+  async function runRefresh(backend: MailBackend, options: IndexRefreshOptions): Promise<IndexRefreshResult[]> {
+    const store = database();
+    const mailboxes = (await backend.listMailboxes()).filter(mailbox =>
+      (options.account === undefined || mailbox.account === options.account) &&
+      (options.mailbox === undefined || mailbox.path.toLowerCase() === options.mailbox.toLowerCase())
+    );
+
+    // Mailboxes that no longer exist (e.g. renamed) are dropped when a whole account is refreshed
+    if (options.mailbox === undefined) {
+      const existing = new Set(mailboxes.map(mailbox => locationKey(mailbox.account, mailbox.path)));
+      const stale = listIndexed(options.account).filter(indexed => !existing.has(locationKey(indexed.account, indexed.mailbox)));
+      store.transaction(() => {
+        for (const indexed of stale) {
+          store.prepare('DELETE FROM messages WHERE account = ? AND mailbox = ?').run(indexed.account, indexed.mailbox);
+          store.prepare('DELETE FROM mailboxes WHERE account = ? AND mailbox = ?').run(indexed.account, indexed.mailbox);
+        }
+      })();
+    }
+
+    const freshness = new Map(listIndexed(options.account).map(indexed => [locationKey(indexed.account, indexed.mailbox), indexed]));
+    const results: IndexRefreshResult[] = [];
+
+    for (const mailbox of mailboxes) {
+      const indexed = freshness.get(locationKey(mailbox.account, mailbox.path));
+      if (indexed && options.maxAge !== undefined && Date.now() - Date.parse(indexed.indexedAt) < options.maxAge * 1000) {
+        results.push({ ...indexed, added: 0, removed: 0, updated: 0, skipped: true });
+      } else {
+        try {
+          results.push(await refreshMailbox(backend, mailbox.account, mailbox.path));
+        } catch (error) {
+          results.push({
+            account: mailbox.account,
+            mailbox: mailbox.path,
+            messageCount: indexed?.messageCount ?? 0,
+            indexedAt: indexed?.indexedAt ?? '',
+            added: 0,
+            removed: 0,
+            updated: 0,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+      options.onProgress?.(results.length, mailboxes.length, results[results.length - 1]);
+    }
+
+    return results;
+  }
+
+  return {
+    refresh(backend: MailBackend, options: IndexRefreshOptions = {}): Promise<IndexRefreshResult[]> {
+      const run = refreshing.then(() => runRefresh(backend, options));
+      refreshing = run.catch(() => undefined);
+      return run;
+    },
+
+    search(params: IndexSearchParams): IndexSearchResult {
+      const { offset = 0, limit = 50 } = params;
+      const conditions: string[] = [];
+      const args: unknown[] = [];
+
+      const match = params.query !== undefined ? matchExpression(params.query) : undefined;
+      if (match) {
+        conditions.push('messages_fts MATCH ?');
+        args.push(match);
+      }
+
+      const location = locationClause(params.account, params.mailbox, 'm.');
+      if (location.clause) {
+        conditions.push(location.clause);
+        args.push(...location.args);
+      }
+
+      if (params.sender) {
+        conditions.push("m.sender LIKE ? ESCAPE '\\'");
+        args.push(`%${escapeLike(params.sender)}%`);
+      }
+      if (params.subject) {
+        conditions.push("m.subject LIKE ? ESCAPE '\\'");
+        args.push(`%${escapeLike(params.subject)}%`);
+      }
+      if (params.dateFrom) {
+        conditions.push('m.received >= ?');
+        args.push(Math.floor(params.dateFrom.getTime() / 1000));
+      }
+      if (params.dateTo) {
+        conditions.push('m.received < ?');
+        args.push(Math.floor(params.dateTo.getTime() / 1000));
+      }
+      if (params.unreadOnly) {
+        conditions.push('m.read = 0');
+      }
+      if (params.flaggedOnly || params.flagColor) {
+        conditions.push('m.flagged = 1');
+      }
+      if (params.flagColor) {
+        // Flagged messages without a recorded color carry Mail's default red flag
+        conditions.push(params.flagColor === 'red' ? "coalesce(m.flag_color, 'red') = ?" : 'm.flag_color = ?');
+        args.push(params.flagColor);
+      }
+      if (params.expression) {
+        conditions.push(expressionClause(params.expression, args));
+      }
+
+      const from = match
+        ? 'messages_fts JOIN messages m ON m.rowid = messages_fts.rowid'
+        : 'messages m';
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const store = database();
+
+      const totalMatched = store.prepare(`SELECT count(*) FROM ${from} ${where}`).pluck().get(...args) as number;
+      const rows = store
+        .prepare(`
+          SELECT m.*, ${match ? 'bm25(messages_fts, 10.0, 4.0, 1.0)' : 'NULL'} AS score
+          FROM ${from} ${where}
+          ORDER BY ${match ? 'score, ' : ''}m.received DESC, CAST(m.id AS INTEGER) DESC
+          LIMIT ? OFFSET ?
+        `)
+        .all(...args, limit, offset) as MessageRow[];
+
+      return {
+        emails: rows.map(toIndexedMessage),
+        totalMatched,
+        nextOffset: offset + rows.length < totalMatched ? offset + rows.length : undefined,
+        mailboxes: listIndexed(params.account, params.mailbox)
+      };
+    },
+
+    mailboxes(account?: string, mailbox?: string): IndexedMailbox[] {
+      return listIndexed(account, mailbox);
+    },
+
+    close(): void {
+      db?.close();
+      db = undefined;
+    }
+  };
+}
+
+/**
+ * Summarize how fresh a set of indexed mailboxes is
+ */
+export function summarizeFreshness(mailboxes: IndexedMailbox[]) {
+  const refreshed = mailboxes.map(mailbox => mailbox.indexedAt).sort();
+  return {
+    mailboxes: mailboxes.length,
+    messages: mailboxes.reduce((total, mailbox) => total + mailbox.messageCount, 0),
+    oldestRefresh: refreshed[0] ?? null,
+    newestRefresh: refreshed[refreshed.length - 1] ?? null
+  };
+}
+
+// Helper functions
+
+/**
+ * Translate a search query into an FTS5 match expression
+ *
+ * Words must all match; "quoted text" matches as a phrase and a trailing `*`
+ * matches any word with that prefix. Everything else is taken literally, so
+ * FTS5 operators in user input can't change the query's meaning.
+ */
+function matchExpression(query: string): string {
+  const terms: string[] = [];
+
+  for (const [, phrase, word] of query.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    if (phrase !== undefined) {
+      if (phrase.trim()) terms.push(quote(phrase));
+      continue;
+    }
+
+    const prefix = word.endsWith('*');
+    const text = word.replace(/\*+$/, '');
+    if (/[\p{L}\p{N}]/u.test(text)) {
+      terms.push(prefix ? `${quote(text)}*` : quote(text));
+    }
+  }
+
+  if (terms.length === 0) {
+    throw new Error(`Query "${query}" has no searchable words`);
+  }
+  return terms.join(' ');
+}
+
+/**
+ * SQL condition on `m` for a parsed query expression, appending its arguments to `args`
+ *
+ * Text conditions use the full-text index, so they match whole words (or
+ * prefixes) rather than substrings.
+ */
+function expressionClause(node: QueryNode, args: unknown[]): string {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return `(${node.children.map(child => expressionClause(child, args)).join(` ${node.type.toUpperCase()} `)})`;
+    case 'not':
+      return `(NOT ${expressionClause(node.child, args)})`;
+    case 'text':
+      args.push(node.phrase ? quote(node.value) : matchExpression(node.prefix ? `${node.value}*` : node.value));
+      return 'm.rowid IN (SELECT rowid FROM messages_fts WHERE messages_fts MATCH ?)';
+    case 'from':
+    case 'to':
+    case 'subject':
+      args.push(`%${escapeLike(node.value)}%`);
+      return `m.${node.type === 'from' ? 'sender' : node.type === 'to' ? 'recipients' : 'subject'} LIKE ? ESCAPE '\\'`;
+    case 'mailbox':
+      args.push(node.value);
+      if (node.account === undefined) {
+        return 'm.mailbox = ?';
+      }
+      args.push(node.account);
+      return '(m.mailbox = ? AND m.account = ?)';
+    case 'account':
+      args.push(node.value);
+      return 'm.account = ?';
+    case 'after':
+    case 'before':
+      args.push(Math.floor(node.date.getTime() / 1000));
+      return node.type === 'after' ? 'm.received >= ?' : 'm.received < ?';
+    case 'attachment':
+      return 'm.attachment_count > 0';
+    case 'unread':
+      return 'm.read = 0';
+    case 'flagged':
+      return 'm.flagged = 1';
+    case 'junk':
+      return 'm.junk = 1';
+    case 'flag':
+      args.push(node.color);
+      return node.color === 'red' ? "(m.flagged = 1 AND coalesce(m.flag_color, 'red') = ?)" : '(m.flagged = 1 AND m.flag_color = ?)';
+  }
+}
+
+function migrate(db: Database.Database): void {
+  if (db.pragma('user_version', { simple: true }) === SCHEMA_VERSION) {
+    return;
+  }
+
+  db.exec(`
+    DROP TABLE IF EXISTS messages_fts;
+    DROP TABLE IF EXISTS messages;
+    DROP TABLE IF EXISTS mailboxes;
+
+    CREATE TABLE messages (
+      id TEXT PRIMARY KEY,
+      account TEXT NOT NULL,
+      mailbox TEXT NOT NULL COLLATE NOCASE,
+      subject TEXT NOT NULL,
+      sender TEXT NOT NULL,
+      recipients TEXT NOT NULL,
+      date TEXT NOT NULL,
+      received INTEGER NOT NULL,
+      read INTEGER NOT NULL,
+      flagged INTEGER NOT NULL,
+      flag_color TEXT,
+      junk INTEGER NOT NULL,
+      attachment_count INTEGER NOT NULL,
+      content TEXT NOT NULL
+    );
+    CREATE INDEX messages_location ON messages (account, mailbox);
+    CREATE INDEX messages_received ON messages (received);
+
+    CREATE VIRTUAL TABLE messages_fts USING fts5(
+      subject, sender, content,
+      content = 'messages', content_rowid = 'rowid',
+      tokenize = 'unicode61 remove_diacritics 2', prefix = '2 3'
+    );
+
+    CREATE TRIGGER messages_insert AFTER INSERT ON messages BEGIN
+      INSERT INTO messages_fts (rowid, subject, sender, content) VALUES (new.rowid, new.subject, new.sender, new.content);
+    END;
+    CREATE TRIGGER messages_delete AFTER DELETE ON messages BEGIN
+      INSERT INTO messages_fts (messages_fts, rowid, subject, sender, content) VALUES ('delete', old.rowid, old.subject, old.sender, old.content);
+    END;
+    CREATE TRIGGER messages_update AFTER UPDATE OF subject, sender, content ON messages BEGIN
+      INSERT INTO messages_fts (messages_fts, rowid, subject, sender, content) VALUES ('delete', old.rowid, old.subject, old.sender, old.content);
+      INSERT INTO messages_fts (rowid, subject, sender, content) VALUES (new.rowid, new.subject, new.sender, new.content);
+    END;
+
+    CREATE TABLE mailboxes (
+      account TEXT NOT NULL,
+      mailbox TEXT NOT NULL COLLATE NOCASE,
+      message_count INTEGER NOT NULL,
+      indexed_at INTEGER NOT NULL,
+      PRIMARY KEY (account, mailbox)
+    );
+  `);
+  db.pragma(`user_version = ${SCHEMA_VERSION}`);
+}
+
+/**
+ * SQL condition restricting rows to an account and/or mailbox
+ */
+function locationClause(account?: string, mailbox?: string, prefix = ''): { clause: string; args: string[] } {
+  const conditions: string[] = [];
+  const args: string[] = [];
+  if (account !== undefined) {
+    conditions.push(`${prefix}account = ?`);
+    args.push(account);
+  }
+  if (mailbox !== undefined) {
+    conditions.push(`${prefix}mailbox = ?`);
+    args.push(mailbox);
+  }
+  return { clause: conditions.join(' AND '), args };
+}
+
+function toIndexedMailbox(row: MailboxRow): IndexedMailbox {
+  return {
+    account: row.account,
+    mailbox: row.mailbox,
+    messageCount: row.message_count,
+    indexedAt: new Date(row.indexed_at).toISOString()
+  };
+}
+
+function toIndexedMessage(row: MessageRow): IndexedMessage {
+  const message: IndexedMessage = {
+    id: row.id,
+    subject: row.subject,
+    sender: row.sender,
+    recipients: row.recipients ? row.recipients.split('\n') : [],
+    date: row.date,
+    read: row.read === 1,
+    flagged: row.flagged === 1,
+    junk: row.junk === 1,
+    mailbox: row.mailbox,
+    account: row.account,
+    attachmentCount: row.attachment_count,
+    hasAttachments: row.attachment_count > 0,
+    content: row.content
+  };
+  if (message.flagged) {
+    message.flagColor = (row.flag_color ?? 'red') as FlagColor;
+  }
+  if (row.score !== null) {
+    // bm25() is lower for better matches
+    message.score = Number((-row.score).toPrecision(4));
+  }
+  return message;
+}
+
+function locationKey(account: string, mailbox: string): string {
+  return `${account}\n${mailbox.toLowerCase()}`;
+}
+
+function quote(text: string): string {
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, char => `\\${char}`);
+}
@@ -0,0 +1,86 @@
+/**
+ * Selection of the messages a bulk operation applies to
+ *
+ * Callers pass either explicit message IDs or search filters; filters are
+ * resolved to IDs with the backend's own search, newest first.
+ */
+
+import { resolveQueryScope } from './query.js';
+import type { MailBackend, EmailMessage, SearchEmailsParams, MessageActionResult } from '../types.js';
+
+export type MessageFilter = Omit<SearchEmailsParams, 'after' | 'limit'>;
+
+export interface MessageSelection {
+  messageIds?: string[];
+  filter?: MessageFilter;
+  limit: number;        // Most messages a filter may select
+}
+
+export interface SelectedMessages {
+  messageIds: string[];
+  messages?: EmailMessage[];   // Details, when the search already returned them
+  truncated: boolean;          // The filter matched more than `limit` messages
+}
+
+/**
+ * Resolve a selection to the IDs of the messages it covers
+ */
+export async function selectMessages(backend: MailBackend, selection: MessageSelection): Promise<SelectedMessages> {
+  if ((selection.messageIds === undefined) === (selection.filter === undefined)) {
+    throw new Error('Provide exactly one of message_id, message_ids or filter');
+  }
+
+  if (selection.messageIds) {
+    return { messageIds: [...new Set(selection.messageIds)], truncated: false };
+  }
+
+  const filter = await resolveQueryScope(backend, selection.filter!);
+  const result = await backend.searchEmails({ ...filter, limit: selection.limit });
+  return {
+    messageIds: result.emails.map(email => email.id),
+    messages: result.emails,
+    truncated: result.next !== undefined
+  };
+}
+
+/**
+ * Describe what a bulk operation would affect, without changing anything
+ */
+export async function describeSelection(backend: MailBackend, selected: SelectedMessages) {
+  const messages = selected.messages ?? await backend.getEmailsByIds(selected.messageIds);
+  const found = new Set(messages.map(message => message.id));
+
+  return {
+    success: true,
+    dryRun: true,
+    matched: messages.length,
+    truncated: selected.truncated,
+    messages: messages.map(message => ({
+      id: message.id,
+      subject: message.subject,
+      sender: message.sender,
+      date: message.date,
+      read: message.read,
+      flagged: message.flagged,
+      flagColor: message.flagColor
+    })),
+    notFound: selected.messageIds.filter(id => !found.has(id))
+  };
+}
+
+/**
+ * Summarize the per-message results of a bulk operation
+ */
+export function summarizeResults(selected: SelectedMessages, results: MessageActionResult[]) {
+  const failed = results.filter(result => !result.success).length;
+
+  return {
+    success: failed === 0,
+    dryRun: false,
+    matched: selected.messageIds.length,
+    truncated: selected.truncated,
+    succeeded: results.length - failed,
+    failed,
+    results
+  };
+}
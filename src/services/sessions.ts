@@ -0,0 +1,106 @@
+/**
+ * Streamable HTTP sessions
+ *
+ * Every client session has its own transport and MCP server, created when
+ * the client initializes and closed when it sends DELETE or stays idle too
+ * long. A session is idle while no request (including its SSE stream) is open.
+ *
+ * A session's tools and prompts are fixed by the scopes granted when it was
+ * initialized. Every later request is authenticated again, so a revoked token
+ * is turned away, and the HTTP server rejects tokens that no longer grant all
+ * of the session's scopes; a token granting more needs a new session to see
+ * the extra tools.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { Scope } from './auth.js';
+
+/**
+ * How often idle sessions are looked for
+ */
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface Session {
+  id: string;
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  clientId?: string;        // Client that created it, when authentication is on
+  scopes?: ReadonlySet<Scope>;   // Scopes granted at initialize, when authentication is on
+  openRequests: number;
+  lastActive: number;       // Milliseconds since the epoch
+}
+
+export interface SessionRegistry {
+  add(id: string, session: Omit<Session, 'id' | 'openRequests' | 'lastActive'>): Session;
+  get(id: string): Session | undefined;
+  track(session: Session, response: { once(event: 'close', listener: () => void): unknown }): void;
+  remove(id: string): void;
+  close(id: string): Promise<void>;
+  closeAll(): Promise<void>;
+  list(): Session[];
+}
+
+/**
+ * Create a registry that closes sessions idle for longer than `idleTimeoutMs`
+ */
+export function createSessionRegistry(idleTimeoutMs: number): SessionRegistry {
+  const sessions = new Map<string, Session>();
+
+  async function close(id: string): Promise<void> {
+    const session = sessions.get(id);
+    if (!session) {
+      return;
+    }
+    sessions.delete(id);
+    await session.server.close();
+  }
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - idleTimeoutMs;
+    for (const session of sessions.values()) {
+      if (session.openRequests === 0 && session.lastActive < cutoff) {
+        close(session.id).catch(error => {
+          console.error(`Closing idle session ${session.id} failed:`, error);
+        });
+      }
+    }
+  }, Math.min(SWEEP_INTERVAL_MS, idleTimeoutMs));
+  sweep.unref();
+
+  return {
+    add(id, details): Session {
+      const session = { ...details, id, openRequests: 0, lastActive: Date.now() };
+      sessions.set(id, session);
+      return session;
+    },
+
+    get(id): Session | undefined {
+      return sessions.get(id);
+    },
+
+    track(session, response): void {
+      session.openRequests++;
+      session.lastActive = Date.now();
+      response.once('close', () => {
+        session.openRequests--;
+        session.lastActive = Date.now();
+      });
+    },
+
+    remove(id): void {
+      sessions.delete(id);
+    },
+
+    close,
+
+    async closeAll(): Promise<void> {
+      clearInterval(sweep);
+      await Promise.all([...sessions.keys()].map(close));
+    },
+
+    list(): Session[] {
+      return [...sessions.values()];
+    }
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * Conversation threading
+ *
+ * Messages are grouped using their Message-ID, In-Reply-To and References
+ * headers. When a message has no header links to any other candidate, the
+ * thread falls back to messages sharing its normalized subject.
+ */
+
+import { compareNewestFirst } from './pagination.js';
+import type { ThreadMessage } from '../types.js';
+
+export interface Thread {
+  groupedBy: 'headers' | 'subject';
+  messages: ThreadMessage[];   // Oldest first, one entry per distinct message
+}
+
+/**
+ * Build the thread containing `seed` from a set of candidate messages
+ */
+export function buildThread(seed: ThreadMessage, candidates: ThreadMessage[]): Thread {
+  const all = dedupe([seed, ...candidates]);
+
+  // Link every pair of messages where one refers to the other
+  const byRfcId = new Map<string, ThreadMessage[]>();
+  for (const message of all) {
+    if (!message.rfcMessageId) continue;
+    const key = normalizeId(message.rfcMessageId);
+    byRfcId.set(key, [...(byRfcId.get(key) ?? []), message]);
+  }
+
+  const neighbours = new Map<ThreadMessage, Set<ThreadMessage>>(all.map(message => [message, new Set()]));
+  for (const message of all) {
+    for (const referenced of referencedIds(message)) {
+      for (const target of byRfcId.get(referenced) ?? []) {
+        if (target === message) continue;
+        neighbours.get(message)!.add(target);
+        neighbours.get(target)!.add(message);
+      }
+    }
+  }
+
+  // Walk the connected component containing the seed
+  const seedMessage = all[0];
+  const component = new Set<ThreadMessage>([seedMessage]);
+  const queue = [seedMessage];
+  while (queue.length > 0) {
+    for (const next of neighbours.get(queue.shift()!)!) {
+      if (!component.has(next)) {
+        component.add(next);
+        queue.push(next);
+      }
+    }
+  }
+
+  if (component.size > 1) {
+    return { groupedBy: 'headers', messages: chronological([...component]) };
+  }
+
+  const subject = normalizeSubject(seedMessage.subject);
+  const bySubject = subject
+    ? all.filter(message => message === seedMessage || normalizeSubject(message.subject) === subject)
+    : [seedMessage];
+  return { groupedBy: 'subject', messages: chronological(bySubject) };
+}
+
+/**
+ * Strip reply/forward prefixes and list tags so related subjects compare equal,
+ * e.g. `RE: [team] Fwd: Lunch` becomes `lunch`
+ */
+export function normalizeSubject(subject: string): string {
+  return baseSubject(subject).replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Subject with reply/forward prefixes removed but case preserved, suitable
+ * for a case-insensitive `contains` search
+ */
+export function baseSubject(subject: string): string {
+  let base = subject.trim();
+  let previous: string;
+  do {
+    previous = base;
+    base = base
+      .replace(/^(re|fwd?|aw|sv|wg|antw)(\[\d+\])?\s*:\s*/i, '')
+      .replace(/^\[[^\]]*\]\s*/, '')
+      .trim();
+  } while (base !== previous);
+  return base;
+}
+
+/**
+ * Remove quoted replies and forwarded originals from a message body,
+ * leaving only what the author wrote
+ */
+export function stripQuotedText(content: string): string {
+  const lines = content.split(/\r?\n|\r/);
+  const kept: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Everything after an attribution or separator line is quoted material
+    if (
+      /^On .+wrote:\s*$/.test(line) ||
+      (/^On .+/.test(line) && /wrote:\s*$/.test(lines[i + 1] ?? '')) ||
+      /^-{2,}\s*(Original Message|Forwarded message)\s*-{2,}/i.test(line) ||
+      /^Begin forwarded message:/i.test(line) ||
+      (/^From: .+/.test(line) && /^(Sent|Date): .+/.test(lines[i + 1] ?? ''))
+    ) {
+      break;
+    }
+    if (/^\s*>/.test(line)) {
+      continue;
+    }
+    kept.push(line);
+  }
+
+  return kept.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// Helper functions
+
+function referencedIds(message: ThreadMessage): string[] {
+  return [...(message.inReplyTo ? [message.inReplyTo] : []), ...(message.references ?? [])].map(normalizeId);
+}
+
+function normalizeId(id: string): string {
+  return id.replace(/^<|>$/g, '').trim().toLowerCase();
+}
+
+/**
+ * The same message can live in several mailboxes (e.g. INBOX and an
+ * "All Mail" folder); keep the first copy of each
+ */
+function dedupe(messages: ThreadMessage[]): ThreadMessage[] {
+  const seenMailIds = new Set<string>();
+  const seenRfcIds = new Set<string>();
+
+  return messages.filter(message => {
+    const rfcId = message.rfcMessageId ? normalizeId(message.rfcMessageId) : undefined;
+    if (seenMailIds.has(message.id) || (rfcId && seenRfcIds.has(rfcId))) {
+      return false;
+    }
+    seenMailIds.add(message.id);
+    if (rfcId) seenRfcIds.add(rfcId);
+    return true;
+  });
+}
+
+function chronological(messages: ThreadMessage[]): ThreadMessage[] {
+  return [...messages].sort((a, b) => compareNewestFirst(b, a));
+}
@@ -0,0 +1,206 @@
+/**
+ * New-mail watcher
+ *
+ * Polls the watched mailboxes and compares each with what it held on the
+ * previous poll to find messages that arrived, changed read or flag state,
+ * or disappeared. Every mailbox keeps a high-water mark: the latest date
+ * received it has seen, or the time of the previous poll if later. A message
+ * that turns up received before the mark was moved or restored into the
+ * mailbox rather than newly delivered.
+ */
+
+import { mailboxUri } from './mailboxes.js';
+import type { MailBackend, MessageState } from '../types.js';
+
+/**
+ * Allowance for mail whose date received lags behind its appearing in Mail
+ */
+const DELIVERY_SLACK_SECONDS = 60;
+
+/**
+ * What happened to a message:
+ *   - new: delivered since the last poll
+ *   - added: moved or restored into the mailbox
+ *   - changed: read, flag or junk state changed
+ *   - deleted: no longer in the mailbox (deleted or moved elsewhere)
+ */
+export type MailChangeKind = 'new' | 'added' | 'changed' | 'deleted';
+
+/**
+ * A change to one message, with its state after the change (or its last
+ * known state, once deleted)
+ */
+export interface MailChange extends MessageState {
+  kind: MailChangeKind;
+}
+
+/**
+ * Changes found in one mailbox by one poll
+ */
+export interface MailboxChanges {
+  account: string;
+  mailbox: string;
+  uri: string;              // mail://account/{account}/mailbox/{+path}
+  changes: MailChange[];
+}
+
+export interface MailWatcher {
+  watch(account: string, mailbox: string): () => void;   // Watch until the returned function is called
+  onChanges(listener: (changes: MailboxChanges) => void): () => void;   // Returns a function removing the listener
+  poll(): Promise<void>;
+  stop(): void;
+}
+
+interface WatchedMailbox {
+  account: string;
+  mailbox: string;
+  watchers: number;
+  snapshot?: Map<string, MessageState>;   // Unset until the first poll
+  highWater: number;
+}
+
+/**
+ * Create a watcher polling its mailboxes every `intervalMs`
+ *
+ * Polling only runs while at least one mailbox is watched. The first poll of
+ * a mailbox records what it holds without reporting anything.
+ */
+export function createMailWatcher(backend: MailBackend, intervalMs: number): MailWatcher {
+  const watched = new Map<string, WatchedMailbox>();
+  const listeners = new Set<(changes: MailboxChanges) => void>();
+  let timer: NodeJS.Timeout | undefined;
+  let polling: Promise<void> | undefined;
+
+  async function pollMailbox(entry: WatchedMailbox): Promise<void> {
+    const startedAt = Math.floor(Date.now() / 1000);
+    const states = await backend.listMessageStates(entry.mailbox, entry.account);
+    const previous = entry.snapshot;
+
+    entry.snapshot = new Map(states.map(state => [state.id, state]));
+    const changes = previous ? compareStates(previous, states, entry.highWater) : [];
+    entry.highWater = states.reduce(
+      (latest, state) => Math.max(latest, state.received),
+      Math.max(entry.highWater, startedAt - DELIVERY_SLACK_SECONDS)
+    );
+
+    if (changes.length === 0 || watched.get(mailboxKey(entry.account, entry.mailbox)) !== entry) {
+      return;
+    }
+    const batch = { account: entry.account, mailbox: entry.mailbox, uri: mailboxUri(entry.account, entry.mailbox), changes };
+    for (const listener of listeners) {
+      try {
+        listener(batch);
+      } catch (error) {
+        console.error('Mail change listener failed:', error);
+      }
+    }
+  }
+
+  async function pollAll(): Promise<void> {
+    // One mailbox at a time, since Mail handles one script at a time anyway
+    for (const entry of [...watched.values()]) {
+      try {
+        await pollMailbox(entry);
+      } catch (error) {
+        console.error(`Watching mailbox "${entry.mailbox}" of account "${entry.account}" failed:`, error);
+      }
+    }
+  }
+
+  function poll(): Promise<void> {
+    // A slow poll isn't overlapped by the next one
+    polling ??= pollAll().finally(() => {
+      polling = undefined;
+    });
+    return polling;
+  }
+
+  function stop(): void {
+    if (timer) {
+      clearInterval(timer);
+      timer = undefined;
+    }
+  }
+
+  return {
+    watch(account, mailbox): () => void {
+      const key = mailboxKey(account, mailbox);
+      const entry = watched.get(key) ?? { account, mailbox, watchers: 0, highWater: 0 };
+      entry.watchers++;
+      watched.set(key, entry);
+
+      if (!timer) {
+        timer = setInterval(() => {
+          poll().catch(error => console.error('Mail watcher poll failed:', error));
+        }, intervalMs);
+        timer.unref();
+      }
+      if (!entry.snapshot) {
+        poll().catch(error => console.error('Mail watcher poll failed:', error));
+      }
+
+      let released = false;
+      return () => {
+        if (released) return;
+        released = true;
+        if (--entry.watchers === 0) {
+          watched.delete(key);
+          if (watched.size === 0) stop();
+        }
+      };
+    },
+
+    onChanges(listener): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    poll,
+
+    stop(): void {
+      stop();
+      watched.clear();
+    }
+  };
+}
+
+// Helper functions
+
+/**
+ * Compare a mailbox's messages with those seen on the previous poll
+ *
+ * New and added messages come first, newest first, then changed and deleted ones.
+ */
+function compareStates(
+  previous: Map<string, MessageState>,
+  current: MessageState[],
+  highWater: number
+): MailChange[] {
+  const arrived: MailChange[] = [];
+  const changed: MailChange[] = [];
+  const currentIds = new Set<string>();
+
+  for (const state of current) {
+    currentIds.add(state.id);
+    const before = previous.get(state.id);
+    if (!before) {
+      arrived.push({ ...state, kind: state.received > highWater ? 'new' : 'added' });
+    } else if (before.read !== state.read || before.flagged !== state.flagged ||
+      before.flagColor !== state.flagColor || before.junk !== state.junk) {
+      changed.push({ ...state, kind: 'changed' });
+    }
+  }
+
+  const deleted: MailChange[] = [...previous.values()]
+    .filter(state => !currentIds.has(state.id))
+    .map(state => ({ ...state, kind: 'deleted' }));
+
+  arrived.sort((a, b) => b.received - a.received);
+  return [...arrived, ...changed, ...deleted];
+}
+
+function mailboxKey(account: string, mailbox: string): string {
+  return `${account}\n${mailbox.toLowerCase()}`;
+}
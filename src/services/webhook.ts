@@ -0,0 +1,95 @@
+/**
+ * Webhook delivery of mail changes
+ *
+ * Each batch of changes found by the watcher is POSTed as JSON. New and
+ * added messages carry their subject, sender and date so the receiver can
+ * decide whether to look closer without calling back. With a secret, the
+ * body is signed with HMAC-SHA256 in the X-Mail-Signature header.
+ */
+
+import { createHmac } from 'crypto';
+import type { MailboxChanges } from './watcher.js';
+import type { MailBackend } from '../types.js';
+
+/**
+ * How long the receiver gets to answer
+ */
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+export interface WebhookMessage {
+  kind: string;
+  id: string;
+  received: string;         // ISO 8601
+  read: boolean;
+  flagged: boolean;
+  flagColor?: string;
+  junk: boolean;
+  subject?: string;         // Only for new and added messages
+  sender?: string;
+  date?: string;
+}
+
+export interface WebhookPayload {
+  event: 'mail.changed';
+  account: string;
+  mailbox: string;
+  uri: string;
+  messages: WebhookMessage[];
+}
+
+/**
+ * Create a watcher listener that POSTs every batch of changes to `url`
+ *
+ * Failed deliveries are logged, not retried: the next change sends fresh state.
+ */
+export function createWebhookNotifier(
+  backend: MailBackend,
+  url: URL,
+  secret?: string
+): (changes: MailboxChanges) => void {
+  async function deliver(batch: MailboxChanges): Promise<void> {
+    const arrivedIds = batch.changes
+      .filter(change => change.kind === 'new' || change.kind === 'added')
+      .map(change => change.id);
+    const details = new Map(
+      (await backend.getMailboxMessages(batch.mailbox, batch.account, arrivedIds)).map(message => [message.id, message])
+    );
+
+    const payload: WebhookPayload = {
+      event: 'mail.changed',
+      account: batch.account,
+      mailbox: batch.mailbox,
+      uri: batch.uri,
+      messages: batch.changes.map(change => {
+        const message = details.get(change.id);
+        return {
+          kind: change.kind,
+          id: change.id,
+          received: new Date(change.received * 1000).toISOString(),
+          read: change.read,
+          flagged: change.flagged,
+          ...(change.flagColor ? { flagColor: change.flagColor } : {}),
+          junk: change.junk,
+          ...(message ? { subject: message.subject, sender: message.sender, date: message.date } : {})
+        };
+      })
+    };
+
+    const body = JSON.stringify(payload);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (secret) {
+      headers['X-Mail-Signature'] = `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+    }
+
+    const response = await fetch(url, { method: 'POST', headers, body, signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`Webhook answered with status ${response.status}`);
+    }
+  }
+
+  return batch => {
+    deliver(batch).catch(error => {
+      console.error(`Delivering mail changes to ${url.href} failed:`, error);
+    });
+  };
+}
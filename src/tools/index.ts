@@ -3,38 +3,73 @@
  */
 
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import * as mailService from '../services/mail.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
 import * as schemas from '../schemas/index.js';
+import { resolveDateExpression } from '../services/dates.js';
+import { encodeCursor, decodeCursor, encodeOffsetCursor, decodeOffsetCursor, searchFingerprint } from '../services/pagination.js';
+import { buildThread, stripQuotedText } from '../services/threads.js';
+import { attachmentDirectory, readAttachmentContent, resolveOutgoingAttachments, discardStagedAttachments } from '../services/attachments.js';
+import { htmlToMarkdown } from '../services/body.js';
+import { parseMessageBody, parseMessageHeaders } from '../services/mime.js';
+import { selectMessages, describeSelection, summarizeResults, type MessageSelection, type MessageFilter } from '../services/selection.js';
+import { normalizeMailboxPath, buildMailboxTree, resolveMailboxScope } from '../services/mailboxes.js';
+import { parseQuery, applyQuery, resolveQueryScope } from '../services/query.js';
+import { SCOPES, TOOL_SCOPES, type Scope } from '../services/auth.js';
+import { summarizeFreshness, type SearchIndex, type IndexedMailbox, type IndexedMessage } from '../services/search-index.js';
+import type { MailBackend, ContentFormat, FlagChanges, SendEmailResult } from '../types.js';
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
 
 /**
  * Register all Apple Mail tools with the MCP server
+ *
+ * Tools outside the caller's `scopes` are disabled, so the client neither
+ * sees them listed nor can call them.
  */
-export function registerTools(server: McpServer): void {
+export function registerTools(
+  server: McpServer,
+  backend: MailBackend,
+  index: SearchIndex,
+  scopes: ReadonlySet<Scope> = new Set(SCOPES)
+): void {
+  const tools = scopedTools(server, scopes);
   
   // ===== EMAIL SEARCH & READING =====
   
-  server.registerTool(
+  tools.registerTool(
     'apple_mail_search',
     {
       title: 'Search Apple Mail',
       description: `Search for emails in Apple Mail by various criteria.
 
-This tool searches through your Apple Mail messages, supporting multiple filter criteria like sender, subject, content, and mailbox. Perfect for finding specific emails, filtering by sender, or locating receipts and important messages.
+This tool searches through your Apple Mail messages, supporting multiple filter criteria like sender, subject, content, date received, and mailbox. Perfect for finding specific emails, filtering by sender, or locating receipts and important messages.
 
 Args:
+  - q (string, optional): Gmail-style query combining any of the filters below, e.g. 'from:alice subject:"Q3 report" has:attachment is:unread after:2026-01-01 -label:Newsletters (invoice OR receipt)'. Terms must all match; words and "phrases" match subject and content. Operators: from:, to:, subject:, has:attachment, is:unread|read|flagged|unflagged|junk, flag:<color>, in: / label: / mailbox: <path>, account:, after:/before: <date> (before: excludes the day), newer_than:/older_than: <N>h|d|w|m|y. Negate with -term or NOT, combine with OR and group with parentheses. Mailbox names in q resolve like the mailbox filter; without a mailbox filter, in: or account: under OR or NOT searches every mailbox rather than just the inbox (e.g. 'in:INBOX OR in:Sent'). Can be used together with the other filters
   - query (string, optional): General search text to match against subject and content
   - sender (string, optional): Filter by sender email or name
   - subject (string, optional): Filter by subject line (partial match)
-  - mailbox (string, optional): Mailbox name (e.g., 'INBOX', 'Sent', 'Receipts')
-  - account (string, optional): Account name to search within
+  - date_from (string, optional): Received on or after this date. Accepts 'YYYY-MM-DD', an ISO date-time, 'today', 'yesterday', or 'last_N_hours' / 'last_N_days' / 'last_N_weeks'
+  - date_to (string, optional): Received before the end of this date (same formats as date_from)
+  - mailbox (string, optional): Mailbox path (e.g., 'INBOX', 'Receipts', 'Projects/2026/Acme'); a bare name works when it's unique
+  - account (string, optional): Account name to search within; needed when the mailbox exists in several accounts
   - unread_only (boolean): Only return unread emails (default: false)
-  - limit (number): Maximum results to return, 1-100 (default: 50)
+  - flagged_only (boolean): Only return flagged emails (default: false)
+  - flag_color (string, optional): Only return emails flagged with this color ('red', 'orange', 'yellow', 'green', 'blue', 'purple', 'gray')
+  - limit (number): Maximum results per page, 1-100 (default: 50)
+  - cursor (string, optional): next_cursor from a previous call, to fetch the next page. All other parameters must be repeated unchanged.
+  - use_index (boolean): Search the local index instead of asking Mail (default: false). Much faster on large mailboxes, searches every account and mailbox unless mailbox/account are given, and ranks results by relevance. In query, words must all match, "quoted text" matches a phrase and word* matches a prefix. Reflects mail as of each mailbox's last apple_mail_refresh_index.
+
+Results are ordered newest first by date received; with use_index and a query, most relevant first.
 
 Returns:
   JSON object with schema:
   {
-    "count": number,              // Number of emails found
+    "count": number,              // Number of emails in this page
+    "total_matched": number,      // Number of matching emails across all pages
+    "has_more": boolean,          // Whether another page follows
+    "next_cursor": string | null, // Pass as cursor to fetch the next page
     "query": string,              // Original search query
     "emails": [
       {
@@ -44,18 +79,39 @@ Returns:
         "date": string,           // Date received
         "read": boolean,          // Whether email has been read
         "flagged": boolean,       // Whether email is flagged
+        "flagColor": string,      // Flag color (if flagged)
+        "mailbox": string,        // Mailbox path (use_index only)
+        "account": string,        // Account name (use_index only)
+        "score": number,          // Relevance, higher is better (use_index with a query only)
         "content": string         // Email body (first 500 chars)
       }
-    ]
+    ],
+    "index": {                    // Freshness of the mailboxes searched (use_index only)
+      "mailboxes": number,
+      "messages": number,
+      "oldestRefresh": string,    // ISO 8601
+      "newestRefresh": string
+    }
   }
 
 Examples:
+  - Query language: {"q": "from:alice has:attachment newer_than:30d (invoice OR receipt) -in:Newsletters"}
   - Find receipts: {"query": "receipt", "unread_only": true}
   - Emails from boss: {"sender": "boss@company.com", "limit": 20}
   - Search in folder: {"mailbox": "Work", "subject": "meeting"}
+  - New since yesterday: {"date_from": "yesterday"}
+  - Follow-up queue: {"flag_color": "orange", "account": "Work"}
+  - Last week's invoices: {"query": "invoice", "date_from": "last_7_days"}
+  - Specific month: {"date_from": "2026-01-01", "date_to": "2026-01-31"}
+  - Next page: {"query": "receipt", "cursor": "<next_cursor from previous call>"}
+  - Everywhere, ranked: {"query": "\"quarterly report\" budg*", "use_index": true}
   
 Error Handling:
   - Returns empty results if no matches found
+  - Returns error pointing at the position of the problem if q is not a valid query
+  - Returns error if date_from is after date_to
+  - Returns error if the cursor is invalid or was issued for different search parameters
+  - Returns error with use_index if nothing in scope has been indexed yet
   - Returns error if Apple Mail is not accessible`,
       inputSchema: schemas.SearchEmailsSchema,
       annotations: {
@@ -68,15 +124,50 @@ Error Handling:
     // @ts-expect-error - Complex Zod schema types cause TypeScript to hit type instantiation depth limit
     async (params: schemas.SearchEmailsInput): Promise<CallToolResult> => {
       try {
-        const emails = await mailService.searchEmails({
+        const dateFrom = params.date_from ? resolveDateExpression(params.date_from, 'from') : undefined;
+        const dateTo = params.date_to ? resolveDateExpression(params.date_to, 'to') : undefined;
+        
+        if (dateFrom && dateTo && dateFrom >= dateTo) {
+          throw new Error(`date_from (${params.date_from}) must be before date_to (${params.date_to})`);
+        }
+        
+        // Cursors are only valid for the search that issued them
+        const { cursor, limit, ...filters } = params;
+        const fingerprint = searchFingerprint(filters);
+        const filter = withQuery({
           query: params.query,
           sender: params.sender,
           subject: params.subject,
+          dateFrom,
+          dateTo,
           mailbox: params.mailbox,
           account: params.account,
           unreadOnly: params.unread_only,
-          limit: params.limit
-        });
+          flaggedOnly: params.flagged_only,
+          flagColor: params.flag_color
+        }, params.q);
+        const search = { ...await resolveQueryScope(backend, filter), limit };
+        
+        let emails: IndexedMessage[];
+        let totalMatched: number;
+        let nextCursor: string | null;
+        let indexed: IndexedMailbox[] | undefined;
+        
+        if (params.use_index) {
+          const result = index.search({ ...search, offset: cursor ? decodeOffsetCursor(cursor, fingerprint) : 0 });
+          if (result.mailboxes.length === 0) {
+            throw new Error('No mailboxes in this scope have been indexed yet; run apple_mail_refresh_index first');
+          }
+          emails = result.emails;
+          totalMatched = result.totalMatched;
+          nextCursor = result.nextOffset !== undefined ? encodeOffsetCursor(result.nextOffset, fingerprint) : null;
+          indexed = result.mailboxes;
+        } else {
+          const result = await backend.searchEmails({ ...search, after: cursor ? decodeCursor(cursor, fingerprint) : undefined });
+          emails = result.emails;
+          totalMatched = result.totalMatched;
+          nextCursor = result.next ? encodeCursor(result.next, fingerprint) : null;
+        }
         
         // Truncate content for search results
         const truncatedEmails = emails.map(email => ({
@@ -86,13 +177,19 @@ Error Handling:
           date: email.date,
           read: email.read,
           flagged: email.flagged,
+          flagColor: email.flagColor,
+          ...(indexed ? { mailbox: email.mailbox, account: email.account, score: email.score } : {}),
           content: email.content.substring(0, 500) + (email.content.length > 500 ? '...' : '')
         }));
         
         const output = {
           count: emails.length,
-          query: params.query || 'all',
-          emails: truncatedEmails
+          total_matched: totalMatched,
+          has_more: nextCursor !== null,
+          next_cursor: nextCursor,
+          query: params.q || params.query || 'all',
+          emails: truncatedEmails,
+          ...(indexed ? { index: summarizeFreshness(indexed) } : {})
         };
         
         return {
@@ -117,7 +214,7 @@ Error Handling:
     }
   );
   
-  server.registerTool(
+  tools.registerTool(
     'apple_mail_get_email',
     {
       title: 'Get Email Details',
@@ -127,8 +224,9 @@ This tool retrieves the complete information for a single email message, includi
 
 Args:
   - message_id (string): Message ID from search results
-  - mailbox (string, optional): Mailbox name for faster lookup
+  - mailbox (string, optional): Mailbox path for faster lookup (e.g., 'INBOX', 'Projects/2026/Acme')
   - account (string, optional): Account name for faster lookup
+  - content_format ('plain' | 'html' | 'markdown'): Body format (default: 'plain'). 'html' returns the raw HTML part; 'markdown' converts it to sanitized markdown, keeping links and tables
 
 Returns:
   JSON object with schema:
@@ -140,19 +238,24 @@ Returns:
     "date": string,               // Date received
     "read": boolean,              // Read status
     "flagged": boolean,           // Flagged status
-    "mailbox": string,            // Mailbox name
+    "flagColor": string,          // Flag color (if flagged)
+    "junk": boolean,              // Junk status
+    "mailbox": string,            // Mailbox path
     "account": string,            // Account name
     "hasAttachments": boolean,    // Whether email has attachments
     "attachmentCount": number,    // Number of attachments
-    "content": string             // Full email body
+    "content": string,            // Full email body
+    "contentFormat": string       // Format of content ('plain' if the message has no HTML part)
   }
 
 Examples:
   - Get email details: {"message_id": "12345"}
   - With mailbox hint: {"message_id": "12345", "mailbox": "INBOX"}
+  - Newsletter with links and tables: {"message_id": "12345", "content_format": "markdown"}
 
 Error Handling:
   - Returns null if message not found
+  - Returns error if the mailbox is not found, or exists in several accounts and no account is given
   - Returns error if Apple Mail is not accessible`,
       inputSchema: schemas.GetEmailSchema,
       annotations: {
@@ -165,10 +268,11 @@ Error Handling:
     // @ts-expect-error - Complex Zod schema types cause TypeScript to hit type instantiation depth limit
     async (params: schemas.GetEmailInput): Promise<CallToolResult> => {
       try {
-        const email = await mailService.getEmailById(
+        const scope = await resolveMailboxScope(backend, params.mailbox, params.account);
+        const email = await backend.getEmailById(
           params.message_id,
-          params.mailbox,
-          params.account
+          scope.mailbox,
+          scope.account
         );
         
         if (!email) {
@@ -181,14 +285,26 @@ Error Handling:
           };
         }
         
+        const output = { ...email, contentFormat: 'plain' as ContentFormat };
+        
+        // Rich formats come from the message's HTML part; plain-only messages keep Mail's text
+        if (params.content_format !== 'plain') {
+          const source = await backend.getMessageSource(params.message_id);
+          const { html } = source ? await parseMessageBody(source) : {};
+          if (html) {
+            output.content = params.content_format === 'html' ? html : htmlToMarkdown(html);
+            output.contentFormat = params.content_format;
+          }
+        }
+        
         return {
           content: [
             {
               type: 'text' as const,
-              text: JSON.stringify(email, null, 2)
+              text: JSON.stringify(output, null, 2)
             }
           ],
-          structuredContent: email as unknown as { [x: string]: unknown }
+          structuredContent: output as unknown as { [x: string]: unknown }
         };
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : 'Unknown error';
@@ -203,24 +319,235 @@ Error Handling:
     }
   );
   
-  server.registerTool(
+  tools.registerTool(
+    'apple_mail_get_thread',
+    {
+      title: 'Get Conversation Thread',
+      description: `Get every message in the conversation that a message belongs to.
+
+This tool finds all messages in the same conversation across all mailboxes and accounts (including Sent), ordered oldest to newest. Messages are grouped using their Message-ID, In-Reply-To and References headers; if the message has no header links, messages with the same subject (ignoring Re:/Fwd: prefixes) are used instead. Quoted replies are stripped from each message so every part of the conversation appears once.
+
+Args:
+  - message_id (string): ID of any message in the conversation
+  - include_quoted (boolean): Keep quoted text in message bodies (default: false)
+
+Returns:
+  JSON object with schema:
+  {
+    "messageId": string,          // The requested message ID
+    "subject": string,            // Subject of the requested message
+    "count": number,              // Number of messages in the thread
+    "groupedBy": string,          // "headers" or "subject" (fallback)
+    "participants": string[],     // Distinct senders, in order of first message
+    "messages": [
+      {
+        "id": string,             // Message ID for use in other tools
+        "date": string,           // Date received
+        "sender": string,         // Sender
+        "recipients": string[],   // To recipients
+        "mailbox": string,        // Mailbox the message is in
+        "account": string,        // Account the message is in
+        "read": boolean,          // Read status
+        "content": string         // Body without quoted text (first 2000 chars)
+      }
+    ]
+  }
+
+Examples:
+  - Get a thread: {"message_id": "12345"}
+  - Keep quoted text: {"message_id": "12345", "include_quoted": true}
+
+Error Handling:
+  - Returns error if message not found
+  - Returns error if Apple Mail is not accessible`,
+      inputSchema: schemas.GetThreadSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    // @ts-expect-error - Complex Zod schema types cause TypeScript to hit type instantiation depth limit
+    async (params: schemas.GetThreadInput): Promise<CallToolResult> => {
+      try {
+        const found = await backend.findThreadCandidates(params.message_id);
+        
+        if (!found) {
+          return {
+            content: [{
+              type: 'text' as const,
+              text: `Email with ID ${params.message_id} not found`
+            }],
+            isError: true
+          };
+        }
+        
+        const thread = buildThread(found.seed, found.candidates);
+        
+        const messages = thread.messages.map(message => {
+          const content = params.include_quoted ? message.content : stripQuotedText(message.content);
+          return {
+            id: message.id,
+            date: message.date,
+            sender: message.sender,
+            recipients: message.recipients || [],
+            mailbox: message.mailbox,
+            account: message.account,
+            read: message.read,
+            content: content.substring(0, 2000) + (content.length > 2000 ? '...' : '')
+          };
+        });
+        
+        const output = {
+          messageId: params.message_id,
+          subject: found.seed.subject,
+          count: messages.length,
+          groupedBy: thread.groupedBy,
+          participants: [...new Set(messages.map(message => message.sender))],
+          messages
+        };
+        
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(output, null, 2)
+            }
+          ],
+          structuredContent: output
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Error getting thread: ${errorMsg}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  tools.registerTool(
+    'apple_mail_get_headers',
+    {
+      title: 'Get Email Headers and Source',
+      description: `Get the full parsed headers of an email, and optionally its raw RFC 822 source.
+
+This tool reads the message source and parses every header, decoding the ones agents most often need: threading IDs, unsubscribe links, sender authentication results and the Received chain. Useful for checking whether a message is spoofed, finding how to unsubscribe, or tracing delivery.
+
+Args:
+  - message_id (string): Message ID from search results
+  - include_source (boolean): Also return the raw RFC 822 source (default: false)
+
+Returns:
+  JSON object with schema:
+  {
+    "id": string,                       // Message ID
+    "messageId": string,                // Message-ID header, without angle brackets
+    "inReplyTo": string,                // In-Reply-To header (if present)
+    "references": string[],             // References header
+    "subject": string,                  // Decoded subject
+    "from": string,                     // From header
+    "to": string,                       // To header
+    "cc": string,                       // Cc header (if present)
+    "date": string,                     // Date header (ISO 8601)
+    "listUnsubscribe": {                // List-Unsubscribe (if present)
+      "urls": string[],                 // http(s) links
+      "mailto": string[],               // mailto: addresses
+      "oneClick": boolean               // RFC 8058 one-click unsubscribe supported
+    },
+    "authenticationResults": [          // One entry per method result
+      { "authservId": string, "method": string, "result": string }
+    ],
+    "received": [                       // Delivery hops, most recent first
+      { "from": string, "by": string, "with": string, "id": string, "for": string, "date": string, "raw": string }
+    ],
+    "headers": { [name: string]: string[] },  // Every header by lower-cased name, unfolded raw values
+    "source": string                    // Raw RFC 822 source (only with include_source)
+  }
+
+Examples:
+  - Check authentication: {"message_id": "12345"}
+  - Get raw source: {"message_id": "12345", "include_source": true}
+
+Error Handling:
+  - Returns error if message not found
+  - Returns error if Apple Mail is not accessible`,
+      inputSchema: schemas.GetHeadersSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    // @ts-expect-error - Complex Zod schema types cause TypeScript to hit type instantiation depth limit
+    async (params: schemas.GetHeadersInput): Promise<CallToolResult> => {
+      try {
+        const source = await backend.getMessageSource(params.message_id);
+        
+        if (source === null) {
+          return {
+            content: [{
+              type: 'text' as const,
+              text: `Email with ID ${params.message_id} not found`
+            }],
+            isError: true
+          };
+        }
+        
+        const output = {
+          id: params.message_id,
+          ...await parseMessageHeaders(source),
+          ...(params.include_source ? { source } : {})
+        };
+        
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(output, null, 2)
+            }
+          ],
+          structuredContent: output
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Error getting headers: ${errorMsg}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  tools.registerTool(
     'apple_mail_list_mailboxes',
     {
       title: 'List Mailboxes',
-      description: `Get a list of all mailboxes/folders across all accounts.
+      description: `Get the tree of mailboxes/folders across all accounts.
 
-This tool retrieves all available mailboxes in Apple Mail, including folder names, associated accounts, and message counts. Useful for understanding mail organization and choosing targets for search or move operations.
+This tool retrieves all available mailboxes in Apple Mail, including nested folders at any depth, their full paths, associated accounts, and message counts. Useful for understanding mail organization and choosing targets for search or move operations. Pass a mailbox's path (e.g. 'Projects/2026/Acme') wherever a tool takes a mailbox.
 
 Returns:
   JSON object with schema:
   {
-    "count": number,              // Total number of mailboxes
-    "mailboxes": [
+    "count": number,              // Total number of mailboxes, at any depth
+    "mailboxes": [                // Top-level mailboxes of every account
       {
         "name": string,           // Mailbox/folder name
+        "path": string,           // Full path within the account, e.g. "Projects/2026/Acme"
+        "parent": string,         // Path of the parent mailbox (nested mailboxes only)
         "account": string,        // Associated account name
         "unreadCount": number,    // Number of unread messages
-        "totalCount": number      // Total messages in mailbox
+        "totalCount": number,     // Total messages in mailbox
+        "children": [...]         // Nested mailboxes, same shape
       }
     ]
   }
@@ -239,11 +566,11 @@ Error Handling:
     },
     async (): Promise<CallToolResult> => {
       try {
-        const mailboxes = await mailService.listMailboxes();
+        const mailboxes = await backend.listMailboxes();
         
         const output = {
           count: mailboxes.length,
-          mailboxes
+          mailboxes: buildMailboxTree(mailboxes)
         };
         
         return {
@@ -268,7 +595,7 @@ Error Handling:
     }
   );
   
-  server.registerTool(
+  tools.registerTool(
     'apple_mail_get_attachments',
     {
       title: 'Get Email Attachments',
@@ -287,8 +614,9 @@ Returns:
     "attachments": [
       {
         "name": string,           // Attachment filename
-        "size": number,           // File size (if available)
-        "type": string            // File type (if available)
+        "mimeType": string,       // MIME type, e.g. "application/pdf" (if available)
+        "size": number,           // File size in bytes (if available)
+        "downloaded": boolean     // Whether Mail has downloaded the file (if available)
       }
     ]
   }
@@ -296,6 +624,8 @@ Returns:
 Examples:
   - List attachments: {"message_id": "12345"}
 
+Use apple_mail_save_attachment to save attachments to disk or read their content.
+
 Error Handling:
   - Returns empty array if no attachments
   - Returns error if message not found or Apple Mail is not accessible`,
@@ -310,7 +640,7 @@ Error Handling:
     // @ts-expect-error - Complex Zod schema types cause TypeScript to hit type instantiation depth limit
     async (params: schemas.GetAttachmentsInput): Promise<CallToolResult> => {
       try {
-        const attachments = await mailService.getAttachments(params.message_id);
+        const attachments = await backend.getAttachments(params.message_id);
         
         const output = {
           count: attachments.length,
@@ -340,37 +670,48 @@ Error Handling:
     }
   );
   
-  // ===== EMAIL MANAGEMENT =====
-  
-  server.registerTool(
-    'apple_mail_move_email',
+  tools.registerTool(
+    'apple_mail_save_attachment',
     {
-      title: 'Move Email to Folder',
-      description: `Move an email to a different mailbox/folder.
+      title: 'Save Email Attachment',
+      description: `Save one or all attachments of an email to disk, optionally returning their content.
 
-This tool moves an email from its current location to a different mailbox. Useful for organizing emails, filing receipts, or archiving messages.
+Files are saved to a subdirectory per message of the configured attachment directory (MAIL_ATTACHMENT_DIR, default ~/Downloads/apple-mail-mcp). Attachment names are sanitized so files can never be written outside that directory; attachments sharing a name get a numbered suffix.
 
 Args:
-  - message_id (string): Message ID to move
-  - target_mailbox (string): Destination mailbox name (e.g., 'Archive', 'Receipts')
-  - target_account (string, optional): Destination account if moving between accounts
+  - message_id (string): Message ID from search results
+  - name (string, optional): Attachment filename to save (omit to save all)
+  - return_content (boolean): Also return file content (default: false)
 
 Returns:
   JSON object with schema:
   {
-    "success": boolean,           // Whether move succeeded
+    "count": number,              // Number of attachments saved
     "messageId": string,          // Original message ID
-    "targetMailbox": string       // Destination mailbox
+    "directory": string,          // Directory the files were saved to
+    "saved": [
+      {
+        "name": string,           // Attachment filename
+        "path": string,           // Absolute path of the saved file
+        "mimeType": string,       // MIME type (if available)
+        "size": number            // File size in bytes (if available)
+      }
+    ]
   }
 
+  With return_content, each file follows as an additional content item: text
+  files as embedded text resources, PDFs as their extracted text, images as
+  image content, and other or very large files as resource links.
+
 Examples:
-  - Archive email: {"message_id": "12345", "target_mailbox": "Archive"}
-  - Move to receipts: {"message_id": "67890", "target_mailbox": "Receipts"}
+  - Save all attachments: {"message_id": "12345"}
+  - Read a PDF: {"message_id": "12345", "name": "invoice.pdf", "return_content": true}
 
 Error Handling:
-  - Returns success: false if move fails
-  - Returns error if message or mailbox not found`,
-      inputSchema: schemas.MoveEmailSchema,
+  - Returns error if the named attachment does not exist (nothing is written)
+  - Returns error if the message ID contains path characters
+  - Returns error if message not found or Apple Mail is not accessible`,
+      inputSchema: schemas.SaveAttachmentSchema,
       annotations: {
         readOnlyHint: false,
         destructiveHint: false,
@@ -379,27 +720,36 @@ Error Handling:
       }
     },
     // @ts-expect-error - Complex Zod schema types cause TypeScript to hit type instantiation depth limit
-    async (params: schemas.MoveEmailInput): Promise<CallToolResult> => {
+    async (params: schemas.SaveAttachmentInput): Promise<CallToolResult> => {
       try {
-        const success = await mailService.moveEmail(
+        const directory = attachmentDirectory(params.message_id);
+        const saved = await backend.saveAttachments(
           params.message_id,
-          params.target_mailbox,
-          params.target_account
+          directory,
+          params.name !== undefined ? [params.name] : undefined
         );
         
         const output = {
-          success,
+          count: saved.length,
           messageId: params.message_id,
-          targetMailbox: params.target_mailbox
+          directory,
+          saved
         };
         
+        const content: CallToolResult['content'] = [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(output, null, 2)
+          }
+        ];
+        if (params.return_content) {
+          for (const attachment of saved) {
+            content.push(await readAttachmentContent(attachment));
+          }
+        }
+        
         return {
-          content: [
-            {
-              type: 'text' as const,
-              text: JSON.stringify(output, null, 2)
-            }
-          ],
+          content,
           structuredContent: output
         };
       } catch (error) {
@@ -407,7 +757,7 @@ Error Handling:
         return {
           content: [{
             type: 'text' as const,
-            text: `Error moving email: ${errorMsg}`
+            text: `Error saving attachments: ${errorMsg}`
           }],
           isError: true
         };
@@ -415,34 +765,53 @@ Error Handling:
     }
   );
   
-  server.registerTool(
-    'apple_mail_mark_read',
+  // ===== SEARCH INDEX =====
+  
+  tools.registerTool(
+    'apple_mail_refresh_index',
     {
-      title: 'Mark Email Read/Unread',
-      description: `Mark an email as read or unread.
+      title: 'Refresh Search Index',
+      description: `Bring the local search index up to date with Mail.
 
-This tool changes the read status of an email. Useful for marking important emails as unread for follow-up or marking batch emails as read.
+The index lets apple_mail_search (with use_index) run fast, ranked full-text searches across every account. Each mailbox is refreshed incrementally: new messages are fetched and indexed, messages that were moved or deleted are dropped, and read, flag and junk state is updated. The first refresh of a large mailbox can take several minutes; later ones only fetch what changed. If the request carries a progress token, a progress notification is sent as each mailbox finishes.
 
 Args:
-  - message_id (string): Message ID to update
-  - read (boolean): true to mark as read, false to mark as unread
+  - mailbox (string, optional): Only refresh this mailbox path (default: every mailbox)
+  - account (string, optional): Only refresh mailboxes of this account
+  - max_age_minutes (number, optional): Skip mailboxes refreshed within this many minutes
 
 Returns:
   JSON object with schema:
   {
-    "success": boolean,           // Whether update succeeded
-    "messageId": string,          // Original message ID
-    "read": boolean               // New read status
+    "success": boolean,           // Whether every mailbox was refreshed
+    "added": number,              // Messages indexed
+    "removed": number,            // Messages dropped from the index
+    "updated": number,            // Indexed messages whose read, flag or junk state changed
+    "mailboxes": [
+      {
+        "account": string,
+        "mailbox": string,        // Mailbox path
+        "messageCount": number,   // Messages now indexed
+        "indexedAt": string,      // Last refresh (ISO 8601)
+        "added": number,
+        "removed": number,
+        "updated": number,
+        "skipped": boolean,       // Left alone because of max_age_minutes
+        "error": string           // Set if the mailbox couldn't be read
+      }
+    ]
   }
 
 Examples:
-  - Mark as read: {"message_id": "12345", "read": true}
-  - Mark as unread: {"message_id": "67890", "read": false}
+  - Index everything: {}
+  - Keep one account fresh: {"account": "Work", "max_age_minutes": 15}
+  - Just the inbox of one account: {"mailbox": "INBOX", "account": "Work"}
 
 Error Handling:
-  - Returns success: false if update fails
-  - Returns error if message not found`,
-      inputSchema: schemas.SetReadStatusSchema,
+  - Mailboxes that can't be read are reported in mailboxes and keep their previous entries
+  - Returns error if the mailbox is not found, or exists in several accounts and no account is given
+  - Returns error if Apple Mail is not accessible`,
+      inputSchema: schemas.RefreshIndexSchema,
       annotations: {
         readOnlyHint: false,
         destructiveHint: false,
@@ -451,17 +820,29 @@ Error Handling:
       }
     },
     // @ts-expect-error - Complex Zod schema types cause TypeScript to hit type instantiation depth limit
-    async (params: schemas.SetReadStatusInput): Promise<CallToolResult> => {
+    async (params: schemas.RefreshIndexInput, extra: ToolExtra): Promise<CallToolResult> => {
       try {
-        const success = await mailService.setReadStatus(
-          params.message_id,
-          params.read
-        );
+        const scope = await resolveMailboxScope(backend, params.mailbox, params.account);
+        const progressToken = extra._meta?.progressToken;
+        const results = await index.refresh(backend, {
+          mailbox: scope.mailbox,
+          account: scope.account,
+          maxAge: params.max_age_minutes !== undefined ? params.max_age_minutes * 60 : undefined,
+          // Clients that ask for progress hear about each mailbox as it's done
+          onProgress: progressToken === undefined ? undefined : (done, total, result) => {
+            extra.sendNotification({
+              method: 'notifications/progress',
+              params: { progressToken, progress: done, total, message: `${result.account}: ${result.mailbox}` }
+            }).catch(() => undefined);
+          }
+        });
         
         const output = {
-          success,
-          messageId: params.message_id,
-          read: params.read
+          success: results.every(result => !result.error),
+          added: results.reduce((total, result) => total + result.added, 0),
+          removed: results.reduce((total, result) => total + result.removed, 0),
+          updated: results.reduce((total, result) => total + result.updated, 0),
+          mailboxes: results
         };
         
         return {
@@ -478,7 +859,7 @@ Error Handling:
         return {
           content: [{
             type: 'text' as const,
-            text: `Error updating read status: ${errorMsg}`
+            text: `Error refreshing search index: ${errorMsg}`
           }],
           isError: true
         };
@@ -486,78 +867,51 @@ Error Handling:
     }
   );
   
-  // ===== EMAIL CREATION =====
-  
-  server.registerTool(
-    'apple_mail_create_draft',
+  tools.registerTool(
+    'apple_mail_index_status',
     {
-      title: 'Create Draft Email',
-      description: `Create a new draft email in Apple Mail.
+      title: 'Search Index Status',
+      description: `Show how fresh the local search index is, per mailbox.
 
-This tool creates a draft email that can be reviewed and edited in Apple Mail before sending. The draft is saved but not sent, giving you full control over when to send it.
+Use this to decide whether to call apple_mail_refresh_index before searching with use_index. Mailboxes that have never been indexed are not listed.
 
 Args:
-  - subject (string): Email subject line
-  - to (string[]): List of recipient email addresses (required)
-  - cc (string[], optional): CC recipients
-  - bcc (string[], optional): BCC recipients
-  - content (string): Email body content
-  - account (string, optional): Account to create draft in (uses default if not specified)
+  - account (string, optional): Only report mailboxes of this account
 
 Returns:
   JSON object with schema:
   {
-    "success": boolean,           // Whether draft was created
-    "messageId": string,          // Draft message ID
-    "subject": string,            // Email subject
-    "recipientCount": number      // Total number of recipients
+    "mailboxes": number,          // Mailboxes indexed
+    "messages": number,           // Messages indexed
+    "oldestRefresh": string,      // Least recently refreshed mailbox (ISO 8601)
+    "newestRefresh": string,      // Most recently refreshed mailbox
+    "indexed": [
+      { "account": string, "mailbox": string, "messageCount": number, "indexedAt": string }
+    ]
   }
 
 Examples:
-  - Simple draft: {
-      "subject": "Meeting Follow-up",
-      "to": ["colleague@company.com"],
-      "content": "Thanks for the great meeting today..."
-    }
-  - With CC: {
-      "subject": "Project Update",
-      "to": ["team@company.com"],
-      "cc": ["manager@company.com"],
-      "content": "Here's the latest progress..."
-    }
+  - Everything: {}
+  - One account: {"account": "Work"}
 
 Error Handling:
-  - Returns error if recipient email addresses are invalid
-  - Returns error if Apple Mail is not accessible`,
-      inputSchema: schemas.CreateDraftSchema,
+  - Returns error if the index database can't be opened`,
+      inputSchema: schemas.IndexStatusSchema,
       annotations: {
-        readOnlyHint: false,
+        readOnlyHint: true,
         destructiveHint: false,
-        idempotentHint: false,
+        idempotentHint: true,
         openWorldHint: false
       }
     },
     // @ts-expect-error - Complex Zod schema types cause TypeScript to hit type instantiation depth limit
-    async (params: schemas.CreateDraftInput): Promise<CallToolResult> => {
+    async (params: schemas.IndexStatusInput): Promise<CallToolResult> => {
       try {
-        const messageId = await mailService.createDraft({
-          subject: params.subject,
-          to: params.to,
-          cc: params.cc,
-          bcc: params.bcc,
-          content: params.content,
-          account: params.account
-        });
-        
-        const recipientCount = params.to.length + 
-                             (params.cc?.length || 0) + 
-                             (params.bcc?.length || 0);
+        const indexed = index.mailboxes(params.account);
         
         const output = {
-          success: true,
-          messageId,
-          subject: params.subject,
-          recipientCount
+          ...summarizeFreshness(indexed),
+          indexed
         };
         
         return {
@@ -574,7 +928,7 @@ Error Handling:
         return {
           content: [{
             type: 'text' as const,
-            text: `Error creating draft: ${errorMsg}`
+            text: `Error reading search index status: ${errorMsg}`
           }],
           isError: true
         };
@@ -582,44 +936,896 @@ Error Handling:
     }
   );
   
-  server.registerTool(
-    'apple_mail_send_email',
+  // ===== EMAIL MANAGEMENT =====
+  
+  tools.registerTool(
+    'apple_mail_move_email',
     {
-      title: 'Send Email',
-      description: `Send an email immediately through Apple Mail.
+      title: 'Move Emails to Folder',
+      description: `Move one or more emails to a different mailbox/folder.
 
-IMPORTANT: This tool sends emails immediately without further confirmation. Use with caution and only when you're certain the email should be sent.
+This tool moves emails from their current location to a different mailbox. Useful for organizing emails, filing receipts, or archiving messages in bulk.
 
-This tool creates and sends an email in one operation. For drafts that need review before sending, use apple_mail_create_draft instead.
+All messages are updated in a single batched operation. Give exactly one of message_id, message_ids or filter.
 
 Args:
-  - subject (string): Email subject line
-  - to (string[]): List of recipient email addresses (required)
-  - cc (string[], optional): CC recipients
-  - bcc (string[], optional): BCC recipients
-  - content (string): Email body content
-  - account (string, optional): Account to send from (uses default if not specified)
+  - message_id (string, optional): Single message ID
+  - message_ids (string[], optional): Up to 500 message IDs
+  - filter (object, optional): Search filters selecting the messages, with the same fields as apple_mail_search (q, query, sender, subject, date_from, date_to, mailbox, account, unread_only, flagged_only, flag_color)
+  - limit (number): Maximum messages a filter may select, 1-500 (default: 100)
+  - dry_run (boolean): List the messages that would be affected without changing anything (default: false)
+  - target_mailbox (string): Destination mailbox path (e.g., 'Archive', 'Projects/2026/Acme'); a bare name works when it's unique
+  - target_account (string, optional): Destination account if moving between accounts
+  - create_if_missing (boolean): Create the target mailbox (and any missing parents) in target_account if it doesn't exist; requires target_account (default: false)
 
 Returns:
   JSON object with schema:
   {
-    "success": boolean,           // Whether email was sent
-    "messageId": string,          // Sent message ID (if successful)
-    "error": string,              // Error message (if failed)
-    "subject": string,            // Email subject
-    "recipientCount": number      // Total number of recipients
+    "success": boolean,           // Whether every message was updated
+    "dryRun": boolean,            // Whether this was a dry run
+    "matched": number,            // Number of messages selected
+    "truncated": boolean,         // Whether the filter matched more than limit messages
+    "succeeded": number,          // Number of messages updated
+    "failed": number,             // Number of messages that could not be updated
+    "results": [                  // One entry per message
+      { "messageId": string, "success": boolean, "error": string }
+    ],
+    "targetMailbox": string,      // Path of the destination mailbox
+    "targetAccount": string,      // Account of the destination mailbox
+    "mailboxCreated": boolean     // Whether create_if_missing created the mailbox
   }
 
+  With dry_run, "succeeded", "failed" and "results" are replaced by
+  "messages" (id, subject, sender, date, read, flagged of each selected
+  message) and "notFound" (IDs that don't exist).
+
 Examples:
-  - Send email: {
-      "subject": "Quick Question",
-      "to": ["colleague@company.com"],
-      "content": "Could you send me the report?"
-    }
+  - Archive one email: {"message_id": "12345", "target_mailbox": "Archive"}
+  - Move several: {"message_ids": ["12345", "67890"], "target_mailbox": "Receipts"}
+  - Preview archiving newsletters: {"filter": {"sender": "news@example.com"}, "target_mailbox": "Archive", "dry_run": true}
+  - File into a new folder: {"message_id": "12345", "target_mailbox": "Projects/Apollo", "target_account": "Work", "create_if_missing": true}
+
+Error Handling:
+  - Failures on individual messages (e.g. not found) are reported in results without stopping the batch
+  - Returns error if the target mailbox is not found and create_if_missing is false
+  - Returns error if target_mailbox exists in several accounts and target_account is not given
+  - Returns error if create_if_missing is set without target_account
+  - Returns error if Apple Mail is not accessible`,
+      inputSchema: schemas.MoveEmailSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    // @ts-expect-error - Complex Zod schema types cause TypeScript to hit type instantiation depth limit
+    async (params: schemas.MoveEmailInput): Promise<CallToolResult> => {
+      try {
+        if (params.create_if_missing && !params.target_account) {
+          throw new Error('create_if_missing requires target_account');
+        }
+        
+        const selected = await selectMessages(backend, toSelection(params));
+        
+        // Resolved up front so that a dry run also reports a missing or ambiguous target
+        const target = params.create_if_missing
+          ? { mailbox: normalizeMailboxPath(params.target_mailbox), account: params.target_account }
+          : await resolveMailboxScope(backend, params.target_mailbox, params.target_account);
+        const targetMailbox = target.mailbox!;
+        
+        // Only created once there is something to move into it
+        const mailboxCreated = params.create_if_missing && !params.dry_run && selected.messageIds.length > 0
+          ? await backend.createMailbox(target.account!, targetMailbox)
+          : false;
+        
+        const output = params.dry_run
+          ? { ...await describeSelection(backend, selected), targetMailbox, targetAccount: target.account }
+          : {
+            ...summarizeResults(selected, await backend.moveEmails(selected.messageIds, targetMailbox, target.account)),
+            targetMailbox,
+            targetAccount: target.account,
+            mailboxCreated
+          };
+        
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(output, null, 2)
+            }
+          ],
+          structuredContent: output
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Error moving emails: ${errorMsg}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  tools.registerTool(
+    'apple_mail_mark_read',
+    {
+      title: 'Mark Emails Read/Unread',
+      description: `Mark one or more emails as read or unread.
+
+This tool changes the read status of emails. Useful for marking important emails as unread for follow-up or marking batches of emails as read.
+
+All messages are updated in a single batched operation. Give exactly one of message_id, message_ids or filter.
+
+Args:
+  - message_id (string, optional): Single message ID
+  - message_ids (string[], optional): Up to 500 message IDs
+  - filter (object, optional): Search filters selecting the messages, with the same fields as apple_mail_search (q, query, sender, subject, date_from, date_to, mailbox, account, unread_only, flagged_only, flag_color)
+  - limit (number): Maximum messages a filter may select, 1-500 (default: 100)
+  - dry_run (boolean): List the messages that would be affected without changing anything (default: false)
+  - read (boolean): true to mark as read, false to mark as unread
+
+Returns:
+  JSON object with schema:
+  {
+    "success": boolean,           // Whether every message was updated
+    "dryRun": boolean,            // Whether this was a dry run
+    "matched": number,            // Number of messages selected
+    "truncated": boolean,         // Whether the filter matched more than limit messages
+    "succeeded": number,          // Number of messages updated
+    "failed": number,             // Number of messages that could not be updated
+    "results": [                  // One entry per message
+      { "messageId": string, "success": boolean, "error": string }
+    ],
+    "read": boolean               // New read status
+  }
+
+  With dry_run, "succeeded", "failed" and "results" are replaced by
+  "messages" (id, subject, sender, date, read, flagged of each selected
+  message) and "notFound" (IDs that don't exist).
+
+Examples:
+  - Mark as read: {"message_id": "12345", "read": true}
+  - Mark several unread: {"message_ids": ["12345", "67890"], "read": false}
+  - Mark a sender's mail read: {"filter": {"sender": "alerts@example.com", "unread_only": true}, "read": true}
+
+Error Handling:
+  - Failures on individual messages (e.g. not found) are reported in results without stopping the batch
+  - Returns error if Apple Mail is not accessible`,
+      inputSchema: schemas.SetReadStatusSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    // @ts-expect-error - Complex Zod schema types cause TypeScript to hit type instantiation depth limit
+    async (params: schemas.SetReadStatusInput): Promise<CallToolResult> => {
+      try {
+        const selected = await selectMessages(backend, toSelection(params));
+        
+        const output = params.dry_run
+          ? { ...await describeSelection(backend, selected), read: params.read }
+          : { ...summarizeResults(selected, await backend.setReadStatus(selected.messageIds, params.read)), read: params.read };
+        
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(output, null, 2)
+            }
+          ],
+          structuredContent: output
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Error updating read status: ${errorMsg}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  tools.registerTool(
+    'apple_mail_set_flags',
+    {
+      title: 'Set Flags and Junk Status',
+      description: `Flag, unflag, color-flag, or mark as junk/not junk one or more emails.
+
+This tool sets the flagged status, flag color and junk status of emails. Useful for using flags as a follow-up queue (e.g. orange = waiting on reply) and for cleaning up misfiled junk. Fields that are omitted are left unchanged.
+
+All messages are updated in a single batched operation. Give exactly one of message_id, message_ids or filter.
+
+Args:
+  - message_id (string, optional): Single message ID
+  - message_ids (string[], optional): Up to 500 message IDs
+  - filter (object, optional): Search filters selecting the messages, with the same fields as apple_mail_search (q, query, sender, subject, date_from, date_to, mailbox, account, unread_only, flagged_only, flag_color)
+  - limit (number): Maximum messages a filter may select, 1-500 (default: 100)
+  - dry_run (boolean): List the messages that would be affected without changing anything (default: false)
+  - flagged (boolean, optional): true to flag, false to clear the flag
+  - flag_color (string, optional): Flag with a color: 'red', 'orange', 'yellow', 'green', 'blue', 'purple' or 'gray'
+  - junk (boolean, optional): true to mark as junk, false to mark as not junk
+
+Returns:
+  JSON object with schema:
+  {
+    "success": boolean,           // Whether every message was updated
+    "dryRun": boolean,            // Whether this was a dry run
+    "matched": number,            // Number of messages selected
+    "truncated": boolean,         // Whether the filter matched more than limit messages
+    "succeeded": number,          // Number of messages updated
+    "failed": number,             // Number of messages that could not be updated
+    "results": [                  // One entry per message
+      { "messageId": string, "success": boolean, "error": string }
+    ],
+    "changes": {                  // Changes applied
+      "flagged": boolean,
+      "flagColor": string,
+      "junk": boolean
+    }
+  }
+
+  With dry_run, "succeeded", "failed" and "results" are replaced by
+  "messages" (id, subject, sender, date, read, flagged of each selected
+  message) and "notFound" (IDs that don't exist).
+
+Examples:
+  - Flag for follow-up: {"message_id": "12345", "flagged": true}
+  - Clear flags: {"message_ids": ["12345", "67890"], "flagged": false}
+  - Mark as waiting on reply: {"message_id": "12345", "flag_color": "orange"}
+  - Not junk: {"message_id": "12345", "junk": false}
+  - Clear the orange queue: {"filter": {"flag_color": "orange", "mailbox": "INBOX"}, "flagged": false}
+
+Error Handling:
+  - Failures on individual messages (e.g. not found) are reported in results without stopping the batch
+  - Returns error if no change is given, or if flagged is false together with flag_color
+  - Returns error if Apple Mail is not accessible`,
+      inputSchema: schemas.SetFlagsSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    // @ts-expect-error - Complex Zod schema types cause TypeScript to hit type instantiation depth limit
+    async (params: schemas.SetFlagsInput): Promise<CallToolResult> => {
+      try {
+        const changes: FlagChanges = {
+          flagged: params.flag_color ? true : params.flagged,
+          flagColor: params.flag_color,
+          junk: params.junk
+        };
+        
+        if (changes.flagged === undefined && changes.junk === undefined) {
+          throw new Error('Provide at least one of flagged, flag_color or junk');
+        }
+        if (params.flag_color && params.flagged === false) {
+          throw new Error('flag_color cannot be combined with flagged: false');
+        }
+        
+        const selected = await selectMessages(backend, toSelection(params));
+        
+        const output = params.dry_run
+          ? { ...await describeSelection(backend, selected), changes }
+          : { ...summarizeResults(selected, await backend.setFlags(selected.messageIds, changes)), changes };
+        
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(output, null, 2)
+            }
+          ],
+          structuredContent: output
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Error updating flags: ${errorMsg}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  tools.registerTool(
+    'apple_mail_delete',
+    {
+      title: 'Delete Emails',
+      description: `Delete one or more emails by moving them to their account's Trash, or permanently.
+
+By default messages are moved to the Trash of the account they belong to, and their original mailbox is recorded so apple_mail_restore can put them back, even after the server restarts. Messages without a Message-ID header can't be found in Trash again; they are still deleted but reported with restorable false. Permanent deletion cannot be undone and requires both permanent and confirm_permanent to be true.
+
+All messages are deleted in a single batched operation. Give exactly one of message_id, message_ids or filter. Use dry_run first to check what a filter selects.
+
+Args:
+  - message_id (string, optional): Single message ID
+  - message_ids (string[], optional): Up to 500 message IDs
+  - filter (object, optional): Search filters selecting the messages, with the same fields as apple_mail_search (q, query, sender, subject, date_from, date_to, mailbox, account, unread_only, flagged_only, flag_color)
+  - limit (number): Maximum messages a filter may select, 1-500 (default: 100)
+  - dry_run (boolean): List the messages that would be deleted without changing anything (default: false)
+  - permanent (boolean): Delete permanently instead of moving to Trash (default: false)
+  - confirm_permanent (boolean): Must be true when permanent is true (default: false)
+
+Returns:
+  JSON object with schema:
+  {
+    "success": boolean,           // Whether every message was deleted
+    "dryRun": boolean,            // Whether this was a dry run
+    "permanent": boolean,         // Whether messages were deleted permanently
+    "matched": number,            // Number of messages selected
+    "truncated": boolean,         // Whether the filter matched more than limit messages
+    "succeeded": number,          // Number of messages deleted
+    "failed": number,             // Number of messages that could not be deleted
+    "results": [                  // One entry per message
+      {
+        "messageId": string,
+        "success": boolean,
+        "error": string,
+        "mailbox": string,        // Mailbox the message was deleted from
+        "account": string,        // Account the message belongs to
+        "restorable": boolean,    // Moved to Trash: whether apple_mail_restore can put it back
+        "warning": string         // Why it can't be restored, e.g. it has no Message-ID header
+      }
+    ]
+  }
+
+  With dry_run, "succeeded", "failed" and "results" are replaced by
+  "messages" (id, subject, sender, date, read, flagged of each selected
+  message) and "notFound" (IDs that don't exist).
+
+Examples:
+  - Move to Trash: {"message_id": "12345"}
+  - Preview deleting old newsletters: {"filter": {"sender": "news@example.com", "date_to": "2025-12-31"}, "dry_run": true}
+  - Delete permanently: {"message_id": "12345", "permanent": true, "confirm_permanent": true}
+
+Error Handling:
+  - Returns error if permanent is true without confirm_permanent
+  - Failures on individual messages (e.g. not found) are reported in results without stopping the batch
+  - Returns error if Apple Mail is not accessible`,
+      inputSchema: schemas.DeleteEmailSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    // @ts-expect-error - Complex Zod schema types cause TypeScript to hit type instantiation depth limit
+    async (params: schemas.DeleteEmailInput): Promise<CallToolResult> => {
+      try {
+        if (params.permanent && !params.confirm_permanent) {
+          throw new Error('Permanent deletion cannot be undone; set confirm_permanent to true to proceed');
+        }
+        
+        const selected = await selectMessages(backend, toSelection(params));
+        
+        const output = params.dry_run
+          ? { ...await describeSelection(backend, selected), permanent: params.permanent }
+          : { ...summarizeResults(selected, await backend.deleteEmails(selected.messageIds, params.permanent)), permanent: params.permanent };
+        
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(output, null, 2)
+            }
+          ],
+          structuredContent: output
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Error deleting emails: ${errorMsg}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  tools.registerTool(
+    'apple_mail_restore',
+    {
+      title: 'Restore Deleted Emails',
+      description: `Move emails deleted with apple_mail_delete back from Trash to the mailbox they were deleted from.
+
+Messages moved to Trash by apple_mail_delete within the last 90 days can be restored this way, including across server restarts (the record is kept in MAIL_DELETIONS_PATH). Permanently deleted messages, and messages apple_mail_delete reported with restorable false, cannot be restored. To recover other messages from Trash, use apple_mail_move_email.
+
+Args:
+  - message_id (string, optional): ID of a deleted message, as given to apple_mail_delete
+  - message_ids (string[], optional): IDs of deleted messages
+
+Returns:
+  JSON object with schema:
+  {
+    "success": boolean,           // Whether every message was restored
+    "succeeded": number,          // Number of messages restored
+    "failed": number,             // Number of messages that could not be restored
+    "results": [                  // One entry per message
+      {
+        "messageId": string,
+        "success": boolean,
+        "error": string,
+        "mailbox": string,        // Mailbox the message was restored to
+        "account": string         // Account of that mailbox
+      }
+    ]
+  }
+
+Examples:
+  - Undo a delete: {"message_id": "12345"}
+  - Undo a batch: {"message_ids": ["12345", "67890"]}
+
+Error Handling:
+  - Messages with no deletion record, or no longer in Trash, are reported as failed in results
+  - Returns error if Apple Mail is not accessible`,
+      inputSchema: schemas.RestoreEmailSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    // @ts-expect-error - Complex Zod schema types cause TypeScript to hit type instantiation depth limit
+    async (params: schemas.RestoreEmailInput): Promise<CallToolResult> => {
+      try {
+        if ((params.message_id === undefined) === (params.message_ids === undefined)) {
+          throw new Error('Provide exactly one of message_id or message_ids');
+        }
+        
+        const results = await backend.restoreEmails(params.message_ids ?? [params.message_id!]);
+        const failed = results.filter(result => !result.success).length;
+        
+        const output = {
+          success: failed === 0,
+          succeeded: results.length - failed,
+          failed,
+          results
+        };
+        
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(output, null, 2)
+            }
+          ],
+          structuredContent: output
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Error restoring emails: ${errorMsg}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // ===== MAILBOX MANAGEMENT =====
+  
+  tools.registerTool(
+    'apple_mail_create_mailbox',
+    {
+      title: 'Create Mailbox',
+      description: `Create a mailbox/folder in an account.
+
+This tool creates a new mailbox, optionally nested under other mailboxes by giving a path such as 'Projects/2024'. Any missing parent mailboxes are created too. Creating a mailbox that already exists is not an error.
+
+Args:
+  - account (string): Account to create the mailbox in
+  - name (string): Mailbox name, or a "/"-separated path for a nested mailbox
+
+Returns:
+  JSON object with schema:
+  {
+    "success": boolean,
+    "account": string,
+    "mailbox": string,            // Path of the mailbox
+    "created": boolean            // False if the mailbox already existed
+  }
+
+Examples:
+  - Top-level folder: {"account": "Work", "name": "Receipts"}
+  - Nested folder: {"account": "Work", "name": "Projects/2024"}
+
+Error Handling:
+  - Returns error if the account is not found or the path is invalid
+  - Returns error if Apple Mail is not accessible`,
+      inputSchema: schemas.CreateMailboxSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    // @ts-expect-error - Complex Zod schema types cause TypeScript to hit type instantiation depth limit
+    async (params: schemas.CreateMailboxInput): Promise<CallToolResult> => {
+      try {
+        const created = await backend.createMailbox(params.account, params.name);
+        
+        const output = {
+          success: true,
+          account: params.account,
+          mailbox: normalizeMailboxPath(params.name),
+          created
+        };
+        
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(output, null, 2)
+            }
+          ],
+          structuredContent: output
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Error creating mailbox: ${errorMsg}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  tools.registerTool(
+    'apple_mail_rename_mailbox',
+    {
+      title: 'Rename Mailbox',
+      description: `Rename a mailbox/folder.
+
+This tool changes the name of a mailbox, keeping it under the same parent. Messages and nested mailboxes inside it move with it. Mail's standard mailboxes (INBOX, Drafts, Sent, Trash, Junk...) can't be renamed.
+
+Args:
+  - account (string): Account the mailbox belongs to
+  - mailbox (string): Mailbox to rename, as a "/"-separated path for nested mailboxes
+  - new_name (string): New name (a single name, without "/")
+
+Returns:
+  JSON object with schema:
+  {
+    "success": boolean,
+    "account": string,
+    "mailbox": string,            // Previous path
+    "newPath": string             // Path after renaming
+  }
+
+Examples:
+  - Rename a folder: {"account": "Work", "mailbox": "Reciepts", "new_name": "Receipts"}
+  - Rename a nested folder: {"account": "Work", "mailbox": "Projects/2024", "new_name": "2024 (done)"}
+
+Error Handling:
+  - Returns error if the mailbox is not found, is a standard mailbox, or the new name is taken
+  - Returns error if Apple Mail is not accessible`,
+      inputSchema: schemas.RenameMailboxSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    // @ts-expect-error - Complex Zod schema types cause TypeScript to hit type instantiation depth limit
+    async (params: schemas.RenameMailboxInput): Promise<CallToolResult> => {
+      try {
+        const newPath = await backend.renameMailbox(params.account, params.mailbox, params.new_name);
+        
+        const output = {
+          success: true,
+          account: params.account,
+          mailbox: normalizeMailboxPath(params.mailbox),
+          newPath
+        };
+        
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(output, null, 2)
+            }
+          ],
+          structuredContent: output
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Error renaming mailbox: ${errorMsg}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  tools.registerTool(
+    'apple_mail_delete_mailbox',
+    {
+      title: 'Delete Mailbox',
+      description: `Delete an empty mailbox/folder.
+
+This tool deletes a mailbox that contains no messages and no nested mailboxes. Move or delete its contents first (e.g. with apple_mail_move_email). Mail's standard mailboxes (INBOX, Drafts, Sent, Trash, Junk...) can't be deleted.
+
+Args:
+  - account (string): Account the mailbox belongs to
+  - mailbox (string): Mailbox to delete, as a "/"-separated path for nested mailboxes
+
+Returns:
+  JSON object with schema:
+  {
+    "success": boolean,
+    "account": string,
+    "mailbox": string             // Path of the deleted mailbox
+  }
+
+Examples:
+  - Delete a folder: {"account": "Work", "mailbox": "Old Projects"}
+  - Delete a nested folder: {"account": "Work", "mailbox": "Projects/2019"}
+
+Error Handling:
+  - Returns error if the mailbox is not found, is a standard mailbox, or is not empty
+  - Returns error if Apple Mail is not accessible`,
+      inputSchema: schemas.DeleteMailboxSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    // @ts-expect-error - Complex Zod schema types cause TypeScript to hit type instantiation depth limit
+    async (params: schemas.DeleteMailboxInput): Promise<CallToolResult> => {
+      try {
+        await backend.deleteMailbox(params.account, params.mailbox);
+        
+        const output = {
+          success: true,
+          account: params.account,
+          mailbox: normalizeMailboxPath(params.mailbox)
+        };
+        
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(output, null, 2)
+            }
+          ],
+          structuredContent: output
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Error deleting mailbox: ${errorMsg}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // ===== EMAIL CREATION =====
+  
+  tools.registerTool(
+    'apple_mail_create_draft',
+    {
+      title: 'Create Draft Email',
+      description: `Create a new draft email in Apple Mail.
+
+This tool creates a draft email that can be reviewed and edited in Apple Mail before sending. The draft is saved but not sent, giving you full control over when to send it.
+
+Args:
+  - subject (string): Email subject line
+  - to (string[]): List of recipient email addresses (required)
+  - cc (string[], optional): CC recipients
+  - bcc (string[], optional): BCC recipients
+  - content (string): Email body content
+  - content_format ('plain' | 'html' | 'markdown'): Format of content (default: 'plain'); markdown is converted to HTML
+  - account (string, optional): Account name or email address (including aliases) to send from; uses Mail's default if not specified
+  - attachments (object[], optional): Files to attach, each either {"path": string} for a local file or {"filename": string, "content_base64": string}
+
+Returns:
+  JSON object with schema:
+  {
+    "success": boolean,           // Whether draft was created
+    "messageId": string,          // Draft message ID
+    "subject": string,            // Email subject
+    "recipientCount": number,     // Total number of recipients
+    "attachments": [              // Files attached
+      { "name": string, "size": number }
+    ]
+  }
+
+  Local paths must be inside the attachment source directory
+  (MAIL_ATTACHMENT_SOURCE_DIR, default: the attachment save directory). Each
+  file may be at most 20 MB and all attachments together at most 25 MB.
+
+Examples:
+  - Simple draft: {
+      "subject": "Meeting Follow-up",
+      "to": ["colleague@company.com"],
+      "content": "Thanks for the great meeting today..."
+    }
+  - With CC: {
+      "subject": "Project Update",
+      "to": ["team@company.com"],
+      "cc": ["manager@company.com"],
+      "content": "Here's the latest progress..."
+    }
+
+  - Formatted with markdown: {
+      "subject": "Status",
+      "to": ["team@company.com"],
+      "content": "**Done:** login page\n\n| Task | Owner |\n| --- | --- |\n| Tests | Sam |",
+      "content_format": "markdown"
+    }
+  - From a shared alias: {
+      "subject": "Your ticket",
+      "to": ["customer@example.com"],
+      "account": "support@company.com",
+      "content": "We're looking into it..."
+    }
+  - With an attachment: {
+      "subject": "Q3 report",
+      "to": ["manager@company.com"],
+      "content": "Report attached.",
+      "attachments": [{"path": "reports/q3.pdf"}]
+    }
+
+Error Handling:
+  - Returns error if recipient email addresses are invalid
+  - Returns error if account doesn't match any configured account or address
+  - Returns error if an attachment is missing, outside the allowed directory or too large
+  - Returns error if Apple Mail is not accessible`,
+      inputSchema: schemas.CreateDraftSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    // @ts-expect-error - Complex Zod schema types cause TypeScript to hit type instantiation depth limit
+    async (params: schemas.CreateDraftInput): Promise<CallToolResult> => {
+      try {
+        const attachments = await resolveOutgoingAttachments(
+          (params.attachments ?? []).map(attachment => ({
+            path: attachment.path,
+            filename: attachment.filename,
+            contentBase64: attachment.content_base64
+          }))
+        );
+        
+        // Staged files are only needed if Mail made the draft
+        let messageId: string | undefined;
+        try {
+          messageId = await backend.createDraft({
+            subject: params.subject,
+            to: params.to,
+            cc: params.cc,
+            bcc: params.bcc,
+            content: params.content,
+            contentFormat: params.content_format,
+            account: params.account,
+            attachments
+          });
+        } finally {
+          if (messageId === undefined) {
+            await discardStagedAttachments(attachments);
+          }
+        }
+        
+        const recipientCount = params.to.length + 
+                             (params.cc?.length || 0) + 
+                             (params.bcc?.length || 0);
+        
+        const output = {
+          success: true,
+          messageId,
+          subject: params.subject,
+          recipientCount,
+          attachments: attachments.map(attachment => ({ name: attachment.name, size: attachment.size }))
+        };
+        
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(output, null, 2)
+            }
+          ],
+          structuredContent: output
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Error creating draft: ${errorMsg}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  tools.registerTool(
+    'apple_mail_send_email',
+    {
+      title: 'Send Email',
+      description: `Send an email immediately through Apple Mail.
+
+IMPORTANT: This tool sends emails immediately without further confirmation. Use with caution and only when you're certain the email should be sent.
+
+This tool creates and sends an email in one operation. For drafts that need review before sending, use apple_mail_create_draft instead.
+
+Args:
+  - subject (string): Email subject line
+  - to (string[]): List of recipient email addresses (required)
+  - cc (string[], optional): CC recipients
+  - bcc (string[], optional): BCC recipients
+  - content (string): Email body content
+  - content_format ('plain' | 'html' | 'markdown'): Format of content (default: 'plain'); markdown is converted to HTML
+  - account (string, optional): Account name or email address (including aliases) to send from; uses Mail's default if not specified
+  - attachments (object[], optional): Files to attach, each either {"path": string} for a local file or {"filename": string, "content_base64": string}
+
+Returns:
+  JSON object with schema:
+  {
+    "success": boolean,           // Whether email was sent
+    "messageId": string,          // Sent message ID (if successful)
+    "error": string,              // Error message (if failed)
+    "subject": string,            // Email subject
+    "recipientCount": number,     // Total number of recipients
+    "attachments": [              // Files attached
+      { "name": string, "size": number }
+    ]
+  }
+
+  Local paths must be inside the attachment source directory
+  (MAIL_ATTACHMENT_SOURCE_DIR, default: the attachment save directory). Each
+  file may be at most 20 MB and all attachments together at most 25 MB.
+
+Examples:
+  - Send email: {
+      "subject": "Quick Question",
+      "to": ["colleague@company.com"],
+      "content": "Could you send me the report?"
+    }
 
 Error Handling:
   - Returns success: false with error message if send fails
   - Returns error if recipient email addresses are invalid
+  - Returns error if account doesn't match any configured account or address
+  - Returns error if an attachment is missing, outside the allowed directory or too large
   - Returns error if Apple Mail is not accessible
 
 WARNING: This sends emails immediately. Double-check all parameters before calling.`,
@@ -633,14 +1839,32 @@ WARNING: This sends emails immediately. Double-check all parameters before calli
     },
     async (params: schemas.SendEmailInput): Promise<CallToolResult> => {
       try {
-        const result = await mailService.sendEmail({
-          subject: params.subject,
-          to: params.to,
-          cc: params.cc,
-          bcc: params.bcc,
-          content: params.content,
-          account: params.account
-        });
+        const attachments = await resolveOutgoingAttachments(
+          (params.attachments ?? []).map(attachment => ({
+            path: attachment.path,
+            filename: attachment.filename,
+            contentBase64: attachment.content_base64
+          }))
+        );
+        
+        // Staged files are only needed if Mail sent the message
+        let result: SendEmailResult | undefined;
+        try {
+          result = await backend.sendEmail({
+            subject: params.subject,
+            to: params.to,
+            cc: params.cc,
+            bcc: params.bcc,
+            content: params.content,
+            contentFormat: params.content_format,
+            account: params.account,
+            attachments
+          });
+        } finally {
+          if (!result?.success) {
+            await discardStagedAttachments(attachments);
+          }
+        }
         
         const recipientCount = params.to.length + 
                              (params.cc?.length || 0) + 
@@ -651,7 +1875,8 @@ WARNING: This sends emails immediately. Double-check all parameters before calli
           messageId: result.messageId || '',
           error: result.error,
           subject: params.subject,
-          recipientCount
+          recipientCount,
+          attachments: attachments.map(attachment => ({ name: attachment.name, size: attachment.size }))
         };
         
         return {
@@ -676,13 +1901,192 @@ WARNING: This sends emails immediately. Double-check all parameters before calli
     }
   );
   
-  server.registerTool(
+  tools.registerTool(
+    'apple_mail_reply',
+    {
+      title: 'Reply to Email',
+      description: `Reply (or reply all) to an existing email, keeping the conversation threaded.
+
+This tool uses Apple Mail's own reply command, so the reply carries the In-Reply-To/References headers and the quoted original, and shows up in the same thread in recipients' mail clients. Unlike apple_mail_create_draft, which always starts a brand-new conversation, use this tool whenever you are answering a message.
+
+By default the reply is left as a draft open in Apple Mail for review. Set send to true to send it immediately.
+
+Args:
+  - message_id (string): Message ID to reply to
+  - reply_all (boolean): Also reply to all other recipients (default: false)
+  - content (string): Reply text, placed above the quoted original (default: empty)
+  - send (boolean): Send immediately instead of leaving a draft (default: false)
+
+Returns:
+  JSON object with schema:
+  {
+    "success": boolean,           // Whether the reply was created
+    "messageId": string,          // ID of the reply message
+    "inReplyTo": string,          // Original message ID
+    "subject": string,            // Reply subject (e.g., "Re: ...")
+    "recipients": string[],       // Addresses the reply goes to
+    "sent": boolean               // Whether the reply was sent
+  }
+
+Examples:
+  - Draft a reply: {"message_id": "12345", "content": "Thanks, I'll take a look."}
+  - Reply all and send: {"message_id": "12345", "reply_all": true, "content": "Confirmed for Thursday.", "send": true}
+
+Error Handling:
+  - Returns error if message not found
+  - Returns error if Apple Mail is not accessible
+
+WARNING: With send set to true the reply is sent immediately.`,
+      inputSchema: schemas.ReplyEmailSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,  // May send email
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    // @ts-expect-error - Complex Zod schema types cause TypeScript to hit type instantiation depth limit
+    async (params: schemas.ReplyEmailInput): Promise<CallToolResult> => {
+      try {
+        requireSendScope(scopes, params.send);
+        
+        const result = await backend.replyToEmail({
+          messageId: params.message_id,
+          replyAll: params.reply_all,
+          content: params.content,
+          send: params.send
+        });
+        
+        const output = {
+          success: true,
+          messageId: result.messageId,
+          inReplyTo: params.message_id,
+          subject: result.subject,
+          recipients: result.recipients,
+          sent: result.sent
+        };
+        
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(output, null, 2)
+            }
+          ],
+          structuredContent: output
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Error replying to email: ${errorMsg}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  tools.registerTool(
+    'apple_mail_forward',
+    {
+      title: 'Forward Email',
+      description: `Forward an existing email to new recipients.
+
+This tool uses Apple Mail's own forward command, so the original message (including its attachments) is included exactly as Mail would include it.
+
+By default the forward is left as a draft open in Apple Mail for review. Set send to true to send it immediately.
+
+Args:
+  - message_id (string): Message ID to forward
+  - to (string[]): List of recipient email addresses (required)
+  - cc (string[], optional): CC recipients
+  - bcc (string[], optional): BCC recipients
+  - content (string): Text placed above the forwarded original (default: empty)
+  - send (boolean): Send immediately instead of leaving a draft (default: false)
+
+Returns:
+  JSON object with schema:
+  {
+    "success": boolean,           // Whether the forward was created
+    "messageId": string,          // ID of the forward message
+    "forwardedFrom": string,      // Original message ID
+    "subject": string,            // Forward subject (e.g., "Fwd: ...")
+    "recipients": string[],       // Addresses the forward goes to
+    "sent": boolean               // Whether the forward was sent
+  }
+
+Examples:
+  - Forward for review: {"message_id": "12345", "to": ["colleague@company.com"], "content": "FYI - can you handle this?"}
+  - Forward and send: {"message_id": "67890", "to": ["accounts@company.com"], "send": true}
+
+Error Handling:
+  - Returns error if message not found
+  - Returns error if recipient email addresses are invalid
+  - Returns error if Apple Mail is not accessible
+
+WARNING: With send set to true the forward is sent immediately.`,
+      inputSchema: schemas.ForwardEmailSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,  // May send email
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    // @ts-expect-error - Complex Zod schema types cause TypeScript to hit type instantiation depth limit
+    async (params: schemas.ForwardEmailInput): Promise<CallToolResult> => {
+      try {
+        requireSendScope(scopes, params.send);
+        
+        const result = await backend.forwardEmail({
+          messageId: params.message_id,
+          to: params.to,
+          cc: params.cc,
+          bcc: params.bcc,
+          content: params.content,
+          send: params.send
+        });
+        
+        const output = {
+          success: true,
+          messageId: result.messageId,
+          forwardedFrom: params.message_id,
+          subject: result.subject,
+          recipients: result.recipients,
+          sent: result.sent
+        };
+        
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(output, null, 2)
+            }
+          ],
+          structuredContent: output
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Error forwarding email: ${errorMsg}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  tools.registerTool(
     'apple_mail_list_accounts',
     {
       title: 'List Email Accounts',
       description: `Get a list of all email accounts configured in Apple Mail.
 
-This tool retrieves information about all email accounts, useful for understanding available accounts when creating drafts or searching specific accounts.
+This tool retrieves information about all email accounts, useful for understanding available accounts when creating drafts or searching specific accounts. Any of an account's addresses (including aliases) can be used as the "account" when creating drafts or sending email.
 
 Returns:
   JSON object with schema:
@@ -692,7 +2096,12 @@ Returns:
       {
         "name": string,           // Account name/label
         "type": string,           // Account type (imap, pop, exchange, etc.)
-        "email": string           // Email address
+        "email": string,          // Primary email address
+        "addresses": string[],    // All email addresses/aliases
+        "fullName": string,       // Sender display name (if set)
+        "enabled": boolean,       // Whether the account is enabled
+        "serverName": string,     // Incoming server host (if available)
+        "mailboxCount": number    // Number of top-level mailboxes
       }
     ]
   }
@@ -711,7 +2120,7 @@ Error Handling:
     },
     async (): Promise<CallToolResult> => {
       try {
-        const accounts = await mailService.listAccounts();
+        const accounts = await backend.listAccounts();
         
         const output = {
           count: accounts.length,
@@ -740,3 +2149,75 @@ Error Handling:
     }
   );
 }
+
+// Helper functions
+
+/**
+ * Registers tools on `server`, disabling those that need a scope not granted
+ */
+function scopedTools(server: McpServer, scopes: ReadonlySet<Scope>): Pick<McpServer, 'registerTool'> {
+  const registerTool: McpServer['registerTool'] = (name, config, callback) => {
+    const tool = server.registerTool(name, config, callback);
+    if (!scopes.has(TOOL_SCOPES[name])) {
+      tool.disable();
+    }
+    return tool;
+  };
+  return { registerTool };
+}
+
+/**
+ * Sending a reply or forward right away needs the `send` scope on top of `compose`
+ */
+function requireSendScope(scopes: ReadonlySet<Scope>, send: boolean): void {
+  if (send && !scopes.has('send')) {
+    throw new Error('Sending needs the "send" scope; set send to false to leave a draft instead');
+  }
+}
+
+/**
+ * Message selection from the message_id / message_ids / filter parameters
+ */
+function toSelection(params: {
+  message_id?: string;
+  message_ids?: string[];
+  filter?: schemas.MessageFilterInput;
+  limit: number;
+}): MessageSelection {
+  if (params.message_id !== undefined && params.message_ids !== undefined) {
+    throw new Error('Provide exactly one of message_id, message_ids or filter');
+  }
+  
+  const messageIds = params.message_id !== undefined ? [params.message_id] : params.message_ids;
+  if (!params.filter) {
+    return { messageIds, limit: params.limit };
+  }
+  
+  const filter = params.filter;
+  const dateFrom = filter.date_from ? resolveDateExpression(filter.date_from, 'from') : undefined;
+  const dateTo = filter.date_to ? resolveDateExpression(filter.date_to, 'to') : undefined;
+  
+  return {
+    messageIds,
+    filter: withQuery({
+      query: filter.query,
+      sender: filter.sender,
+      subject: filter.subject,
+      dateFrom,
+      dateTo,
+      mailbox: filter.mailbox,
+      account: filter.account,
+      unreadOnly: filter.unread_only,
+      flaggedOnly: filter.flagged_only,
+      flagColor: filter.flag_color
+    }, filter.q),
+    limit: params.limit
+  };
+}
+
+/**
+ * Search filters with a Gmail-style `q` query, if given, merged in
+ */
+function withQuery(filter: MessageFilter, q?: string): MessageFilter {
+  return q === undefined ? filter : applyQuery(filter, parseQuery(q));
+}
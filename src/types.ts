@@ -10,6 +10,8 @@ export interface EmailMessage {
   date: string;
   read: boolean;
   flagged: boolean;
+  flagColor?: FlagColor;   // Set when flagged
+  junk?: boolean;
   mailbox?: string;
   account?: string;
   attachmentCount?: number;
@@ -17,21 +19,71 @@ export interface EmailMessage {
   content: string;
 }
 
+/**
+ * Mail's flag colors
+ */
+export type FlagColor = 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple' | 'gray';
+
+/**
+ * Flag and junk changes to apply to messages; omitted fields are left as they are
+ */
+export interface FlagChanges {
+  flagged?: boolean;
+  flagColor?: FlagColor;   // Also flags the message
+  junk?: boolean;
+}
+
+/**
+ * A message with the header fields and sort position needed for threading
+ */
+export interface ThreadMessage extends EmailMessage {
+  rfcMessageId?: string;    // Message-ID header, without angle brackets
+  inReplyTo?: string;       // In-Reply-To header, without angle brackets
+  references?: string[];    // References header, without angle brackets
+  received: number;         // Date received in seconds; only used for ordering
+}
+
+export interface ThreadCandidates {
+  seed: ThreadMessage;
+  candidates: ThreadMessage[];   // Possibly related messages from any mailbox
+}
+
 export interface EmailAttachment {
   name: string;
+  mimeType?: string;
+  size?: number;          // Bytes
+  downloaded?: boolean;   // Whether Mail has the attachment locally
+}
+
+export interface SavedAttachment extends EmailAttachment {
+  path: string;           // Absolute path of the saved file
 }
 
 export interface Mailbox {
-  name: string;
+  name: string;           // Own name, e.g. "Acme"
+  path: string;           // Full path within the account, e.g. "Projects/2026/Acme"
+  parent?: string;        // Path of the containing mailbox; unset at the top level
   account: string;
   unreadCount?: number;
   totalCount?: number;
 }
 
+/**
+ * A mailbox with the mailboxes nested inside it
+ */
+export interface MailboxNode extends Mailbox {
+  children: MailboxNode[];
+}
+
 export interface EmailAccount {
   name: string;
-  email: string;
+  email: string;          // Primary address ('' if the account has none)
+  addresses?: string[];   // All addresses, including aliases
+  fullName?: string;      // Display name used on outgoing mail
   type?: string;
+  enabled?: boolean;
+  serverName?: string;    // Incoming mail server host, where the account has one
+  mailboxCount?: number;
 }
 
 export interface DraftEmail {
@@ -40,11 +92,221 @@ export interface DraftEmail {
   cc?: string[];
   bcc?: string[];
   content: string;
-  account?: string;
+  contentFormat?: ContentFormat;   // How content is written (default: plain)
+  account?: string;   // Account name or email address to send from
+  attachments?: OutgoingAttachment[];
 }
 
+/**
+ * A local file to attach to outgoing mail, already checked against the
+ * allow-listed source directory and size limits
+ */
+export interface OutgoingAttachment {
+  name: string;       // File name as recipients see it
+  path: string;       // Absolute path of the file to attach
+  size: number;       // Bytes
+}
+
+/**
+ * Format of a message body
+ */
+export type ContentFormat = 'plain' | 'html' | 'markdown';
+
 export interface SendEmailResult {
   success: boolean;
   messageId?: string;
   error?: string;
 }
+
+/**
+ * A reply to an existing message
+ */
+export interface ReplyDraft {
+  messageId: string;    // Message being replied to
+  replyAll: boolean;
+  content: string;      // Text placed above the quoted original
+  send: boolean;        // Send immediately instead of leaving a draft
+}
+
+/**
+ * A forward of an existing message
+ */
+export interface ForwardDraft {
+  messageId: string;    // Message being forwarded
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  content: string;      // Text placed above the forwarded original
+  send: boolean;        // Send immediately instead of leaving a draft
+}
+
+export interface ComposeResult {
+  messageId: string;    // ID of the new reply/forward message
+  subject: string;
+  recipients: string[];
+  sent: boolean;
+}
+
+export interface SearchEmailsParams {
+  query?: string;
+  sender?: string;
+  subject?: string;
+  dateFrom?: Date;   // Inclusive lower bound on date received
+  dateTo?: Date;     // Exclusive upper bound on date received
+  mailbox?: string;
+  account?: string;
+  unreadOnly?: boolean;
+  flaggedOnly?: boolean;
+  flagColor?: FlagColor;
+  expression?: QueryNode;   // Further conditions from a parsed query
+  allMailboxes?: boolean;   // Without a mailbox, search every mailbox (of the account, if given) rather than the inbox
+  after?: SearchPosition;   // Resume after this position (from a previous page)
+  limit?: number;
+}
+
+/**
+ * A parsed search query (see services/query.ts for the syntax)
+ */
+export type QueryNode =
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | QueryTerm;
+
+/**
+ * A single condition of a search query
+ */
+export type QueryTerm =
+  | { type: 'text'; value: string; phrase?: boolean; prefix?: boolean }   // In subject or body
+  | { type: 'from' | 'to' | 'subject'; value: string }
+  | { type: 'mailbox'; value: string; account?: string }   // Mailbox path, in any account unless given
+  | { type: 'account'; value: string }
+  | { type: 'after'; date: Date }        // Received at or after
+  | { type: 'before'; date: Date }       // Received before
+  | { type: 'attachment' | 'unread' | 'flagged' | 'junk' }
+  | { type: 'flag'; color: FlagColor };
+
+/**
+ * Sort position of a message within search results
+ */
+export interface SearchPosition {
+  id: string;
+  received: number;   // Date received in seconds; only used for ordering
+}
+
+/**
+ * Read and flag state of a message, for noticing when it changes
+ */
+export interface MessageState extends SearchPosition {
+  read: boolean;
+  flagged: boolean;
+  flagColor?: FlagColor;    // Only set when flagged
+  junk: boolean;
+}
+
+export interface SearchEmailsResult {
+  emails: EmailMessage[];   // Newest first
+  totalMatched: number;     // Matches across all pages
+  next?: SearchPosition;    // Set when more results follow this page
+}
+
+/**
+ * A source of mail data that the tools operate on.
+ *
+ * The AppleScript backend talks to Apple Mail; the memory backend serves
+ * fixture data so the server can run off a Mac.
+ */
+export interface MailBackend {
+  searchEmails(params: SearchEmailsParams): Promise<SearchEmailsResult>;
+  getEmailById(messageId: string, mailbox?: string, account?: string): Promise<EmailMessage | null>;
+  getMessageSource(messageId: string): Promise<string | null>;   // Raw RFC 822 source
+  listMailboxes(): Promise<Mailbox[]>;
+  createMailbox(account: string, path: string): Promise<boolean>;   // False if it already existed
+  renameMailbox(account: string, path: string, newName: string): Promise<string>;   // New path
+  deleteMailbox(account: string, path: string): Promise<void>;   // Only empty mailboxes
+  listAccounts(): Promise<EmailAccount[]>;
+  getAttachments(messageId: string): Promise<EmailAttachment[]>;
+  saveAttachments(messageId: string, directory: string, names?: string[]): Promise<SavedAttachment[]>;
+  createDraft(draft: DraftEmail): Promise<string>;
+  sendEmail(draft: DraftEmail): Promise<SendEmailResult>;
+  getEmailsByIds(messageIds: string[]): Promise<EmailMessage[]>;   // Found messages only, in order
+  listMailboxMessages(mailbox: string, account: string): Promise<SearchPosition[]>;   // Every message, received in UTC seconds
+  getMailboxMessages(mailbox: string, account: string, messageIds: string[]): Promise<EmailMessage[]>;   // Full content, found messages only
+  listMessageStates(mailbox: string, account: string): Promise<MessageState[]>;   // Every message, received in UTC seconds
+  moveEmails(messageIds: string[], targetMailbox: string, targetAccount?: string): Promise<MessageActionResult[]>;
+  setReadStatus(messageIds: string[], read: boolean): Promise<MessageActionResult[]>;
+  setFlags(messageIds: string[], changes: FlagChanges): Promise<MessageActionResult[]>;
+  deleteEmails(messageIds: string[], permanent: boolean): Promise<TrashResult[]>;
+  restoreEmails(messageIds: string[]): Promise<TrashResult[]>;   // Only messages deleted by this backend
+  replyToEmail(reply: ReplyDraft): Promise<ComposeResult>;
+  forwardEmail(forward: ForwardDraft): Promise<ComposeResult>;
+  findThreadCandidates(messageId: string): Promise<ThreadCandidates | null>;
+}
+
+/**
+ * Outcome of an operation on one message of a batch
+ */
+export interface MessageActionResult {
+  messageId: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Outcome of deleting or restoring one message, with the mailbox it was
+ * deleted from
+ */
+export interface TrashResult extends MessageActionResult {
+  mailbox?: string;
+  account?: string;
+  restorable?: boolean;     // Moved to Trash: whether restoreEmails can put it back
+  warning?: string;         // Why it can't be restored
+}
+
+/**
+ * A message as stored in a memory backend fixture
+ */
+export interface FixtureMessage {
+  id: string;
+  messageId?: string;       // RFC 822 Message-ID header
+  inReplyTo?: string;       // In-Reply-To header
+  references?: string[];    // References header
+  subject: string;
+  sender: string;
+  recipients?: string[];
+  date: string;
+  read?: boolean;
+  flagged?: boolean;
+  flagColor?: FlagColor;
+  junk?: boolean;
+  mailbox: string;
+  account: string;
+  content: string;
+  html?: string;          // HTML alternative of content
+  headers?: Record<string, string | string[]>;   // Extra raw headers, e.g. Received
+  attachments?: FixtureAttachment[];
+}
+
+/**
+ * An attachment as stored in a memory backend fixture
+ */
+export interface FixtureAttachment extends EmailAttachment {
+  text?: string;          // File content as UTF-8 text
+  base64?: string;        // File content for binary files
+}
+
+/**
+ * A mailbox as stored in a memory backend fixture
+ */
+export interface FixtureMailbox {
+  name: string;           // Full path for nested mailboxes, e.g. "Projects/2026"
+  account: string;
+}
+
+/**
+ * JSON fixture loaded by the memory backend
+ */
+export interface MailFixture {
+  accounts: EmailAccount[];
+  mailboxes: FixtureMailbox[];
+  messages: FixtureMessage[];
+}
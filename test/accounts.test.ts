@@ -0,0 +1,64 @@
+/**
+ * Tests for choosing the account and address outgoing mail is sent from
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { resolveSenderIdentity, formatSender } from '../src/services/accounts.js';
+import { loadMemoryBackend } from '../src/services/memory.js';
+import type { EmailAccount } from '../src/types.js';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+
+const accounts: EmailAccount[] = [
+  { name: 'Work', email: 'me@company.com', addresses: ['me@company.com', 'support@company.com'], fullName: 'Sam Taylor', type: 'imap', enabled: true },
+  { name: 'Personal', email: 'me@example.com', fullName: 'Sam "Sammy" Taylor', type: 'iCloud', enabled: true },
+  { name: 'Shared', email: '', addresses: ['team@company.com'], type: 'imap', enabled: true },
+  { name: 'Local', email: '', type: 'imap', enabled: true }
+];
+
+test('account names send from the primary address', () => {
+  const work = resolveSenderIdentity(accounts, 'work');
+  assert.equal(work.account.name, 'Work');
+  assert.equal(work.address, 'me@company.com');
+  assert.equal(formatSender(work), 'Sam Taylor <me@company.com>');
+
+  assert.equal(resolveSenderIdentity(accounts, ' Personal ').address, 'me@example.com');
+  assert.equal(resolveSenderIdentity(accounts, 'Shared').address, 'team@company.com');
+  assert.throws(() => resolveSenderIdentity(accounts, 'Local'), /Account "Local" has no email address to send from/);
+});
+
+test('an explicit address picks the account it belongs to, aliases included', () => {
+  const support = resolveSenderIdentity(accounts, 'Support@Company.com');
+  assert.equal(support.account.name, 'Work');
+  assert.equal(support.address, 'support@company.com');
+  assert.equal(formatSender(support), 'Sam Taylor <support@company.com>');
+
+  const personal = resolveSenderIdentity(accounts, 'me@example.com');
+  assert.equal(personal.account.name, 'Personal');
+  assert.equal(formatSender(personal), 'Sam Sammy Taylor <me@example.com>');
+  assert.equal(formatSender(resolveSenderIdentity(accounts, 'team@company.com')), 'team@company.com');
+});
+
+test('unknown accounts and addresses list what is available', () => {
+  assert.throws(
+    () => resolveSenderIdentity(accounts, 'someone@elsewhere.example'),
+    { message: 'Account "someone@elsewhere.example" not found. Available accounts: Work (me@company.com, support@company.com); Personal (me@example.com); Shared (team@company.com); Local' }
+  );
+  assert.throws(() => resolveSenderIdentity([], 'Work'), /Available accounts: none/);
+});
+
+test('drafts without an account are sent from the default account', async () => {
+  const backend = await loadMemoryBackend(join(root, 'fixtures', 'sample.json'));
+
+  const [plain] = await backend.getEmailsByIds([await backend.createDraft({ subject: 'Default', to: ['bob@company.com'], content: '' })]);
+  assert.equal(plain.sender, 'Sam Taylor <me@company.com>');
+  assert.equal(plain.account, 'Work');
+
+  const [alias] = await backend.getEmailsByIds([await backend.createDraft({ subject: 'Alias', to: ['bob@company.com'], content: '', account: 'support@company.com' })]);
+  assert.equal(alias.sender, 'Sam Taylor <support@company.com>');
+
+  await assert.rejects(backend.createDraft({ subject: 'Nope', to: ['bob@company.com'], content: '', account: 'Nowhere' }), /Account "Nowhere" not found/);
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for staging outgoing attachments given as base64 content
+ */
+
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, mkdir, readdir, utimes, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  resolveOutgoingAttachments,
+  discardStagedAttachments,
+  sweepStagedAttachments,
+  MAX_OUTGOING_ATTACHMENT_BYTES
+} from '../src/services/attachments.js';
+
+let root: string;
+let staging: string;
+
+before(async () => {
+  root = await mkdtemp(join(tmpdir(), 'attachments-'));
+  staging = join(root, '.outgoing');
+  process.env.MAIL_ATTACHMENT_DIR = root;
+});
+
+function base64(text: string): string {
+  return Buffer.from(text).toString('base64');
+}
+
+async function staged(): Promise<string[]> {
+  return readdir(staging).catch(() => []);
+}
+
+test('discarding removes staged copies but not files given by path', async () => {
+  await writeFile(join(root, 'report.txt'), 'report');
+  const attachments = await resolveOutgoingAttachments([
+    { filename: 'note.txt', contentBase64: base64('hello') },
+    { path: 'report.txt' }
+  ]);
+  assert.equal((await staged()).length, 1);
+
+  await discardStagedAttachments(attachments);
+  assert.deepEqual(await staged(), []);
+  assert.deepEqual((await readdir(root)).filter(name => name !== '.outgoing'), ['report.txt']);
+});
+
+test('a rejected attachment list leaves nothing staged', async () => {
+  const large = Buffer.alloc(MAX_OUTGOING_ATTACHMENT_BYTES).toString('base64');
+  await assert.rejects(
+    resolveOutgoingAttachments([
+      { filename: 'a.bin', contentBase64: large },
+      { filename: 'b.bin', contentBase64: large }
+    ]),
+    /total size limit/
+  );
+  await assert.rejects(
+    resolveOutgoingAttachments([{ filename: 'a.txt', contentBase64: base64('a') }, { path: 'missing.txt' }]),
+    /Attachment not found/
+  );
+  assert.deepEqual(await staged(), []);
+});
+
+test('sweeping removes staged files older than an hour', async () => {
+  const old = join(staging, 'old');
+  await mkdir(old, { recursive: true });
+  await writeFile(join(old, 'a.txt'), 'a');
+  const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+  await utimes(old, twoHoursAgo, twoHoursAgo);
+
+  const [fresh] = await resolveOutgoingAttachments([{ filename: 'b.txt', contentBase64: base64('b') }]);
+  const remaining = await staged();
+  assert.equal(remaining.length, 1);
+  assert.ok(fresh.path.startsWith(join(staging, remaining[0])));
+
+  await sweepStagedAttachments();
+  assert.equal((await staged()).length, 1);
+});
@@ -0,0 +1,204 @@
+/**
+ * Tests for HTTP authentication: static tokens, OAuth introspection and scopes
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { spawn } from 'child_process';
+import { mkdtemp, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { OAuthMetadata } from '@modelcontextprotocol/sdk/shared/auth.js';
+import {
+  loadAuthConfig,
+  createTokenVerifier,
+  grantedScopes,
+  isLoopbackHost,
+  isAuthEnabled,
+  type AuthConfig,
+  type Scope
+} from '../src/services/auth.js';
+import { registerTools } from '../src/tools/index.js';
+import { registerPrompts } from '../src/prompts/index.js';
+import { loadMemoryBackend } from '../src/services/memory.js';
+import { createSearchIndex } from '../src/services/search-index.js';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const resource = new URL('http://127.0.0.1:3000/mcp');
+const TOKEN = 'static-token-0123456789';
+
+/**
+ * Introspection responses by token; `requests` counts calls per token
+ */
+const introspection: Record<string, object> = {
+  inactive: { active: false },
+  'other-audience': { active: true, scope: 'read', aud: 'https://elsewhere.example/mcp', exp: Date.now() / 1000 + 600 },
+  'no-audience': { active: true, scope: 'read', exp: Date.now() / 1000 + 600 },
+  'no-expiry': { active: true, scope: 'read organize unknown', client_id: 'app', aud: ['https://other.example', `${resource.href}/`] }
+};
+const requests: Record<string, number> = {};
+let authServer: Server;
+let oauthMetadata: OAuthMetadata;
+
+before(async () => {
+  authServer = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const token = new URLSearchParams(body).get('token') ?? '';
+      requests[token] = (requests[token] ?? 0) + 1;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(introspection[token] ?? { active: false }));
+    });
+  });
+  await new Promise<void>(resolve => authServer.listen(0, '127.0.0.1', resolve));
+  const issuer = `http://127.0.0.1:${(authServer.address() as AddressInfo).port}`;
+  oauthMetadata = {
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    introspection_endpoint: `${issuer}/introspect`,
+    response_types_supported: ['code']
+  };
+});
+
+after(() => {
+  authServer.close();
+});
+
+function oauthConfig(allowMissingAudience = false): AuthConfig {
+  return { tokens: [], oauth: { issuer: new URL(oauthMetadata.issuer), allowMissingAudience } };
+}
+
+test('static tokens come from the environment and a tokens file', async () => {
+  const file = join(await mkdtemp(join(tmpdir(), 'auth-')), 'tokens.json');
+  await writeFile(file, JSON.stringify({ tokens: [{ name: 'iPad', token: 'ipad-token-0123456789', scopes: ['read', 'compose'] }] }));
+
+  const config = await loadAuthConfig({ MAIL_AUTH_TOKEN: TOKEN, MAIL_AUTH_TOKENS_FILE: file });
+  assert.deepEqual(config.tokens.map(token => [token.name, token.scopes]), [
+    ['MAIL_AUTH_TOKEN', ['read', 'organize', 'compose', 'send']],
+    ['iPad', ['read', 'compose']]
+  ]);
+  assert.equal(isAuthEnabled(config), true);
+  assert.equal(isAuthEnabled(await loadAuthConfig({})), false);
+});
+
+test('malformed static tokens are rejected', async () => {
+  const file = join(await mkdtemp(join(tmpdir(), 'auth-')), 'tokens.json');
+
+  await assert.rejects(loadAuthConfig({ MAIL_AUTH_TOKEN: 'short' }), /at least 16 characters/);
+
+  await writeFile(file, JSON.stringify({ tokens: [{ token: 'long-enough-token-123', scopes: ['read', 'admin'] }] }));
+  await assert.rejects(loadAuthConfig({ MAIL_AUTH_TOKENS_FILE: file }), /tokens\[0\]: unknown scope "admin"/);
+
+  await writeFile(file, JSON.stringify({ tokens: [{ token: 'long-enough-token-123', scopes: [] }] }));
+  await assert.rejects(loadAuthConfig({ MAIL_AUTH_TOKENS_FILE: file }), /"scopes" must list at least one/);
+
+  await writeFile(file, JSON.stringify({ token: 'long-enough-token-123' }));
+  await assert.rejects(loadAuthConfig({ MAIL_AUTH_TOKENS_FILE: file }), /must contain a "tokens" array/);
+});
+
+test('static tokens match exactly and carry their scopes', async () => {
+  const verifier = createTokenVerifier({ tokens: [{ name: 'cli', token: TOKEN, scopes: ['read'] }] }, resource);
+
+  const info = await verifier.verifyAccessToken(TOKEN);
+  assert.equal(info.clientId, 'cli');
+  assert.deepEqual([...grantedScopes(info)], ['read']);
+  assert.ok(info.expiresAt! > Date.now() / 1000);
+
+  for (const token of [`${TOKEN}x`, TOKEN.slice(0, -1), '', TOKEN.toUpperCase()]) {
+    await assert.rejects(verifier.verifyAccessToken(token), /Invalid token/, token);
+  }
+});
+
+test('introspection rejects inactive tokens and tokens for another audience', async () => {
+  const verifier = createTokenVerifier(oauthConfig(), resource, oauthMetadata);
+
+  await assert.rejects(verifier.verifyAccessToken('inactive'), /Token is not active/);
+  await assert.rejects(verifier.verifyAccessToken('other-audience'), /not issued for this server/);
+  await assert.rejects(verifier.verifyAccessToken('no-audience'), /Token has no audience/);
+});
+
+test('tokens without an audience pass only when allowed', async () => {
+  const verifier = createTokenVerifier(oauthConfig(true), resource, oauthMetadata);
+  assert.deepEqual((await verifier.verifyAccessToken('no-audience')).scopes, ['read']);
+  await assert.rejects(verifier.verifyAccessToken('other-audience'), /not issued for this server/);
+});
+
+test('introspected tokens without an expiry get one and are cached', async () => {
+  const verifier = createTokenVerifier(oauthConfig(), resource, oauthMetadata);
+
+  const info = await verifier.verifyAccessToken('no-expiry');
+  assert.equal(info.clientId, 'app');
+  assert.deepEqual(info.scopes, ['read', 'organize']);
+  assert.ok(info.expiresAt! > Date.now() / 1000 && info.expiresAt! <= Date.now() / 1000 + 60);
+
+  await verifier.verifyAccessToken('no-expiry');
+  assert.equal(requests['no-expiry'], 1);
+});
+
+test('only loopback hosts count as local', () => {
+  for (const host of ['localhost', '127.0.0.1', '127.1.2.3', '::1']) {
+    assert.equal(isLoopbackHost(host), true, host);
+  }
+  for (const host of ['0.0.0.0', '::', '192.168.1.10', 'example.com', '128.0.0.1']) {
+    assert.equal(isLoopbackHost(host), false, host);
+  }
+});
+
+test('tools and prompts outside the granted scopes are hidden', async () => {
+  const listed = async (scopes: Scope[]) => {
+    const server = new McpServer({ name: 'test', version: '1.0.0' });
+    const backend = await loadMemoryBackend(join(root, 'fixtures', 'sample.json'));
+    registerTools(server, backend, createSearchIndex(':memory:'), new Set(scopes));
+    registerPrompts(server, backend, new Set(scopes));
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    const tools = (await client.listTools()).tools.map(tool => tool.name);
+    const prompts = (await client.listPrompts()).prompts.map(prompt => prompt.name);
+    await client.close();
+    return { tools, prompts };
+  };
+
+  const read = await listed(['read']);
+  assert.ok(read.tools.includes('apple_mail_search'));
+  assert.ok(!read.tools.includes('apple_mail_delete'));
+  assert.ok(!read.tools.includes('apple_mail_send_email'));
+  assert.ok(read.prompts.includes('triage_inbox'));
+  assert.ok(!read.prompts.includes('draft_reply'));
+
+  const send = await listed(['send']);
+  assert.deepEqual(send.tools, ['apple_mail_send_email']);
+  assert.deepEqual(send.prompts, []);
+
+  // draft_reply reads the thread before saving the reply, so needs both scopes
+  assert.deepEqual((await listed(['compose'])).prompts, []);
+  assert.ok((await listed(['read', 'compose'])).prompts.includes('draft_reply'));
+});
+
+test('the HTTP server refuses a non-loopback HOST without authentication', async () => {
+  const env: Record<string, string> = { ...process.env as Record<string, string> };
+  for (const name of ['MAIL_AUTH_TOKEN', 'MAIL_AUTH_TOKENS_FILE', 'MAIL_OAUTH_ISSUER']) delete env[name];
+
+  const child = spawn(process.execPath, ['--import', 'tsx', join(root, 'src', 'index.ts')], {
+    cwd: root,
+    env: { ...env, TRANSPORT: 'http', HOST: '0.0.0.0', PORT: '0', MAIL_BACKEND: 'memory', MAIL_FIXTURE: join(root, 'fixtures', 'sample.json') },
+    stdio: ['ignore', 'ignore', 'pipe']
+  });
+  let stderr = '';
+  child.stderr!.on('data', chunk => { stderr += chunk; });
+  const code = await new Promise<number | null>(resolve => child.on('exit', resolve));
+
+  assert.equal(code, 1);
+  assert.match(stderr, /Refusing to listen on 0\.0\.0\.0 without authentication/);
+});
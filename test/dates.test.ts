@@ -0,0 +1,49 @@
+/**
+ * Tests for date expressions in search filters, resolved against a fixed local time
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveDateExpression, isDateExpression } from '../src/services/dates.js';
+
+const now = new Date(2026, 2, 15, 14, 30);   // 15 March 2026, 14:30 local time
+
+test('today and yesterday name whole local days', () => {
+  assert.deepEqual(resolveDateExpression('today', 'from', now), new Date(2026, 2, 15));
+  assert.deepEqual(resolveDateExpression('today', 'to', now), new Date(2026, 2, 16));
+  assert.deepEqual(resolveDateExpression('Yesterday', 'from', now), new Date(2026, 2, 14));
+  assert.deepEqual(resolveDateExpression(' yesterday ', 'to', now), new Date(2026, 2, 15));
+
+  const newYear = new Date(2026, 0, 1, 8);
+  assert.deepEqual(resolveDateExpression('yesterday', 'from', newYear), new Date(2025, 11, 31));
+});
+
+test('last_N_hours, days and weeks count back from now', () => {
+  assert.deepEqual(resolveDateExpression('last_7_days', 'from', now), new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000));
+  assert.deepEqual(resolveDateExpression('last_3_hours', 'from', now), new Date(2026, 2, 15, 11, 30));
+  assert.deepEqual(resolveDateExpression('LAST_2_WEEKS', 'to', now), new Date(now.getTime() - 14 * 24 * 60 * 60 * 1000));
+  assert.deepEqual(resolveDateExpression('last_0_days', 'from', now), now);
+});
+
+test('date-only values start the day as a lower bound and end it as an upper bound', () => {
+  assert.deepEqual(resolveDateExpression('2026-01-05', 'from', now), new Date(2026, 0, 5));
+  assert.deepEqual(resolveDateExpression('2026-01-05', 'to', now), new Date(2026, 0, 6));
+  assert.deepEqual(resolveDateExpression('2026-02-28', 'to', now), new Date(2026, 2, 1));
+  assert.deepEqual(resolveDateExpression('2024-12-31', 'to', now), new Date(2025, 0, 1));
+});
+
+test('date-times are used exactly', () => {
+  assert.deepEqual(resolveDateExpression('2026-01-05T09:00:00Z', 'from', now), new Date(Date.UTC(2026, 0, 5, 9)));
+  assert.deepEqual(resolveDateExpression('2026-01-05T09:00:00Z', 'to', now), new Date(Date.UTC(2026, 0, 5, 9)));
+});
+
+test('invalid expressions are rejected', () => {
+  for (const value of ['2026-02-30', '2026-13-01']) {
+    assert.throws(() => resolveDateExpression(value, 'from', now), /Invalid date: /, value);
+  }
+  for (const value of ['tomorrow', 'last_days', 'last_-1_days', 'last_2_months', 'Jan 5 2026', '5/1/2026', '2026-01-05T99:00', '']) {
+    assert.throws(() => resolveDateExpression(value, 'from', now), /Invalid date expression: /, value);
+    assert.equal(isDateExpression(value), false, value);
+  }
+  assert.equal(isDateExpression('last_30_days'), true);
+});
@@ -0,0 +1,59 @@
+/**
+ * Tests for the persisted record of deleted messages
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createDeletionLog, type Deletion } from '../src/services/deletions.js';
+
+async function tempPath(): Promise<string> {
+  return join(await mkdtemp(join(tmpdir(), 'deletions-')), 'nested', 'deletions.json');
+}
+
+function deletion(mailbox: string, deletedAt = new Date().toISOString()): Deletion {
+  return { mailbox, account: 'Work', rfcMessageId: `${mailbox}@example.com`, deletedAt };
+}
+
+test('deletions survive a new instance', async () => {
+  const path = await tempPath();
+  await createDeletionLog(path).update({ '1': deletion('INBOX'), '2': deletion('Projects/2026') });
+
+  const reopened = createDeletionLog(path);
+  assert.equal((await reopened.get('2'))?.mailbox, 'Projects/2026');
+  assert.equal(await reopened.get('3'), undefined);
+
+  await reopened.update({ '1': null });
+  assert.deepEqual(Object.keys(JSON.parse(await readFile(path, 'utf8'))), ['2']);
+});
+
+test('a missing file is an empty record', async () => {
+  const log = createDeletionLog(await tempPath());
+  assert.equal(await log.get('1'), undefined);
+  await log.update({});
+});
+
+test('a corrupt file is reported with its path', async () => {
+  const path = join(await mkdtemp(join(tmpdir(), 'deletions-')), 'deletions.json');
+  await writeFile(path, '{ not json');
+  await assert.rejects(createDeletionLog(path).get('1'), new RegExp(`Deletion record ${path} is not valid JSON`));
+});
+
+test('old entries are dropped when the record is saved', async () => {
+  const path = await tempPath();
+  const old = new Date(Date.now() - 100 * 24 * 60 * 60 * 1000).toISOString();
+  await createDeletionLog(path).update({ '1': deletion('INBOX', old), '2': deletion('Sent') });
+
+  const reopened = createDeletionLog(path);
+  assert.equal(await reopened.get('1'), undefined);
+  assert.equal((await reopened.get('2'))?.mailbox, 'Sent');
+});
+
+test('concurrent updates are all written', async () => {
+  const path = await tempPath();
+  const log = createDeletionLog(path);
+  await Promise.all(['1', '2', '3'].map(id => log.update({ [id]: deletion(`Box${id}`) })));
+  assert.deepEqual(Object.keys(JSON.parse(await readFile(path, 'utf8'))).sort(), ['1', '2', '3']);
+});
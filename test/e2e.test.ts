@@ -0,0 +1,295 @@
+/**
+ * End-to-end tests: drive the stdio server over MCP against the memory fixture
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+
+let client: Client;
+let stateDir: string;
+
+before(async () => {
+  stateDir = await mkdtemp(join(tmpdir(), 'apple-mail-mcp-e2e-'));
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: ['--import', 'tsx', join(root, 'src', 'index.ts')],
+    cwd: root,
+    stderr: 'ignore',
+    env: {
+      ...process.env as Record<string, string>,
+      TRANSPORT: 'stdio',
+      MAIL_BACKEND: 'memory',
+      MAIL_FIXTURE: join(root, 'fixtures', 'sample.json'),
+      MAIL_ATTACHMENT_DIR: join(stateDir, 'attachments')
+    }
+  });
+  client = new Client({ name: 'e2e', version: '1.0.0' });
+  await client.connect(transport);
+});
+
+after(async () => {
+  await client?.close();
+  await rm(stateDir, { recursive: true, force: true });
+});
+
+/**
+ * Call a tool, failing the test if it reports an error
+ */
+async function call(name: string, args: Record<string, unknown> = {}): Promise<CallToolResult> {
+  const result = await client.callTool({ name, arguments: args }) as CallToolResult;
+  assert.ok(!result.isError, `${name} failed: ${text(result)}`);
+  return result;
+}
+
+async function callError(name: string, args: Record<string, unknown>): Promise<string> {
+  const result = await client.callTool({ name, arguments: args }) as CallToolResult;
+  assert.equal(result.isError, true, `${name} should have failed`);
+  return text(result);
+}
+
+function text(result: CallToolResult): string {
+  const [content] = result.content;
+  assert.equal(content.type, 'text');
+  return content.text;
+}
+
+/**
+ * Parse the JSON a tool returned
+ */
+function json(result: CallToolResult) {
+  return JSON.parse(text(result));
+}
+
+test('lists tools, resource templates and prompts', async () => {
+  const { tools } = await client.listTools();
+  const names = tools.map(tool => tool.name);
+  for (const name of ['apple_mail_search', 'apple_mail_get_email', 'apple_mail_send_email', 'apple_mail_delete']) {
+    assert.ok(names.includes(name), `missing tool ${name}`);
+  }
+
+  const { resourceTemplates } = await client.listResourceTemplates();
+  assert.deepEqual(resourceTemplates.map(template => template.name).sort(), ['attachment', 'mailbox', 'message', 'message-source']);
+
+  const { prompts } = await client.listPrompts();
+  assert.ok(prompts.some(prompt => prompt.name === 'triage_inbox'));
+});
+
+test('lists accounts and mailboxes', async () => {
+  const accounts = json(await call('apple_mail_list_accounts'));
+  assert.deepEqual(accounts.accounts.map((account: { name: string }) => account.name), ['Work', 'Personal']);
+
+  type Tree = { path: string; children: Tree[] };
+  const paths = (mailboxes: Tree[]): string[] => mailboxes.flatMap(mailbox => [mailbox.path, ...paths(mailbox.children)]);
+  const { mailboxes } = json(await call('apple_mail_list_mailboxes', { account: 'Work' }));
+  assert.ok(paths(mailboxes).includes('Projects/2026/Acme'));
+});
+
+test('searches newest first and pages with a cursor', async () => {
+  const search = json(await call('apple_mail_search', { query: 'Q3' }));
+  assert.deepEqual(search.emails.map((email: { id: string }) => email.id), ['1004', '1001']);
+
+  const first = json(await call('apple_mail_search', { query: 'Q3', limit: 1 }));
+  assert.equal(first.has_more, true);
+  const second = json(await call('apple_mail_search', { query: 'Q3', limit: 1, cursor: first.next_cursor }));
+  assert.equal(second.emails[0].id, '1001');
+
+  const either = json(await call('apple_mail_search', { q: 'subject:Q3 (in:INBOX OR in:Sent)' }));
+  assert.deepEqual(either.emails.map((email: { id: string }) => email.id), ['1004', '1003', '1001']);
+});
+
+test('reads an email and reports a missing one', async () => {
+  const email = json(await call('apple_mail_get_email', { message_id: '1001' }));
+  assert.equal(email.subject, 'Q3 report review');
+  assert.equal(email.mailbox, 'INBOX');
+  assert.equal(email.account, 'Work');
+  assert.match(email.content, /review the Q3 report/);
+
+  assert.match(await callError('apple_mail_get_email', { message_id: '424242' }), /not found/);
+});
+
+test('saves an attachment into the attachment directory', async () => {
+  const saved = json(await call('apple_mail_save_attachment', { message_id: '1001', name: 'Q3-summary.txt' }));
+  const [file] = saved.saved;
+  assert.equal(file.path, join(stateDir, 'attachments', '1001', 'Q3-summary.txt'));
+  assert.ok((await readFile(file.path, 'utf8')).length > 0);
+});
+
+test('failed attachment saves leave no directory behind', async () => {
+  assert.match(await callError('apple_mail_save_attachment', { message_id: '1001', name: 'missing.pdf' }), /Attachment not found/);
+  assert.match(await callError('apple_mail_save_attachment', { message_id: '424242' }), /not found/);
+  assert.match(await callError('apple_mail_save_attachment', { message_id: '../1001' }), /Invalid message ID/);
+  assert.equal(json(await call('apple_mail_save_attachment', { message_id: '1002' })).count, 0);
+  assert.deepEqual(await readdir(join(stateDir, 'attachments')), ['1001']);
+});
+
+test('sends an email into Sent', async () => {
+  await call('apple_mail_send_email', { to: ['bob@example.com'], subject: 'E2E hello', content: 'Hello from the test suite' });
+  const sent = json(await call('apple_mail_search', { query: 'E2E hello', mailbox: 'Sent', account: 'Work' }));
+  assert.equal(sent.emails.length, 1);
+});
+
+test('deletes and restores an email', async () => {
+  const deleted = json(await call('apple_mail_delete', { message_ids: ['1002'] }));
+  assert.deepEqual(deleted.results.map((result: { restorable: boolean }) => result.restorable), [true]);
+  assert.equal(json(await call('apple_mail_get_email', { message_id: '1002' })).mailbox, 'Trash');
+
+  const restored = json(await call('apple_mail_restore', { message_ids: ['1002'] }));
+  assert.deepEqual(restored.results.map((result: { mailbox: string }) => result.mailbox), ['INBOX']);
+  assert.equal(json(await call('apple_mail_get_email', { message_id: '1002' })).mailbox, 'INBOX');
+});
+
+test('index refreshes pick up read and flag changes', async () => {
+  await call('apple_mail_refresh_index', { account: 'Work', mailbox: 'INBOX' });
+  const unread = async () => json(await call('apple_mail_search', { use_index: true, account: 'Work', mailbox: 'INBOX', unread_only: true }))
+    .emails.map((email: { id: string }) => email.id);
+  assert.ok((await unread()).includes('1004'));
+
+  await call('apple_mail_mark_read', { message_id: '1004', read: true });
+  const refreshed = json(await call('apple_mail_refresh_index', { account: 'Work', mailbox: 'INBOX' }));
+  assert.equal(refreshed.updated, 1);
+  assert.ok(!(await unread()).includes('1004'));
+
+  const status = json(await call('apple_mail_index_status', { account: 'Work' }));
+  assert.equal(status.mailboxes, 1);
+  assert.deepEqual(status.indexed.map((entry: { mailbox: string; messageCount: number }) => [entry.mailbox, entry.messageCount]), [['INBOX', 3]]);
+});
+
+test('reads a thread with its headers and attachments', async () => {
+  const thread = json(await call('apple_mail_get_thread', { message_id: '1001' }));
+  assert.equal(thread.groupedBy, 'headers');
+  assert.deepEqual(thread.messages.map((message: { id: string }) => message.id), ['1001', '1003', '1004']);
+  assert.equal(thread.messages[2].content, 'Thanks!');
+
+  const headers = json(await call('apple_mail_get_headers', { message_id: '1004', include_source: true }));
+  assert.equal(headers.messageId, 'q3-review-thanks@company.com');
+  assert.equal(headers.inReplyTo, 'q3-review-reply@company.com');
+  assert.deepEqual(headers.references, ['q3-review@company.com', 'q3-review-reply@company.com']);
+  assert.match(headers.source, /^Message-ID: <q3-review-thanks@company\.com>$/m);
+
+  const attachments = json(await call('apple_mail_get_attachments', { message_id: '1001' }));
+  assert.deepEqual(attachments.attachments.map((attachment: { name: string }) => attachment.name), ['Q3-report.pdf', 'Q3-summary.txt']);
+  assert.equal(json(await call('apple_mail_get_attachments', { message_id: '1002' })).count, 0);
+});
+
+test('threads span INBOX and Sent from any message in them', async () => {
+  const thread = json(await call('apple_mail_get_thread', { message_id: '1004', include_quoted: true }));
+  assert.equal(thread.subject, 'Re: Q3 report review');
+  assert.equal(thread.count, 3);
+  assert.deepEqual(thread.messages.map((message: { id: string; mailbox: string }) => [message.id, message.mailbox]), [
+    ['1001', 'INBOX'],
+    ['1003', 'Sent'],
+    ['1004', 'INBOX']
+  ]);
+  assert.deepEqual(thread.participants, ['Alice Smith <alice@company.com>', 'Sam Taylor <me@company.com>']);
+  assert.match(thread.messages[2].content, /^> Sure, I'll have comments by Thursday\.$/m);
+
+  const single = json(await call('apple_mail_get_thread', { message_id: '2001' }));
+  assert.deepEqual([single.groupedBy, single.count], ['subject', 1]);
+});
+
+test('moves emails and sets their flags', async () => {
+  const preview = json(await call('apple_mail_move_email', { filter: { sender: 'receipts@store.example' }, target_mailbox: 'Receipts', dry_run: true }));
+  assert.deepEqual(preview.messages.map((message: { id: string }) => message.id), ['2001']);
+  assert.equal(json(await call('apple_mail_get_email', { message_id: '2001' })).mailbox, 'INBOX');
+
+  const moved = json(await call('apple_mail_move_email', { message_id: '2001', target_mailbox: 'Receipts' }));
+  assert.equal(moved.succeeded, 1);
+  assert.equal(json(await call('apple_mail_get_email', { message_id: '2001' })).mailbox, 'Receipts');
+  await call('apple_mail_move_email', { message_id: '2001', target_mailbox: 'INBOX', target_account: 'Personal' });
+
+  await call('apple_mail_set_flags', { message_ids: ['1002'], flag_color: 'orange' });
+  const flagged = json(await call('apple_mail_get_email', { message_id: '1002' }));
+  assert.deepEqual([flagged.flagged, flagged.flagColor], [true, 'orange']);
+  await call('apple_mail_set_flags', { message_id: '1002', flagged: false });
+  assert.equal(json(await call('apple_mail_get_email', { message_id: '1002' })).flagged, false);
+});
+
+test('creates, renames and deletes mailboxes', async () => {
+  const created = json(await call('apple_mail_create_mailbox', { account: 'Work', name: 'Clients/Globex' }));
+  assert.deepEqual([created.mailbox, created.created], ['Clients/Globex', true]);
+
+  const renamed = json(await call('apple_mail_rename_mailbox', { account: 'Work', mailbox: 'Clients/Globex', new_name: 'Initech' }));
+  assert.equal(renamed.newPath, 'Clients/Initech');
+
+  assert.match(await callError('apple_mail_delete_mailbox', { account: 'Work', mailbox: 'Clients' }), /contains other mailboxes/);
+  await call('apple_mail_delete_mailbox', { account: 'Work', mailbox: 'Clients/Initech' });
+  await call('apple_mail_delete_mailbox', { account: 'Work', mailbox: 'Clients' });
+  assert.match(await callError('apple_mail_delete_mailbox', { account: 'Work', mailbox: 'Clients' }), /not found/);
+});
+
+test('drafts, replies to and forwards emails', async () => {
+  const draft = json(await call('apple_mail_create_draft', { to: ['bob@company.com'], subject: 'E2E draft', content: 'Draft body' }));
+  assert.equal(draft.recipientCount, 1);
+  assert.equal(json(await call('apple_mail_get_email', { message_id: draft.messageId })).mailbox, 'Drafts');
+
+  const reply = json(await call('apple_mail_reply', { message_id: '1002', content: 'Count me in' }));
+  assert.deepEqual([reply.subject, reply.recipients, reply.sent], ['Re: Team lunch', ['bob@company.com'], false]);
+  const replyEmail = json(await call('apple_mail_get_email', { message_id: reply.messageId }));
+  assert.equal(replyEmail.mailbox, 'Drafts');
+  assert.match(replyEmail.content, /^Count me in/);
+
+  const forward = json(await call('apple_mail_forward', { message_id: '1002', to: ['carol@example.com'], send: true }));
+  assert.deepEqual([forward.subject, forward.recipients, forward.sent], ['Fwd: Team lunch', ['carol@example.com'], true]);
+  assert.equal(json(await call('apple_mail_get_email', { message_id: forward.messageId })).mailbox, 'Sent');
+});
+
+test('reads message and mailbox resources', async () => {
+  const message = await client.readResource({ uri: 'mail://message/1001' });
+  const [content] = message.contents as Array<{ text: string }>;
+  assert.match(content.text, /^From: Alice Smith/);
+  assert.match(content.text, /mail:\/\/message\/1001\/attachment\/Q3-summary\.txt/);
+
+  const mailbox = await client.readResource({ uri: 'mail://account/Work/mailbox/Projects%2F2026' });
+  assert.equal(JSON.parse((mailbox.contents[0] as { text: string }).text).path, 'Projects/2026');
+
+  const nested = await client.readResource({ uri: 'mail://account/Work/mailbox/Projects/2026/Acme' });
+  assert.equal(JSON.parse((nested.contents[0] as { text: string }).text).path, 'Projects/2026/Acme');
+});
+
+test('fills in a prompt', async () => {
+  const prompt = await client.getPrompt({ name: 'summarize_thread', arguments: { message_id: '1001' } });
+  const [message] = prompt.messages;
+  assert.equal(message.role, 'user');
+  assert.match((message.content as { text: string }).text, /apple_mail_get_thread using \{"message_id":"1001"\}/);
+});
+
+test('prompts name the account of every mailbox they search', async () => {
+  const text = async (name: string, args: Record<string, string>) =>
+    ((await client.getPrompt({ name, arguments: args })).messages[0].content as { text: string }).text;
+
+  const digest = await text('weekly_digest', { mailbox: 'Archive' });
+  assert.match(digest, /\{"mailbox":"Archive","account":"Work","date_from":"last_7_days"\}/);
+  assert.match(digest, /\{"mailbox":"Archive","account":"Personal","date_from":"last_7_days"\}/);
+
+  const acme = await text('weekly_digest', { mailbox: 'Acme', account: 'Work' });
+  assert.match(acme, /using \{"mailbox":"Projects\/2026\/Acme","account":"Work","date_from":"last_7_days"\}\./);
+
+  const triage = await text('triage_inbox', {});
+  assert.match(triage, /each of \{"mailbox":"INBOX","account":"Work","unread_only":true\}, \{"mailbox":"INBOX","account":"Personal","unread_only":true\} in turn/);
+
+  await assert.rejects(client.getPrompt({ name: 'weekly_digest', arguments: { mailbox: 'Nowhere' } }), /Mailbox "Nowhere" not found/);
+});
+
+test('completes prompt message IDs and senders from recent inbox mail', async () => {
+  const complete = async (name: string, argument: string, value: string, context?: Record<string, string>) =>
+    (await client.complete({
+      ref: { type: 'ref/prompt', name },
+      argument: { name: argument, value },
+      ...(context ? { context: { arguments: context } } : {})
+    })).completion.values;
+
+  assert.deepEqual((await complete('summarize_thread', 'message_id', '100')).sort(), ['1001', '1002', '1004']);
+  assert.deepEqual(await complete('draft_reply', 'message_id', '2'), ['2001']);
+  assert.deepEqual(await complete('unanswered_emails', 'sender', 'ali'), ['alice@company.com']);
+  assert.deepEqual(await complete('unanswered_emails', 'sender', 'Bob J'), ['bob@company.com']);
+  assert.deepEqual(await complete('unanswered_emails', 'sender', 'ali', { account: 'Personal' }), []);
+});
@@ -0,0 +1,222 @@
+/**
+ * End-to-end tests for the HTTP transport: sessions, their scopes and
+ * resumed streams
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn, type ChildProcess } from 'child_process';
+import { createServer, type AddressInfo } from 'net';
+import { mkdtemp, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { setTimeout as sleep } from 'timers/promises';
+import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+
+/** Two tokens for the same client, one with fewer scopes, and one for another client */
+const FULL = 'laptop-full-0123456789';
+const READ_ONLY = 'laptop-read-0123456789';
+const OTHER = 'phone-token-0123456789';
+
+let child: ChildProcess;
+let url: string;
+
+interface SSEEvent {
+  id?: string;
+  data: any;
+}
+
+before(async () => {
+  const file = join(await mkdtemp(join(tmpdir(), 'http-')), 'tokens.json');
+  await writeFile(file, JSON.stringify({
+    tokens: [
+      { name: 'laptop', token: FULL, scopes: ['read', 'organize', 'compose', 'send'] },
+      { name: 'laptop', token: READ_ONLY, scopes: ['read'] },
+      { name: 'phone', token: OTHER, scopes: ['read', 'organize', 'compose', 'send'] }
+    ]
+  }));
+
+  const port = await freePort();
+  url = `http://127.0.0.1:${port}/mcp`;
+  const env: Record<string, string> = { ...process.env as Record<string, string> };
+  for (const name of ['MAIL_AUTH_TOKEN', 'MAIL_OAUTH_ISSUER', 'MAIL_PUBLIC_URL', 'HOST']) delete env[name];
+
+  child = spawn(process.execPath, ['--import', 'tsx', join(root, 'src', 'index.ts')], {
+    cwd: root,
+    env: {
+      ...env,
+      TRANSPORT: 'http',
+      PORT: String(port),
+      MAIL_AUTH_TOKENS_FILE: file,
+      MAIL_BACKEND: 'memory',
+      MAIL_FIXTURE: join(root, 'fixtures', 'sample.json')
+    },
+    stdio: ['ignore', 'ignore', 'inherit']
+  });
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      if ((await fetch(`http://127.0.0.1:${port}/health`)).ok) break;
+    } catch (error) {
+      if (attempt > 300) throw error;
+    }
+    await sleep(100);
+  }
+});
+
+after(() => {
+  child.kill();
+});
+
+async function freePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
+
+function headers(token: string, session?: string, extra: Record<string, string> = {}): Record<string, string> {
+  return {
+    Authorization: `Bearer ${token}`,
+    'Content-Type': 'application/json',
+    Accept: 'application/json, text/event-stream',
+    ...(session ? { 'Mcp-Session-Id': session } : {}),
+    ...extra
+  };
+}
+
+function post(token: string, body: object, session?: string): Promise<Response> {
+  return fetch(url, { method: 'POST', headers: headers(token, session), body: JSON.stringify(body) });
+}
+
+/**
+ * Parse the message events of an SSE body, skipping the empty priming events
+ * that only carry an ID to resume from
+ */
+function parseEvents(text: string): SSEEvent[] {
+  return text.split('\n\n').flatMap(block => {
+    const lines = block.split('\n');
+    const id = lines.find(line => line.startsWith('id:'))?.slice(3).trim();
+    const data = lines.filter(line => line.startsWith('data:')).map(line => line.slice(5).trim()).join('\n');
+    return data ? [{ id, data: JSON.parse(data) }] : [];
+  });
+}
+
+/**
+ * Read SSE events from a response until `count` have arrived, then drop the stream
+ */
+async function readEvents(response: Response, count: number): Promise<SSEEvent[]> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  while (parseEvents(text).length < count) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value, { stream: true });
+  }
+  await reader.cancel();
+  return parseEvents(text);
+}
+
+async function initialize(token: string): Promise<string> {
+  const response = await post(token, {
+    jsonrpc: '2.0',
+    id: 0,
+    method: 'initialize',
+    params: { protocolVersion: LATEST_PROTOCOL_VERSION, capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+  });
+  assert.equal(response.status, 200);
+  const session = response.headers.get('mcp-session-id');
+  assert.ok(session);
+  const [event] = parseEvents(await response.text());
+  assert.equal(event.data.result.serverInfo.name, 'apple-mail-mcp-server');
+
+  const initialized = await post(token, { jsonrpc: '2.0', method: 'notifications/initialized' }, session);
+  assert.equal(initialized.status, 202);
+  return session;
+}
+
+async function listTools(token: string, session: string): Promise<{ status: number; tools?: string[]; error?: string }> {
+  const response = await post(token, { jsonrpc: '2.0', id: 1, method: 'tools/list' }, session);
+  if (response.status !== 200) {
+    return { status: response.status, error: ((await response.json()) as { error: { message: string } }).error.message };
+  }
+  const [event] = parseEvents(await response.text());
+  return { status: 200, tools: event.data.result.tools.map((tool: { name: string }) => tool.name) };
+}
+
+test('requests without a valid token are rejected', async () => {
+  const response = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{}' });
+  assert.equal(response.status, 401);
+  assert.equal((await post('wrong-token-0123456789', {})).status, 401);
+});
+
+test('initialize starts a session that later requests reuse', async () => {
+  const session = await initialize(FULL);
+
+  for (let i = 0; i < 2; i++) {
+    const { status, tools } = await listTools(FULL, session);
+    assert.equal(status, 200);
+    assert.ok(tools!.includes('apple_mail_send_email'));
+  }
+
+  const health = await (await fetch(new URL('/health', url))).json() as { sessions: number };
+  assert.ok(health.sessions >= 1);
+});
+
+test('requests need a known session', async () => {
+  assert.deepEqual(await listTools(FULL, 'no-such-session'), { status: 404, error: 'Session not found' });
+
+  const response = await post(FULL, { jsonrpc: '2.0', id: 1, method: 'tools/list' });
+  assert.equal(response.status, 400);
+});
+
+test('a session only accepts its own client with every scope it started with', async () => {
+  const session = await initialize(FULL);
+
+  assert.deepEqual(await listTools(OTHER, session), { status: 403, error: 'Session belongs to another client' });
+  const reduced = await listTools(READ_ONLY, session);
+  assert.equal(reduced.status, 403);
+  assert.match(reduced.error!, /no longer grants every scope/);
+  assert.equal((await listTools(FULL, session)).status, 200);
+
+  // A session started with fewer scopes accepts the fuller token, but still offers only its own tools
+  const readSession = await initialize(READ_ONLY);
+  const { status, tools } = await listTools(FULL, readSession);
+  assert.equal(status, 200);
+  assert.ok(tools!.includes('apple_mail_search'));
+  assert.ok(!tools!.includes('apple_mail_send_email'));
+});
+
+test('DELETE ends the session', async () => {
+  const session = await initialize(FULL);
+
+  const response = await fetch(url, { method: 'DELETE', headers: headers(FULL, session) });
+  assert.equal(response.status, 200);
+  assert.equal((await listTools(FULL, session)).status, 404);
+});
+
+test('a dropped stream is replayed from Last-Event-ID', async () => {
+  const session = await initialize(FULL);
+
+  const response = await post(FULL, {
+    jsonrpc: '2.0',
+    id: 2,
+    method: 'tools/call',
+    params: { name: 'apple_mail_refresh_index', arguments: {}, _meta: { progressToken: 'refresh' } }
+  }, session);
+  const events = parseEvents(await response.text());
+  assert.ok(events.length >= 3, 'progress for each mailbox, then the result');
+  assert.ok(events.every(event => event.id));
+  assert.equal(events.at(-1)!.data.id, 2);
+
+  // Pretend the connection dropped after the first event
+  const resumed = await fetch(url, { method: 'GET', headers: headers(FULL, session, { 'Last-Event-ID': events[0].id! }) });
+  assert.equal(resumed.status, 200);
+  const replayed = await readEvents(resumed, events.length - 1);
+  assert.deepEqual(replayed, events.slice(1));
+});
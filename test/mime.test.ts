@@ -0,0 +1,125 @@
+/**
+ * Tests for message parsing and body conversion against .eml fixtures
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import { parseMessageBody, parseMessageHeaders } from '../src/services/mime.js';
+import { parseHeaders, headerValue, extractMessageIds } from '../src/services/headers.js';
+import { htmlToMarkdown, htmlToText, renderOutgoingBody } from '../src/services/body.js';
+
+function fixture(name: string): Promise<string> {
+  return readFile(new URL(`fixtures/${name}`, import.meta.url), 'utf8');
+}
+
+test('multipart/alternative: both bodies, quoted-printable decoded', async () => {
+  const body = await parseMessageBody(await fixture('multipart-alternative.eml'));
+
+  assert.equal(body.text, 'Hi Sam,\n\nRevenue is up 12% — see the table below.\nThis line is long enough that it was soft-wrapped by the quoted-printable encoder.\n\nAlice');
+  assert.match(body.html!, /<a href="https:\/\/example.com\/q3">table<\/a>/);
+  assert.equal(htmlToMarkdown(body.html!), 'Hi Sam,\n\nRevenue is up **12%** — see the [table](https://example.com/q3).\n\nAlice');
+});
+
+test('multipart/alternative: threading, routing and list headers', async () => {
+  const headers = await parseMessageHeaders(await fixture('multipart-alternative.eml'));
+
+  assert.equal(headers.messageId, 'alt-1@example.com');
+  assert.equal(headers.inReplyTo, 'q3-review@company.com');
+  assert.deepEqual(headers.references, ['q3-review@company.com', 'q3-review-reply@company.com']);
+  assert.equal(headers.to, '"Sam Taylor" <me@company.com>, "Bob Jones" <bob@company.com>');
+  assert.equal(headers.cc, 'team@company.com');
+  assert.equal(headers.date, '2026-01-05T09:15:00.000Z');
+
+  assert.deepEqual(headers.listUnsubscribe, {
+    urls: ['https://example.com/unsubscribe?u=42'],
+    mailto: ['mailto:unsubscribe@example.com?subject=unsubscribe'],
+    oneClick: true
+  });
+  assert.deepEqual(headers.authenticationResults.map(result => `${result.method}=${result.result}`), ['spf=pass', 'dkim=pass', 'dmarc=pass']);
+
+  assert.equal(headers.received.length, 2);
+  const { raw, ...hop } = headers.received[0];
+  assert.match(raw, /^from mail\.example\.com .* \(UTC\)$/);
+  assert.deepEqual(hop, {
+    from: 'mail.example.com (mail.example.com [192.0.2.10])',
+    by: 'mx.company.com (Postfix)',
+    with: 'ESMTPS',
+    id: '4AB12C3',
+    for: '<me@company.com>',
+    date: '2026-01-05T09:15:02.000Z'
+  });
+  assert.equal(headers.received[1].from, 'laptop.example.com');
+  assert.equal(headers.received[1].date, '2026-01-05T09:15:00.000Z');
+});
+
+test('HTML-only: base64 decoded, sanitized to markdown and text', async () => {
+  const { html } = await parseMessageBody(await fixture('html-only.eml'));
+  assert.ok(html);
+
+  const markdown = htmlToMarkdown(html);
+  assert.equal(markdown, '# Top stories\n\nCafé opens & closes  \nearly.\n\n[Read more](https://news.example.com/story) or click.\n\n![Photo](https://news.example.com/photo.jpg)');
+  assert.doesNotMatch(markdown, /javascript:|alert|open\.gif|color: red/);
+
+  assert.equal(htmlToText(html), 'Top stories\n\nCafé opens & closes\nearly.\n\nRead more or click.');
+});
+
+test('encoded-word headers are decoded', async () => {
+  const headers = await parseMessageHeaders(await fixture('encoded-headers.eml'));
+
+  assert.equal(headers.subject, 'Réunion — planning 日本語 and more');
+  assert.equal(headers.from, '"Jürgen Müller" <juergen@example.de>');
+  assert.equal(headers.to, '"François" <francois@example.fr>');
+  assert.equal(headers.date, '2026-01-07T05:30:00.000Z');
+  assert.equal((await parseMessageBody(await fixture('encoded-headers.eml'))).text, 'Grüße aus München.\n');
+});
+
+test('folded headers are unfolded and repeated ones kept in order', async () => {
+  const source = await fixture('encoded-headers.eml');
+
+  const parsed = await parseMessageHeaders(source);
+  assert.equal(parsed.messageId, 'encoded-1@example.com');
+  assert.deepEqual(parsed.headers['x-custom-header'], ['first part second part', 'repeated']);
+
+  const raw = parseHeaders(source);
+  assert.deepEqual(raw.get('x-custom-header'), ['first part second part', 'repeated']);
+  assert.equal(headerValue(raw, 'Message-ID'), '<encoded-1@example.com>');
+  assert.equal(headerValue(raw, 'SUBJECT'), '=?UTF-8?Q?R=C3=A9union_=E2=80=94_planning?= =?UTF-8?B?IOaXpeacrOiqng==?= and more');
+  assert.equal(raw.has('grüße aus münchen.'), false, 'the body is not read as headers');
+});
+
+test('parseHeaders handles CRLF and folded References', async () => {
+  const raw = parseHeaders(await fixture('multipart-alternative.eml'));
+
+  assert.equal(raw.get('received')?.length, 2);
+  assert.equal(headerValue(raw, 'References'), '<q3-review@company.com> <q3-review-reply@company.com>');
+  assert.deepEqual(extractMessageIds(headerValue(raw, 'References')), ['q3-review@company.com', 'q3-review-reply@company.com']);
+  assert.equal(raw.has('content-transfer-encoding'), false, 'part headers are not message headers');
+});
+
+test('attachments stay out of the body', async () => {
+  const source = await fixture('attachments.eml');
+  const body = await parseMessageBody(source);
+
+  assert.equal(body.text, undefined);
+  assert.equal(body.html, '<p>Report attached. Logo: <img src="cid:logo@company.com"></p>');
+  assert.doesNotMatch(JSON.stringify(body), /Attachment text|PDF|base64/);
+  assert.equal(htmlToMarkdown(body.html!), 'Report attached. Logo:');
+
+  const headers = await parseMessageHeaders(source);
+  assert.equal(headers.messageId, 'attach-1@company.com');
+  assert.equal(headers.subject, 'Report attached');
+});
+
+test('extractMessageIds accepts bracketed lists and a lone bare ID', () => {
+  assert.deepEqual(extractMessageIds('<a@b> <c@d>\r\n <e@f>'), ['a@b', 'c@d', 'e@f']);
+  assert.deepEqual(extractMessageIds('bare@example.com'), ['bare@example.com']);
+  assert.deepEqual(extractMessageIds('two bare@ids'), []);
+  assert.deepEqual(extractMessageIds(undefined), []);
+});
+
+test('outgoing bodies keep a plain-text alternative', () => {
+  assert.deepEqual(renderOutgoingBody('Hello'), { text: 'Hello' });
+  assert.deepEqual(renderOutgoingBody('**Hi**', 'markdown'), { text: '**Hi**', html: '<p><strong>Hi</strong></p>\n' });
+  assert.deepEqual(renderOutgoingBody('<p>A &amp; B</p><p>C</p>', 'html'), { text: 'A & B\nC', html: '<p>A &amp; B</p><p>C</p>' });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for the search query language and how queries scope a search
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseQuery, applyQuery, resolveQueryScope } from '../src/services/query.js';
+import { createMemoryBackend } from '../src/services/memory.js';
+import type { MailFixture, SearchEmailsParams } from '../src/types.js';
+
+const fixture: MailFixture = {
+  accounts: [
+    { name: 'Work', email: 'me@company.com', type: 'imap' },
+    { name: 'Personal', email: 'me@example.com', type: 'iCloud' }
+  ],
+  mailboxes: [
+    { name: 'INBOX', account: 'Work' },
+    { name: 'Sent', account: 'Work' },
+    { name: 'Archive', account: 'Work' },
+    { name: 'Projects/2026/Acme', account: 'Work' },
+    { name: 'INBOX', account: 'Personal' },
+    { name: 'Archive', account: 'Personal' }
+  ],
+  messages: [
+    { id: '1', mailbox: 'INBOX', account: 'Work', subject: 'Inbox', sender: 'a@x', date: '2026-01-01T00:00:00Z', content: '' },
+    { id: '2', mailbox: 'Sent', account: 'Work', subject: 'Sent', sender: 'me@company.com', date: '2026-01-02T00:00:00Z', content: '' },
+    { id: '3', mailbox: 'Projects/2026/Acme', account: 'Work', subject: 'Acme', sender: 'b@x', date: '2026-01-03T00:00:00Z', content: '' },
+    { id: '4', mailbox: 'Archive', account: 'Personal', subject: 'Old', sender: 'c@x', date: '2026-01-04T00:00:00Z', content: '' },
+    { id: '5', mailbox: 'INBOX', account: 'Personal', subject: 'Hi', sender: 'd@x', date: '2026-01-05T00:00:00Z', content: '' }
+  ]
+};
+
+function applied(q: string, filters: SearchEmailsParams = {}): SearchEmailsParams {
+  return applyQuery(filters, parseQuery(q));
+}
+
+async function search(q: string, filters: SearchEmailsParams = {}): Promise<string[]> {
+  const backend = createMemoryBackend(fixture);
+  const params = await resolveQueryScope(backend, applied(q, filters));
+  return (await backend.searchEmails(params)).emails.map(email => email.id).sort();
+}
+
+test('a bare "-" is a syntax error', () => {
+  for (const query of ['-', 'invoice -', 'invoice - receipt', '(invoice -)']) {
+    assert.throws(() => parseQuery(query), /Invalid query: Expected a search term right after "-"/, query);
+  }
+  assert.deepEqual(parseQuery('e-mail'), { type: 'text', value: 'e-mail' });
+  assert.deepEqual(parseQuery('-(a OR b)'), {
+    type: 'not',
+    child: { type: 'or', children: [{ type: 'text', value: 'a' }, { type: 'text', value: 'b' }] }
+  });
+});
+
+test('top-level in: and account: become the search scope', () => {
+  const params = applied('in:Sent account:Work hello');
+  assert.equal(params.mailbox, 'Sent');
+  assert.equal(params.account, 'Work');
+  assert.equal(params.expression, undefined);
+  assert.equal(params.allMailboxes, undefined);
+});
+
+test('in: or account: under OR or NOT searches every mailbox', () => {
+  assert.equal(applied('in:INBOX OR in:Sent').allMailboxes, true);
+  assert.equal(applied('-label:Archive').allMailboxes, true);
+  assert.equal(applied('account:Work OR from:d').allMailboxes, true);
+  assert.equal(applied('from:a OR from:b').allMailboxes, undefined);
+  assert.equal(applied('in:Sent OR from:a', { mailbox: 'INBOX' }).allMailboxes, undefined);
+});
+
+test('nested mailbox terms match across mailboxes', async () => {
+  assert.deepEqual(await search('in:INBOX OR in:Sent'), ['1', '2', '5']);
+  assert.deepEqual(await search('in:INBOX OR in:Sent', { account: 'Work' }), ['1', '2']);
+  assert.deepEqual(await search('-in:INBOX'), ['2', '3', '4']);
+  assert.deepEqual(await search('account:Personal OR in:Sent'), ['2', '4', '5']);
+  assert.deepEqual(await search('NOT account:Work'), ['4', '5']);
+});
+
+test('nested mailbox names resolve to full paths and accounts', async () => {
+  assert.deepEqual(await search('in:Acme OR in:Sent'), ['2', '3']);
+  assert.deepEqual(await search('in:Archive OR in:Acme'), ['3', '4']);
+  assert.deepEqual(await search('in:Archive OR in:Sent', { account: 'Work' }), ['2']);
+
+  const params = await resolveQueryScope(createMemoryBackend(fixture), applied('in:archive OR in:acme'));
+  assert.deepEqual(params.expression, {
+    type: 'or',
+    children: [
+      {
+        type: 'or',
+        children: [
+          { type: 'mailbox', value: 'Archive', account: 'Work' },
+          { type: 'mailbox', value: 'Archive', account: 'Personal' }
+        ]
+      },
+      { type: 'mailbox', value: 'Projects/2026/Acme', account: 'Work' }
+    ]
+  });
+});
+
+test('unknown mailboxes in a query are reported', async () => {
+  await assert.rejects(search('in:Nowhere OR in:Sent'), /Mailbox "Nowhere" not found/);
+  await assert.rejects(search('in:Acme OR in:Sent', { account: 'Personal' }), /Mailbox "Acme" not found in account "Personal"/);
+});
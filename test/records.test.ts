@@ -0,0 +1,128 @@
+/**
+ * Tests for decoding the record format emitted by the AppleScript handlers
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeRecords, unescapeValue, decodeMessages, decodeMessageStates, decodeTrashResults } from '../src/services/records.js';
+
+/**
+ * Escape a value the way the AppleScript `escapeValue` handler does
+ */
+function escapeValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+}
+
+function record(kind: string, fields: Record<string, string>): string {
+  return [kind, ...Object.entries(fields).map(([key, value]) => `${key}:${escapeValue(value)}`)].join('\t');
+}
+
+const AWKWARD_VALUES = [
+  '',
+  'plain',
+  'café 日本語 🎉 שלום',
+  'a\tb\tc',
+  'line one\nline two\r\nline three\r',
+  'trailing backslash\\',
+  '\\n is not a newline',
+  'a\\\\tb',
+  'KEY:value with: colons:',
+  'http://example.com:8080/path',
+  'MESSAGE\tID:999\tSUBJECT:injected',
+  '\nMESSAGE\tID:999',
+  '\\\t\\\n'
+];
+
+test('unescapeValue reverses the AppleScript escaping', () => {
+  for (const value of AWKWARD_VALUES) {
+    assert.equal(unescapeValue(escapeValue(value)), value, JSON.stringify(value));
+  }
+  assert.equal(unescapeValue('a\\nb\\rc\\td\\\\e'), 'a\nb\rc\td\\e');
+});
+
+test('unescapeValue keeps unknown escapes and a dangling backslash as text', () => {
+  assert.equal(unescapeValue('\\x\\"'), 'x"');
+  assert.equal(unescapeValue('cut off\\'), 'cut off\\');
+});
+
+test('values round-trip through a record', () => {
+  for (const value of AWKWARD_VALUES) {
+    const records = decodeRecords(record('MESSAGE', { ID: '1', SUBJECT: value, CONTENT: value }));
+    assert.equal(records.length, 1, JSON.stringify(value));
+    assert.equal(records[0].kind, 'MESSAGE');
+    assert.equal(records[0].fields.get('SUBJECT'), value);
+    assert.equal(records[0].fields.get('CONTENT'), value);
+  }
+});
+
+test('record markers inside values never start a new record', () => {
+  const output = record('MESSAGE', { ID: '1', SUBJECT: 'x', CONTENT: 'before\nMESSAGE\tID:2\tSUBJECT:fake\nafter' });
+  const messages = decodeMessages(output);
+  assert.deepEqual(messages.map(message => message.id), ['1']);
+  assert.equal(messages[0].content, 'before\nMESSAGE\tID:2\tSUBJECT:fake\nafter');
+});
+
+test('only the first colon separates key from value', () => {
+  const [decoded] = decodeRecords('ATTACHMENT\tNAME:a:b:c.txt\tURL:https://example.com:443/x');
+  assert.equal(decoded.fields.get('NAME'), 'a:b:c.txt');
+  assert.equal(decoded.fields.get('URL'), 'https://example.com:443/x');
+});
+
+test('blank lines and CRLF line endings are ignored', () => {
+  const output = ['', record('STATE', { ID: '1' }), '   ', '\t', record('STATE', { ID: '2' }), ''].join('\r\n');
+  assert.deepEqual(decodeRecords(output).map(decoded => decoded.fields.get('ID')), ['1', '2']);
+  assert.deepEqual(decodeRecords(''), []);
+  assert.deepEqual(decodeRecords('\n\n'), []);
+});
+
+test('repeated keys keep the last value and fields without a colon are skipped', () => {
+  const [decoded] = decodeRecords('RESULT\tID:1\tID:2\tgarbage\tSUCCESS:true');
+  assert.equal(decoded.fields.get('ID'), '2');
+  assert.equal(decoded.fields.has('garbage'), false);
+  assert.equal(decoded.fields.get('SUCCESS'), 'true');
+});
+
+test('a record without fields keeps its kind', () => {
+  assert.deepEqual(decodeRecords('DONE'), [{ kind: 'DONE', fields: new Map() }]);
+});
+
+test('truncated lines decode what arrived and drop records missing required fields', () => {
+  const complete = record('MESSAGE', { ID: '1', SUBJECT: 'Hello', SENDER: 'a@example.com', CONTENT: 'Body' });
+  const cutInValue = `${record('MESSAGE', { ID: '2', SUBJECT: 'Second' })}\tCONTENT:Bo`;
+  const cutInKey = `${record('MESSAGE', { ID: '3' })}\tSUBJ`;
+  const cutInEscape = `${record('MESSAGE', { ID: '4', SUBJECT: 'Fourth' })}\tCONTENT:a\\`;
+
+  const messages = decodeMessages([complete, cutInValue, cutInKey, cutInEscape].join('\n'));
+  assert.deepEqual(messages.map(message => message.id), ['1', '2', '4']);
+  assert.equal(messages[1].content, 'Bo');
+  assert.equal(messages[2].content, 'a\\');
+});
+
+test('typed decoders pick their own kind and parse numbers and flags', () => {
+  const output = [
+    record('MATCH', { ID: '7' }),
+    record('STATE', { ID: '7', RECEIVED_DAYS: '2', RECEIVED_SECONDS: '30', READ: 'true', FLAGGED: 'true', FLAG_INDEX: '0', JUNK: 'false' }),
+    record('STATE', { ID: '8', RECEIVED_DAYS: 'x', READ: 'false', FLAGGED: 'false', FLAG_INDEX: '3' })
+  ].join('\n');
+
+  assert.deepEqual(decodeMessageStates(output), [
+    { id: '7', received: 2 * 86400 + 30, read: true, flagged: true, flagColor: 'red', junk: false },
+    { id: '8', received: 0, read: false, flagged: false, junk: false }
+  ]);
+});
+
+test('trash results carry the original location and Message-ID when present', () => {
+  const output = [
+    record('RESULT', { ID: '1', SUCCESS: 'true', MAILBOX: 'Projects/2026', ACCOUNT: 'Work', RFC_ID: '<a@b>' }),
+    record('RESULT', { ID: '2', SUCCESS: 'false', ERROR: 'Can\'t get message:\n"2"' })
+  ].join('\n');
+
+  assert.deepEqual(decodeTrashResults(output), [
+    { messageId: '1', success: true, mailbox: 'Projects/2026', account: 'Work', rfcMessageId: '<a@b>' },
+    { messageId: '2', success: false, error: 'Can\'t get message:\n"2"' }
+  ]);
+});
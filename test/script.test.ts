@@ -0,0 +1,191 @@
+/**
+ * Hostile inputs against the AppleScript literal builders
+ *
+ * Each literal is read back with a small AppleScript lexer: it must be one
+ * complete expression evaluating to exactly the input, with no raw line
+ * break that would end the statement it sits in.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  stringLiteral,
+  listLiteral,
+  numberLiteral,
+  booleanLiteral,
+  messageIdLiteral,
+  messageIdListLiteral,
+  dateAssignment
+} from '../src/services/script.js';
+
+const HOSTILE = [
+  '',
+  'plain text',
+  'say "hi"',
+  '"',
+  '""',
+  '\\',
+  '\\"',
+  'ends with a backslash\\',
+  '" & (do shell script "rm -rf ~") & "',
+  '\\" & (do shell script "id") & \\"',
+  '"\n do shell script "id"\n"',
+  'line one\nline two',
+  'carriage\rreturn',
+  'windows\r\nline',
+  'tab\there',
+  '-- comment',
+  '(* comment',
+  '¬ continuation',
+  'end tell',
+  "it's a 'quote'",
+  '«data utxt0041»',
+  'unicode: café, 日本語, emoji 🎉, rtl שלום',
+  'zero\u200bwidth, line\u2028separator and non\u00a0breaking',
+  'nul\0byte',
+  '\0',
+  '\0"\0',
+  'all: \\ " \r \n \t \0 «» ¬'
+];
+
+test('string literals read back as exactly the input', () => {
+  for (const value of HOSTILE) {
+    const literal = stringLiteral(value);
+    assert.doesNotMatch(literal, /[\r\n\t\0]/, `raw control character in ${JSON.stringify(literal)}`);
+    assert.equal(evaluate(literal), value, `round trip of ${JSON.stringify(value)}`);
+  }
+});
+
+test('string literals of ordinary text are plain quoted strings', () => {
+  assert.equal(stringLiteral('say "hi"'), '"say \\"hi\\""');
+  assert.equal(stringLiteral('a\\b'), '"a\\\\b"');
+  assert.equal(stringLiteral('a\r\n\tb'), '"a\\r\\n\\tb"');
+});
+
+test('list literals hold every value as its own item', () => {
+  const literal = listLiteral(HOSTILE);
+  assert.doesNotMatch(literal, /[\r\n\t\0]/);
+  assert.deepEqual(evaluate(literal), HOSTILE);
+});
+
+test('number and boolean literals', () => {
+  assert.equal(numberLiteral(42), '42');
+  assert.equal(numberLiteral(-1.5), '-1.5');
+  assert.throws(() => numberLiteral(NaN), /Invalid number/);
+  assert.throws(() => numberLiteral(Infinity), /Invalid number/);
+  assert.equal(booleanLiteral(true), 'true');
+  assert.equal(booleanLiteral(false), 'false');
+});
+
+test('message IDs must be positive integers', () => {
+  assert.equal(messageIdLiteral('12345'), '12345');
+  assert.equal(messageIdLiteral(' 007 '), '7');
+  assert.equal(messageIdListLiteral(['1', '2']), '{1, 2}');
+
+  for (const id of ['', 'abc', '1 or true', '1)', '-1', '1.5', '1e3', '1\n2', '1234567890123456', '1" & "2', '\0']) {
+    assert.throws(() => messageIdLiteral(id), /Invalid message ID/, JSON.stringify(id));
+  }
+  assert.throws(() => messageIdListLiteral(['1', '2; do shell script "id"']), /Invalid message ID/);
+});
+
+test('date assignments only contain numbers', () => {
+  const script = dateAssignment('theDate', new Date(2026, 1, 28, 13, 45, 30));
+  assert.equal(script, [
+    'set theDate to current date',
+    'set day of theDate to 1',
+    'set year of theDate to 2026',
+    'set month of theDate to 2',
+    'set day of theDate to 28',
+    `set time of theDate to ${13 * 3600 + 45 * 60 + 30}`
+  ].join('\n') + '\n');
+  assert.throws(() => dateAssignment('theDate', new Date('not a date')), /Invalid date/);
+});
+
+// Helper functions
+
+/**
+ * Evaluate a literal as AppleScript would: strings with their escapes,
+ * `&` concatenation, `(character id N)`, parentheses and `{...}` lists
+ *
+ * Throws unless the whole text is consumed.
+ */
+function evaluate(text: string): unknown {
+  let position = 0;
+
+  const skipSpaces = () => {
+    while (text[position] === ' ') position++;
+  };
+
+  const expect = (token: string) => {
+    skipSpaces();
+    if (!text.startsWith(token, position)) {
+      throw new Error(`Expected ${token} at ${position} in ${JSON.stringify(text)}`);
+    }
+    position += token.length;
+  };
+
+  const string = (): string => {
+    expect('"');
+    let value = '';
+    for (;;) {
+      const char = text[position++];
+      if (char === undefined) throw new Error(`Unterminated string in ${JSON.stringify(text)}`);
+      if (char === '"') return value;
+      if (char !== '\\') {
+        value += char;
+        continue;
+      }
+      const escaped = text[position++];
+      const escapes: Record<string, string> = { '\\': '\\', '"': '"', n: '\n', r: '\r', t: '\t' };
+      if (!(escaped in escapes)) throw new Error(`Unknown escape \\${escaped} in ${JSON.stringify(text)}`);
+      value += escapes[escaped];
+    }
+  };
+
+  const operand = (): unknown => {
+    skipSpaces();
+    if (text[position] === '"') return string();
+    if (text.startsWith('(character id ', position)) {
+      const match = /^\(character id (\d+)\)/.exec(text.slice(position))!;
+      position += match[0].length;
+      return String.fromCodePoint(Number(match[1]));
+    }
+    if (text[position] === '(') {
+      expect('(');
+      const value = expression();
+      expect(')');
+      return value;
+    }
+    if (text[position] === '{') {
+      expect('{');
+      const items: unknown[] = [];
+      skipSpaces();
+      while (text[position] !== '}') {
+        if (items.length > 0) expect(',');
+        items.push(expression());
+        skipSpaces();
+      }
+      expect('}');
+      return items;
+    }
+    throw new Error(`Unexpected ${JSON.stringify(text[position])} at ${position} in ${JSON.stringify(text)}`);
+  };
+
+  const expression = (): unknown => {
+    let value = operand();
+    skipSpaces();
+    while (text[position] === '&') {
+      position++;
+      value = String(value) + String(operand());
+      skipSpaces();
+    }
+    return value;
+  };
+
+  const value = expression();
+  skipSpaces();
+  if (position !== text.length) {
+    throw new Error(`Trailing text ${JSON.stringify(text.slice(position))} in ${JSON.stringify(text)}`);
+  }
+  return value;
+}
@@ -0,0 +1,101 @@
+/**
+ * Tests for the HTTP session registry and the resumable-stream event store
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import { setTimeout as sleep } from 'timers/promises';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { createSessionRegistry } from '../src/services/sessions.js';
+import { createEventStore } from '../src/services/event-store.js';
+
+function fakeServer(): McpServer & { closed: number } {
+  const server = { closed: 0, async close() { server.closed++; } };
+  return server as unknown as McpServer & { closed: number };
+}
+
+const transport = {} as StreamableHTTPServerTransport;
+
+function notification(n: number): JSONRPCMessage {
+  return { jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 1, progress: n } };
+}
+
+test('sessions are found by ID until removed or closed', async () => {
+  const sessions = createSessionRegistry(60_000);
+  const server = fakeServer();
+
+  const session = sessions.add('a', { server, transport, clientId: 'laptop' });
+  assert.equal(sessions.get('a'), session);
+  assert.equal(session.clientId, 'laptop');
+  assert.deepEqual(sessions.list().map(entry => entry.id), ['a']);
+
+  sessions.add('b', { server: fakeServer(), transport });
+  sessions.remove('b');
+  assert.equal(sessions.get('b'), undefined);
+
+  await sessions.close('a');
+  assert.equal(sessions.get('a'), undefined);
+  assert.equal(server.closed, 1);
+  await sessions.closeAll();
+});
+
+test('idle sessions are closed, but not while a request is open', async () => {
+  const sessions = createSessionRegistry(30);
+  const server = fakeServer();
+  const session = sessions.add('a', { server, transport });
+
+  const response = new EventEmitter();
+  sessions.track(session, response);
+  await sleep(150);
+  assert.equal(sessions.get('a'), session, 'an open SSE stream keeps the session alive');
+  assert.equal(session.openRequests, 1);
+
+  response.emit('close');
+  assert.equal(session.openRequests, 0);
+  await sleep(150);
+  assert.equal(sessions.get('a'), undefined);
+  assert.equal(server.closed, 1);
+  await sessions.closeAll();
+});
+
+test('closeAll closes every session', async () => {
+  const sessions = createSessionRegistry(60_000);
+  const servers = [fakeServer(), fakeServer()];
+  sessions.add('a', { server: servers[0], transport });
+  sessions.add('b', { server: servers[1], transport });
+
+  await sessions.closeAll();
+  assert.deepEqual(sessions.list(), []);
+  assert.deepEqual(servers.map(server => server.closed), [1, 1]);
+});
+
+test('replay sends the later events of the same stream, in order', async () => {
+  const store = createEventStore();
+  const a1 = await store.storeEvent('a', notification(1));
+  await store.storeEvent('b', notification(2));
+  await store.storeEvent('a', notification(3));
+  await store.storeEvent('a', notification(4));
+
+  const sent: Array<[string, JSONRPCMessage]> = [];
+  const streamId = await store.replayEventsAfter(a1, { send: async (eventId, message) => { sent.push([eventId, message]); } });
+
+  assert.equal(streamId, 'a');
+  assert.equal(await store.getStreamIdForEventId!(a1), 'a');
+  assert.deepEqual(sent.map(([, message]) => (message as { params?: { progress?: number } }).params?.progress), [3, 4]);
+  assert.deepEqual(sent.map(([eventId]) => eventId), ['3', '4']);
+});
+
+test('the event store keeps only the newest events', async () => {
+  const store = createEventStore(2);
+  const first = await store.storeEvent('a', notification(1));
+  const second = await store.storeEvent('a', notification(2));
+  await store.storeEvent('a', notification(3));
+
+  await assert.rejects(store.replayEventsAfter(first, { send: async () => undefined }), /Event 1 is no longer available/);
+  const sent: string[] = [];
+  await store.replayEventsAfter(second, { send: async eventId => { sent.push(eventId); } });
+  assert.deepEqual(sent, ['3']);
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for conversation threading and quoted-text stripping
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildThread, normalizeSubject, stripQuotedText } from '../src/services/threads.js';
+import type { ThreadMessage } from '../src/types.js';
+
+let received = 1767600000;
+
+function message(id: string, subject: string, headers: Partial<ThreadMessage> = {}): ThreadMessage {
+  received += 60;
+  return {
+    id,
+    subject,
+    sender: 'Alice Smith <alice@company.com>',
+    date: new Date(received * 1000).toISOString(),
+    read: true,
+    flagged: false,
+    mailbox: 'INBOX',
+    account: 'Work',
+    content: '',
+    received,
+    ...headers
+  };
+}
+
+const ids = (messages: ThreadMessage[]) => messages.map(message => message.id);
+
+test('messages are grouped by Message-ID, In-Reply-To and References, oldest first', () => {
+  const original = message('1', 'Q3 report review', { rfcMessageId: 'q3@company.com' });
+  const reply = message('2', 'Re: Q3 report review', { rfcMessageId: 'q3-reply@company.com', inReplyTo: 'q3@company.com', mailbox: 'Sent' });
+  const thanks = message('3', 'Re: Q3 report review', { rfcMessageId: '<Q3-Thanks@company.com>', references: ['<q3@company.com>', '<q3-reply@company.com>'] });
+  const late = message('4', 'Re: Q3 report review', { inReplyTo: 'q3-thanks@company.com' });
+  const unrelated = message('5', 'Re: Q3 report review', { rfcMessageId: 'other@company.com' });
+
+  const thread = buildThread(thanks, [unrelated, late, reply, original]);
+  assert.equal(thread.groupedBy, 'headers');
+  assert.deepEqual(ids(thread.messages), ['1', '2', '3', '4']);
+  assert.equal(thread.messages[1].mailbox, 'Sent', 'replies kept in Sent are part of the thread');
+
+  // A thread is found from any message in it
+  assert.deepEqual(ids(buildThread(original, [late, thanks, reply]).messages), ['1', '2', '3', '4']);
+});
+
+test('copies of a message in several mailboxes appear once', () => {
+  const original = message('1', 'Lunch', { rfcMessageId: 'lunch@company.com' });
+  const copy = { ...original, id: '9', mailbox: 'Archive' };
+  const reply = message('2', 'Re: Lunch', { inReplyTo: 'lunch@company.com' });
+
+  assert.deepEqual(ids(buildThread(reply, [original, copy, reply]).messages), ['1', '2']);
+});
+
+test('messages without header links fall back to the normalized subject', () => {
+  const first = message('1', 'Team lunch');
+  const reply = message('2', 'RE: [team] Fwd: team  LUNCH', { mailbox: 'Sent' });
+  const other = message('3', 'Team lunch menu');
+
+  const thread = buildThread(reply, [first, other]);
+  assert.equal(thread.groupedBy, 'subject');
+  assert.deepEqual(ids(thread.messages), ['1', '2']);
+
+  assert.deepEqual(ids(buildThread(message('4', 'Re:'), [message('5', 'Fwd:')]).messages), ['4'], 'empty subjects match nothing');
+  assert.equal(normalizeSubject('AW: SV[2]: Antw: Budget'), 'budget');
+});
+
+test('quoted replies and forwarded originals are stripped', () => {
+  assert.equal(stripQuotedText('Thanks!\n\n> Sure, I\'ll have comments by Thursday.\n> Bob'), 'Thanks!');
+  assert.equal(stripQuotedText('Sounds good.\n\nOn Mon, 5 Jan 2026 at 09:15, Alice Smith <alice@company.com> wrote:\nCan you review it?'), 'Sounds good.');
+  assert.equal(stripQuotedText('Sounds good.\n\nOn Mon, 5 Jan 2026 at 09:15, Alice Smith\n<alice@company.com> wrote:\nCan you review it?'), 'Sounds good.');
+  assert.equal(stripQuotedText('See below\r\n\r\n-----Original Message-----\r\nFrom: Bob'), 'See below');
+  assert.equal(stripQuotedText('FYI\n\nBegin forwarded message:\n\nFrom: Bob'), 'FYI');
+  assert.equal(stripQuotedText('Agreed\n\nFrom: Bob Jones\nSent: Monday\nSubject: Plan'), 'Agreed');
+  assert.equal(stripQuotedText('First\n> quoted\n\n\n\nSecond'), 'First\n\nSecond');
+  assert.equal(stripQuotedText('From: the desk of Alice\nHello'), 'From: the desk of Alice\nHello', 'a From: line alone is kept');
+});
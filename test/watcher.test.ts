@@ -0,0 +1,171 @@
+/**
+ * Tests for the new-mail watcher and webhook delivery of its changes
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingHttpHeaders } from 'http';
+import type { AddressInfo } from 'net';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createMailWatcher, type MailboxChanges } from '../src/services/watcher.js';
+import { createWebhookNotifier, type WebhookPayload } from '../src/services/webhook.js';
+import type { EmailMessage, MailBackend, MessageState } from '../src/types.js';
+
+const now = () => Math.floor(Date.now() / 1000);
+
+function message(id: string, received: number, state: Partial<MessageState> = {}): MessageState {
+  return { id, received, read: false, flagged: false, junk: false, ...state };
+}
+
+/**
+ * A watcher over one mailbox whose contents the test sets before each poll
+ */
+async function watchMailbox(initial: MessageState[]) {
+  const mailbox = { states: initial };
+  const backend = { listMessageStates: async () => mailbox.states } as unknown as MailBackend;
+  const watcher = createMailWatcher(backend, 60 * 60 * 1000);
+  const batches: MailboxChanges[] = [];
+
+  watcher.onChanges(batch => batches.push(batch));
+  watcher.watch('Work', 'INBOX');
+  await watcher.poll();
+  assert.equal(batches.length, 0, 'the first poll only records the mailbox');
+
+  return {
+    async poll(states: MessageState[]) {
+      mailbox.states = states;
+      batches.length = 0;
+      await watcher.poll();
+      return batches;
+    },
+    stop: watcher.stop
+  };
+}
+
+function kinds(batches: MailboxChanges[]): string[][] {
+  return batches.flatMap(batch => batch.changes.map(change => [change.kind, change.id]));
+}
+
+test('changes between polls are found and reported per mailbox', async () => {
+  const old = now() - 3600;
+  const watched = await watchMailbox([message('1', old), message('2', old - 60), message('3', old - 120)]);
+
+  const [batch] = await watched.poll([
+    message('1', old, { read: true }),
+    message('3', old - 120),
+    message('4', now()),
+    message('5', now() - 5)
+  ]);
+  assert.equal(batch.account, 'Work');
+  assert.equal(batch.mailbox, 'INBOX');
+  assert.equal(batch.uri, 'mail://account/Work/mailbox/INBOX');
+  assert.deepEqual(kinds([batch]), [
+    ['new', '4'],
+    ['new', '5'],
+    ['changed', '1'],
+    ['deleted', '2']
+  ]);
+  assert.equal(batch.changes[2].read, true);
+
+  const flagged = await watched.poll([
+    message('1', old, { read: true }),
+    message('3', old - 120, { flagged: true, flagColor: 'red' }),
+    message('4', now()),
+    message('5', now() - 5, { junk: true })
+  ]);
+  assert.deepEqual(kinds(flagged), [['changed', '3'], ['changed', '5']]);
+
+  assert.deepEqual(kinds(await watched.poll([])), [['deleted', '1'], ['deleted', '3'], ['deleted', '4'], ['deleted', '5']]);
+  assert.equal((await watched.poll([])).length, 0, 'nothing is reported when nothing changed');
+  watched.stop();
+});
+
+test('messages received before the high-water mark were moved in, allowing for late delivery', async () => {
+  const watched = await watchMailbox([message('1', now() - 3600)]);
+
+  const arrived = await watched.poll([
+    message('1', now() - 3600),
+    message('late', now() - 30),      // Within the delivery slack of the previous poll
+    message('moved', now() - 1800),   // Long before the previous poll
+    message('old', now() - 7200)
+  ]);
+  assert.deepEqual(kinds(arrived), [
+    ['new', 'late'],
+    ['added', 'moved'],
+    ['added', 'old']
+  ]);
+
+  // The mark moves up to the latest message seen, even one received in the future
+  const future = now() + 600;
+  await watched.poll([message('1', now() - 3600), message('future', future)]);
+  const restored = await watched.poll([message('1', now() - 3600), message('future', future), message('restored', future - 1)]);
+  assert.deepEqual(kinds(restored), [['added', 'restored']]);
+  watched.stop();
+});
+
+/**
+ * Receive one webhook delivery, returning its headers and raw body
+ */
+async function receiveWebhook(send: (url: URL) => void): Promise<{ headers: IncomingHttpHeaders; body: string }> {
+  let received!: (delivery: { headers: IncomingHttpHeaders; body: string }) => void;
+  const delivery = new Promise<{ headers: IncomingHttpHeaders; body: string }>(resolve => { received = resolve; });
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      res.end();
+      received({ headers: req.headers, body });
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  try {
+    send(new URL(`http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`));
+    return await delivery;
+  } finally {
+    server.close();
+  }
+}
+
+const batch: MailboxChanges = {
+  account: 'Work',
+  mailbox: 'INBOX',
+  uri: 'mail://account/Work/mailbox/INBOX',
+  changes: [
+    { kind: 'new', ...message('9', 1790000000) },
+    { kind: 'changed', ...message('1', 1780000000, { flagged: true, flagColor: 'red' }) }
+  ]
+};
+
+const details = {
+  getMailboxMessages: async (_mailbox: string, _account: string, ids: string[]): Promise<EmailMessage[]> => ids.map(id => ({
+    id, subject: 'Contract draft', sender: 'Alice Smith <alice@company.com>', date: 'Monday, 19 October 2026 at 09:00:00', read: false, flagged: false, content: ''
+  }))
+} as unknown as MailBackend;
+
+test('webhooks are signed with HMAC-SHA256 of the body', async () => {
+  const secret = 'webhook-secret';
+  const { headers, body } = await receiveWebhook(url => createWebhookNotifier(details, url, secret)(batch));
+
+  assert.equal(headers['content-type'], 'application/json');
+  const signature = headers['x-mail-signature'] as string;
+  assert.match(signature, /^sha256=[0-9a-f]{64}$/);
+  const expected = `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+  assert.ok(timingSafeEqual(Buffer.from(signature), Buffer.from(expected)));
+
+  const payload = JSON.parse(body) as WebhookPayload;
+  assert.equal(payload.event, 'mail.changed');
+  assert.equal(payload.uri, batch.uri);
+  assert.deepEqual(payload.messages, [
+    {
+      kind: 'new', id: '9', received: new Date(1790000000 * 1000).toISOString(), read: false, flagged: false, junk: false,
+      subject: 'Contract draft', sender: 'Alice Smith <alice@company.com>', date: 'Monday, 19 October 2026 at 09:00:00'
+    },
+    { kind: 'changed', id: '1', received: new Date(1780000000 * 1000).toISOString(), read: false, flagged: true, flagColor: 'red', junk: false }
+  ]);
+});
+
+test('webhooks without a secret are not signed', async () => {
+  const { headers } = await receiveWebhook(url => createWebhookNotifier(details, url)(batch));
+  assert.equal(headers['x-mail-signature'], undefined);
+});